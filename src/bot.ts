@@ -1,8 +1,8 @@
-// Telegram Bot implementation with node-telegram-bot-api for polling support
+// Telegram Bot implementation with node-telegram-bot-api for polling and webhook support
 import { getHealthyDbInstances, retryDatabaseOperation, employeeCache } from './firebase-config';
-import { getUTCTimestamp } from './util/dayjs_format';
-import { generateEmployeeAuthToken } from './services/auth-token.service';
+import { APP_LINK_TTL_MINUTES, createAppLink } from './services/app-link.service';
 import {
+    CallbackQuery,
     Contact,
     InlineKeyboardMarkup,
     ReplyKeyboardMarkup,
@@ -14,67 +14,108 @@ import type { Location as TgLocation } from 'node-telegram-bot-api';
 import dayjs from 'dayjs';
 import getFullName from './util/getEmployeeFullName';
 import { EmployeeModel } from './models/employee';
-
-// In-memory storage for chat sessions
-interface ChatSession {
-    phoneNumber: string;
-    projectName: string;
-    employeeUid: string;
-    employeeId: string;
-    employeeName: string;
-}
+import { WorkedHoursOrigin } from './models/attendance';
+import { describeLocationValidation } from './util/locationValidation';
+import { findEmployeeByChatId, getEmployeeById, getEmployeeByUid } from './util/functions/employee/employee-service';
+import { getAttendanceByMonth } from './util/functions/attendance/attendance-service';
+import { Conversation, conversations } from './services/conversation.service';
+import { handleCorrectionCallback, handleCorrectionText, startCorrection } from './services/correction.service';
+import { handleInboxCallback, handleInboxText, showInbox } from './services/inbox.service';
+import { handleOvertimeClaimCallback } from './services/overtime-detection.service';
+import { acknowledgeOvertime, handleOvertimeCallback, handleOvertimeText, startOvertimeRequest } from './services/overtime-request.service';
+import { buildLeaveBalanceMessage, getLeaveBalance } from './services/leave-balance.service';
+import { buildLoansMessage, getLoanStatuses } from './services/loan.service';
+import { handleLeaveAttachment, handleLeaveCallback, handleLeaveText, startLeaveRequest } from './services/leave-request.service';
+import { buildPayslipPdf, buildPayslipSummary, calculatePayroll } from './services/payroll.service';
+import { buildTimesheetPdf, buildTimesheetSummary, parseTimesheetMonth, submitTimesheet } from './services/timesheet.service';
+import { getCompanyName } from './util/functions/hr-settings/hr-settings-service';
+import escapeHtml from './util/escapeHtml';
+import { getTransportMode } from './config/telegram.config';
+import { ChatSession, createSessionStore, LiveEntry } from './services/session-store.service';
+import { clockEmployee, ClockStatus, ClockType, getClockStatus } from './services/attendance-clock.service';
+import {
+    isOwnContact,
+    LinkAuditEntry,
+    recordLinkAudit,
+    reserveVerificationRequest,
+    startPhoneVerification,
+    verifyPhoneCode
+} from './services/contact-verification.service';
+import { DEFAULT_TZ, formatDuration, formatHour, getUTCTimestamp, monthNames } from './util/dayjs_format';
+import { locationMonitoringService } from './services/location-monitoring.service';
 
 const isDev = process.env.NODE_ENV === "development";
 
-const chatSessions = new Map<number, ChatSession>();
+// Chat sessions and live location trackers survive restarts through the session store
+const sessionStore = createSessionStore();
 
-// Track active live location sessions to infer when a user stops sharing
-interface LiveEntry {
-    chatId: number;
-    messageId: number;
-    employeeId: string;
-    projectName: string;
-    liveUntilMs: number | null;
-    lastUpdateMs: number;
-}
-
-const liveSessions = new Map<string, LiveEntry>();
 const LIVE_GRACE_MS = 2 * 60 * 1000; // 2 minutes grace after expected end or last update
+const LIVE_FINALIZE_INTERVAL_MS = 60000;
+let liveFinalizerId: NodeJS.Timeout | null = null;
 
 function makeLiveKey(chatId: number, messageId: number): string {
     return `${chatId}:${messageId}`;
 }
 
-// Periodically finalize sessions that seem ended (no updates past threshold)
-setInterval(async () => {
+// End when EITHER duration has passed OR updates have gone stale for the grace window
+function isLiveEntryEnded(entry: LiveEntry, now: number): boolean {
+    const durationEnd = entry.liveUntilMs || Number.POSITIVE_INFINITY;
+    const staleEnd = entry.lastUpdateMs + LIVE_GRACE_MS;
+    return now >= Math.min(durationEnd, staleEnd);
+}
+
+// Finalize sessions that seem ended (no updates past threshold), judged on the stored lastUpdateMs
+// so an update received by another replica keeps the session alive
+async function finalizeEndedLiveSessions(): Promise<void> {
     const now = Date.now();
-    for (const [key, entry] of liveSessions.entries()) {
-        // End when EITHER duration has passed OR updates have gone stale for the grace window
-        const durationEnd = entry.liveUntilMs || Number.POSITIVE_INFINITY;
-        const staleEnd = entry.lastUpdateMs + LIVE_GRACE_MS;
-        const threshold = Math.min(durationEnd, staleEnd);
-        if (now >= threshold) {
-            try {
-                const dbs = await getHealthyDbInstances();
-                const db = dbs[entry.projectName];
-                if (db) {
-                    const ts = getUTCTimestamp();
-                    await retryDatabaseOperation(async () => {
-                        return db.collection('employee').doc(entry.employeeId).update({
-                            ['currentLocation.isLive']: false,
-                            ['currentLocation.endedAt']: ts,
-                            lastChanged: ts
-                        } as unknown as Record<string, unknown>);
-                    }, 2, 1000, entry.projectName);
-                }
-            } catch (e) {
-                console.error('Live session finalization failed:', e);
-            } finally {
-                liveSessions.delete(key);
+    let entries: [string, LiveEntry][];
+    try {
+        entries = await sessionStore.liveEntries();
+    } catch (error) {
+        console.error('Failed to list live sessions:', error);
+        return;
+    }
+    for (const [key, entry] of entries) {
+        if (!isLiveEntryEnded(entry, now)) {
+            continue;
+        }
+        try {
+            const ended = await sessionStore.finalizeLiveEntry(key, entry.projectName, current => isLiveEntryEnded(current, Date.now()));
+            if (!ended) {
+                continue;
             }
+            const dbs = await getHealthyDbInstances();
+            const db = dbs[ended.projectName];
+            if (db) {
+                const ts = getUTCTimestamp();
+                await retryDatabaseOperation(async () => {
+                    return db.collection('employee').doc(ended.employeeId).update({
+                        ['currentLocation.isLive']: false,
+                        ['currentLocation.endedAt']: ts,
+                        lastChanged: ts
+                    } as unknown as Record<string, unknown>);
+                }, 2, 1000, ended.projectName);
+            }
+        } catch (e) {
+            console.error('Live session finalization failed:', e);
         }
     }
-}, 60000);
+}
+
+// Rehydrate persisted sessions and resume the live location finalization loop
+export async function restoreSessions(): Promise<void> {
+    try {
+        await sessionStore.load();
+    } catch (error) {
+        console.error('Failed to restore sessions:', error);
+    }
+
+    if (!liveFinalizerId) {
+        // Sessions that ended while the server was down are finalized on the first pass
+        void finalizeEndedLiveSessions();
+        liveFinalizerId = setInterval(() => void finalizeEndedLiveSessions(), LIVE_FINALIZE_INTERVAL_MS);
+    }
+}
 
 const BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
 
@@ -82,15 +123,20 @@ if (!BOT_TOKEN) {
     throw new Error('TELEGRAM_BOT_TOKEN environment variable is required but not set');
 }
 
-// Create bot with polling configuration (always enabled for main functionality)
-const bot = new TelegramBot(BOT_TOKEN, {
-    polling: {
-        interval: 3000,  // how often to poll in ms
-        autoStart: true,
-        params: {
-            timeout: 10     // Telegram's "long polling" timeout in seconds
+const transportMode = getTransportMode();
+
+// Create bot for the configured transport. Polling is started by the PollingManager once the
+// server is up; in webhook mode updates are pushed into the same handlers via processUpdate.
+export const bot = new TelegramBot(BOT_TOKEN, {
+    polling: transportMode === 'polling'
+        ? {
+            interval: 3000,  // how often to poll in ms
+            autoStart: false,
+            params: {
+                timeout: 10     // Telegram's "long polling" timeout in seconds
+            }
         }
-    }
+        : false
 });
 
 // Handle all incoming messages
@@ -99,19 +145,17 @@ bot.on('message', (msg: TelegramMessage) => {
     const text = msg.text || '';
     console.log('📨 Received message:', text, 'from chat:', chatId);
 
-    // Handle contact sharing
+    // Handle contact sharing (only the sender's own contact card can link an account)
     if (msg.contact) {
         const contact = msg.contact as Contact;
-        handleContactShare(chatId, contact);
+        if (isOwnContact(contact, msg.from?.id)) {
+            handleContactShare(chatId, contact);
+        } else {
+            void rejectForeignContact(msg, contact);
+        }
     }
-    // Handle phone number as text
-    else if (text && (/^[+]?[0-9\s\-()]{10,15}$/).test(text)) {
-        const cleanPhone = text.replace(/[\s\-()]/g, '');
-        const normalizedPhone = cleanPhone.startsWith('+') ? cleanPhone : '+' + cleanPhone;
-        handleContactShare(chatId, {
-            phone_number: normalizedPhone,
-            first_name: msg.from?.first_name || 'User'
-        });
+    else {
+        void routeMessage(msg, text);
     }
 
     // Handle static location or start of a live location
@@ -120,6 +164,35 @@ bot.on('message', (msg: TelegramMessage) => {
     }
 });
 
+// Route text and documents: a conversation in progress (e.g. /correct) takes them before account linking
+async function routeMessage(msg: TelegramMessage, text: string): Promise<void> {
+    const chatId = msg.chat.id;
+    const answersConversation = (text && !text.startsWith('/')) || msg.document || msg.photo;
+    let conversation: Conversation | null = null;
+    try {
+        conversation = answersConversation ? await conversations.get(chatId) : null;
+    } catch (error) {
+        console.error('Error loading conversation:', error);
+    }
+
+    // Free text answering a multi-step conversation (e.g. /correct)
+    if (text && !text.startsWith('/') && conversation) {
+        await handleConversationText(chatId, conversation.flow, text);
+    }
+    // Supporting document for a leave request
+    else if ((msg.document || msg.photo) && conversation?.flow === 'leave') {
+        handleLeaveAttachment(msg).catch((error) => console.error('Error handling leave attachment:', error));
+    }
+    // Handle phone number as text: requires a one-time code sent to the employee
+    else if (text && (/^[+]?[0-9\s\-()]{10,15}$/).test(text)) {
+        void handlePhoneVerificationRequest(msg, normalizePhoneNumber(text));
+    }
+    // Handle one-time verification code
+    else if ((/^\d{6}$/).test(text.trim())) {
+        void handleVerificationCode(msg, text.trim());
+    }
+}
+
 // Handle live location updates (Telegram sends edited_message updates)
 bot.on('edited_message', (msg: TelegramMessage) => {
     if (msg.location) {
@@ -144,7 +217,7 @@ bot.onText(/\/app/, async (msg: TelegramMessage) => {
     const chatId = msg.chat.id;
     console.log(`🔔 RECEIVED /app command from chat ${chatId}`);
 
-    const session = chatSessions.get(chatId);
+    const session = await sessionStore.getChatSession(chatId);
 
     if (!session) {
         sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
@@ -152,15 +225,15 @@ bot.onText(/\/app/, async (msg: TelegramMessage) => {
     }
 
     try {
-        // Generate authentication token for the employee
-        const authData = await generateEmployeeAuthToken(session.employeeUid, session.projectName, session.phoneNumber);
+        // Issue a single-use link; the mini app exchanges it for a custom token server-side
+        const linkId = await createAppLink(chatId, session.projectName, session.employeeId, session.employeeUid, session.phoneNumber);
 
         // Generate app URL with authentication parameters
         const appUrl = generateAppUrl(
             session.phoneNumber,
             session.projectName,  // Use environment prefix instead of project ID
             session.employeeUid,
-            authData.customToken
+            linkId
         );
 
         // Calculate expiration time (24 hours from now)
@@ -216,11 +289,428 @@ bot.onText(/\/(location|live)/, async (msg: TelegramMessage) => {
     await sendLocationPrompt(chatId);
 });
 
+// Switch between companies for employees registered in several projects
+bot.onText(/\/switch/, async (msg: TelegramMessage) => {
+    const chatId = msg.chat.id;
+    console.log(`🔔 RECEIVED /switch command from chat ${chatId}`);
+
+    const session = await sessionStore.getChatSession(chatId);
+    if (!session) {
+        await sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
+        return;
+    }
+
+    const matches = await findEmployeesByPhoneNumber(session.phoneNumber);
+    if (matches.length <= 1) {
+        await sendMessage(chatId, 'ℹ️ Your phone number is registered with only one company.');
+        return;
+    }
+
+    await sendCompanyChoice(chatId, session.phoneNumber, matches, `🏢 You are currently using <b>${await getCompanyName(session.projectName)}</b>.\n\nChoose the company to switch to:`);
+});
+
+// Handle inline keyboard button presses
+bot.on('callback_query', async (query: CallbackQuery) => {
+    const chatId = query.message?.chat.id;
+    const data = query.data || '';
+    await bot.answerCallbackQuery(query.id).catch(() => undefined);
+    if (!chatId) return;
+
+    try {
+        if (data.startsWith('company:')) {
+            await handleCompanyChoice(chatId, data.slice('company:'.length));
+        } else if (data === 'locwarn:reshare') {
+            await sendLocationPrompt(chatId);
+        } else if (data === 'locwarn:errand') {
+            await handleErrandClaim(chatId);
+        } else if (data.startsWith('errand:')) {
+            await handleErrandDecision(chatId, data);
+        } else if (data.startsWith('timesheet:submit:')) {
+            await handleTimesheetSubmit(chatId, data.slice('timesheet:submit:'.length));
+        } else if (data.startsWith('correct:')) {
+            await handleCorrectionCallback(chatId, data);
+        } else if (data.startsWith('inbox:')) {
+            const context = await ensureEmployeeByChat(chatId);
+            if (!context) {
+                await sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
+                return;
+            }
+            await handleInboxCallback(chatId, data, context);
+        } else if (data.startsWith('leave:')) {
+            await handleLeaveCallback(chatId, data, query.message?.message_id);
+        } else if (data.startsWith('overtime:')) {
+            await handleOvertimeCallback(chatId, data, query.message?.message_id);
+        } else if (data.startsWith('otack:')) {
+            const context = await ensureEmployeeByChat(chatId);
+            if (!context) {
+                await sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
+                return;
+            }
+            await acknowledgeOvertime(chatId, data.slice('otack:'.length), context.employeeUid, context.projectName);
+        } else if (data.startsWith('otclaim:')) {
+            const context = await ensureEmployeeByChat(chatId);
+            if (!context) {
+                await sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
+                return;
+            }
+            await handleOvertimeClaimCallback(chatId, data, context.employeeUid, context.projectName);
+        }
+    } catch (error) {
+        console.error('Error handling callback query:', error);
+        await sendMessage(chatId, '❌ An error occurred while processing your request. Please try again later.');
+    }
+});
+
+// Clock in / clock out from Telegram
+bot.onText(/\/(clockin|clockout)/, async (msg: TelegramMessage, match: RegExpExecArray | null) => {
+    const chatId = msg.chat.id;
+    const command = match?.[1] ?? 'clockin';
+    const type: ClockType = command === 'clockin' ? 'Clock In' : 'Clock Out';
+    console.log(`🔔 RECEIVED /${command} command from chat ${chatId}`);
+
+    const context = await ensureEmployeeByChat(chatId);
+    if (!context) {
+        await sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
+        return;
+    }
+
+    const result = await clockEmployee(type, context.employeeId, context.projectName);
+    if (!result.success) {
+        await sendMessage(chatId, `❌ ${type} failed: ${result.error}`);
+        return;
+    }
+
+    const verb = type === 'Clock In' ? 'Clocked in' : 'Clocked out';
+    const lateNote = result.lateMinutes !== undefined ? `\n\n🕒 Recorded as late (${result.lateMinutes} min after shift start)` : '';
+    await sendMessage(
+        chatId,
+        `✅ ${verb} at <b>${result.hour}</b>\n\n⏱️ Worked today: ${formatDuration(result.dailyWorkedHours ?? 0)}${lateNote}`
+    );
+});
+
+// Show clock-in state, today's punches, shift hours and how the server sees the employee's location
+bot.onText(/\/status/, async (msg: TelegramMessage) => {
+    const chatId = msg.chat.id;
+    console.log(`🔔 RECEIVED /status command from chat ${chatId}`);
+
+    const context = await ensureEmployeeByChat(chatId);
+    if (!context) {
+        await sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
+        return;
+    }
+
+    try {
+        const monitoring = await locationMonitoringService.getMonitoringStatus(context.projectName, context.employeeUid);
+        const status = await getClockStatus(context.employeeId, context.projectName, monitoring.settings.maxLocationAgeMinutes);
+        if (!status) {
+            await sendMessage(chatId, '❌ Employee record not found.');
+            return;
+        }
+        await sendMessage(chatId, buildStatusMessage(status, monitoring));
+    } catch (error) {
+        console.error('Error building status:', error);
+        await sendMessage(chatId, '❌ Could not load your status. Please try again later.');
+    }
+});
+
+// Monthly timesheet as a PDF document, e.g. /timesheet, /timesheet March, /timesheet 2026-03
+bot.onText(/\/timesheet(?:\s+(.+))?/, async (msg: TelegramMessage, match: RegExpExecArray | null) => {
+    const chatId = msg.chat.id;
+    console.log(`🔔 RECEIVED /timesheet command from chat ${chatId}`);
+
+    const context = await ensureEmployeeByChat(chatId);
+    if (!context) {
+        await sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
+        return;
+    }
+
+    try {
+        const employee = await getEmployeeById(context.employeeId, context.projectName);
+        if (!employee) {
+            await sendMessage(chatId, '❌ Employee record not found.');
+            return;
+        }
+
+        const period = parseTimesheetMonth(match?.[1], employee.timezone);
+        if (!period) {
+            await sendMessage(chatId, '❌ Unknown month. Try /timesheet March or /timesheet 2026-03.');
+            return;
+        }
+
+        const attendance = await getAttendanceByMonth(employee.uid, period.year, period.month, context.projectName);
+        if (!attendance) {
+            await sendMessage(chatId, `ℹ️ No timesheet found for ${period.month} ${period.year}.`);
+            return;
+        }
+
+        await bot.sendChatAction(chatId, 'upload_document').catch(() => undefined);
+        const pdf = await buildTimesheetPdf(employee, attendance, context.projectName);
+        const monthNumber = String(monthNames.indexOf(period.month) + 1).padStart(2, '0');
+        await bot.sendDocument(
+            chatId,
+            pdf,
+            {
+                caption: buildTimesheetSummary(employee, attendance),
+                parse_mode: 'HTML',
+                ...(attendance.state === 'Draft'
+                    ? { reply_markup: { inline_keyboard: [[{ text: '📤 Submit for validation', callback_data: `timesheet:submit:${attendance.id}` }]] } }
+                    : {})
+            },
+            { filename: `timesheet-${period.year}-${monthNumber}.pdf`, contentType: 'application/pdf' }
+        );
+    } catch (error) {
+        console.error('Error sending timesheet:', error);
+        await sendMessage(chatId, '❌ Could not generate your timesheet. Please try again later.');
+    }
+});
+
+// Monthly payslip as a PDF document, e.g. /payslip, /payslip March, /payslip 2026-03
+bot.onText(/\/payslip(?:\s+(.+))?/, async (msg: TelegramMessage, match: RegExpExecArray | null) => {
+    const chatId = msg.chat.id;
+    console.log(`🔔 RECEIVED /payslip command from chat ${chatId}`);
+
+    const context = await ensureEmployeeByChat(chatId);
+    if (!context) {
+        await sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
+        return;
+    }
+
+    try {
+        const employee = await getEmployeeById(context.employeeId, context.projectName);
+        if (!employee) {
+            await sendMessage(chatId, '❌ Employee record not found.');
+            return;
+        }
+
+        const period = parseTimesheetMonth(match?.[1], employee.timezone);
+        if (!period) {
+            await sendMessage(chatId, '❌ Unknown month. Try /payslip March or /payslip 2026-03.');
+            return;
+        }
+        const monthNumber = String(monthNames.indexOf(period.month) + 1).padStart(2, '0');
+        if (`${period.year}-${monthNumber}` > dayjs.utc().tz(employee.timezone || DEFAULT_TZ).format('YYYY-MM')) {
+            await sendMessage(chatId, `ℹ️ The ${period.month} ${period.year} payslip is not available yet.`);
+            return;
+        }
+        if (!employee.salary) {
+            await sendMessage(chatId, 'ℹ️ No salary is recorded on your profile. Please contact HR.');
+            return;
+        }
+
+        await bot.sendChatAction(chatId, 'upload_document').catch(() => undefined);
+        const breakdown = await calculatePayroll(employee, period, context.projectName);
+        const pdf = await buildPayslipPdf(employee, breakdown, context.projectName);
+        await bot.sendDocument(
+            chatId,
+            pdf,
+            { caption: buildPayslipSummary(breakdown), parse_mode: 'HTML' },
+            { filename: `payslip-${period.year}-${monthNumber}.pdf`, contentType: 'application/pdf' }
+        );
+    } catch (error) {
+        console.error('Error sending payslip:', error);
+        await sendMessage(chatId, '❌ Could not generate your payslip. Please try again later.');
+    }
+});
+
+// Guided attendance correction: pick a day, propose a value or punch times, add a comment
+bot.onText(/\/correct/, async (msg: TelegramMessage) => {
+    const chatId = msg.chat.id;
+    console.log(`🔔 RECEIVED /correct command from chat ${chatId}`);
+
+    const context = await ensureEmployeeByChat(chatId);
+    if (!context) {
+        await sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
+        return;
+    }
+
+    try {
+        await startCorrection(chatId, context.employeeId, context.projectName);
+    } catch (error) {
+        console.error('Error starting correction:', error);
+        await sendMessage(chatId, '❌ Could not start the correction. Please try again later.');
+    }
+});
+
+// Pending leave, corrections, overtime and objectives of the manager's reportees
+bot.onText(/\/inbox/, async (msg: TelegramMessage) => {
+    const chatId = msg.chat.id;
+    console.log(`🔔 RECEIVED /inbox command from chat ${chatId}`);
+
+    const context = await ensureEmployeeByChat(chatId);
+    if (!context) {
+        await sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
+        return;
+    }
+
+    try {
+        await showInbox(chatId, context.employeeId, context.projectName);
+    } catch (error) {
+        console.error('Error loading inbox:', error);
+        await sendMessage(chatId, '❌ Could not load your inbox. Please try again later.');
+    }
+});
+
+// Guided leave request: type, dates on a calendar, stand-in, reason and attachment
+bot.onText(/\/leave/, async (msg: TelegramMessage) => {
+    const chatId = msg.chat.id;
+    console.log(`🔔 RECEIVED /leave command from chat ${chatId}`);
+
+    const context = await ensureEmployeeByChat(chatId);
+    if (!context) {
+        await sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
+        return;
+    }
+
+    try {
+        await startLeaveRequest(chatId, context.employeeId, context.projectName);
+    } catch (error) {
+        console.error('Error starting leave request:', error);
+        await sendMessage(chatId, '❌ Could not start the leave request. Please try again later.');
+    }
+});
+
+// Leave balance, days taken this year, next eligibility tier and days at risk of expiry
+bot.onText(/\/balance/, async (msg: TelegramMessage) => {
+    const chatId = msg.chat.id;
+    console.log(`🔔 RECEIVED /balance command from chat ${chatId}`);
+
+    const context = await ensureEmployeeByChat(chatId);
+    if (!context) {
+        await sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
+        return;
+    }
+
+    try {
+        const employee = await getEmployeeById(context.employeeId, context.projectName);
+        if (!employee) {
+            await sendMessage(chatId, '❌ Employee record not found.');
+            return;
+        }
+        const balance = await getLeaveBalance(employee, context.projectName);
+        await sendMessage(chatId, buildLeaveBalanceMessage(balance));
+    } catch (error) {
+        console.error('Error loading leave balance:', error);
+        await sendMessage(chatId, '❌ Could not load your leave balance. Please try again later.');
+    }
+});
+
+// Overtime request by a manager for team members: date, times, type, team, goal and justification
+bot.onText(/\/overtime/, async (msg: TelegramMessage) => {
+    const chatId = msg.chat.id;
+    console.log(`🔔 RECEIVED /overtime command from chat ${chatId}`);
+
+    const context = await ensureEmployeeByChat(chatId);
+    if (!context) {
+        await sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
+        return;
+    }
+
+    try {
+        await startOvertimeRequest(chatId, context.employeeId, context.projectName);
+    } catch (error) {
+        console.error('Error starting overtime request:', error);
+        await sendMessage(chatId, '❌ Could not start the overtime request. Please try again later.');
+    }
+});
+
+// Ongoing loans with paid and remaining amounts, next deduction and last repayment month
+bot.onText(/\/loans/, async (msg: TelegramMessage) => {
+    const chatId = msg.chat.id;
+    console.log(`🔔 RECEIVED /loans command from chat ${chatId}`);
+
+    const context = await ensureEmployeeByChat(chatId);
+    if (!context) {
+        await sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
+        return;
+    }
+
+    try {
+        const employee = await getEmployeeById(context.employeeId, context.projectName);
+        if (!employee) {
+            await sendMessage(chatId, '❌ Employee record not found.');
+            return;
+        }
+        const loans = await getLoanStatuses(employee, context.projectName);
+        await sendMessage(chatId, buildLoansMessage(loans, employee.currency));
+    } catch (error) {
+        console.error('Error loading loans:', error);
+        await sendMessage(chatId, '❌ Could not load your loans. Please try again later.');
+    }
+});
+
 console.log('🤖 Bot initialized successfully');
-console.log('🔧 Bot token is valid and working');
-console.log('🚀 Starting polling with node-telegram-bot-api...');
-console.log('✅ Polling started successfully');
-console.log('📡 Bot is now listening for messages...');
+console.log(`📡 Transport mode: ${transportMode} (updates are delivered once the server starts)`);
+
+// Why a punch was recorded, for punches the employee did not make themselves
+const PUNCH_ORIGIN_LABELS: Partial<Record<WorkedHoursOrigin, string>> = {
+    'auto-location': 'automatic: failed location checks',
+    'auto-shift-end': 'automatic: end of shift',
+    'auto-month-split': 'month boundary'
+};
+
+function buildStatusMessage(
+    status: ClockStatus,
+    monitoring: Awaited<ReturnType<typeof locationMonitoringService.getMonitoringStatus>>
+): string {
+    const tz = status.employee.timezone || undefined;
+    const lines: string[] = ['📊 <b>Your attendance status</b>', ''];
+
+    // Clock-in state
+    let openSessionHours = 0;
+    if (status.openClockIn) {
+        openSessionHours = Math.max(0, dayjs.utc().diff(dayjs.utc(status.openClockIn), 'hours', true));
+        lines.push(`🟢 Clocked in since <b>${formatHour(status.openClockIn, tz)}</b> (${formatDuration(openSessionHours)} ago)`);
+    } else {
+        lines.push('⚪ Not clocked in');
+    }
+
+    // Shift hours
+    if (status.rulesError) {
+        lines.push(`🗓️ Shift: ${status.rulesError}`);
+    } else if (status.shiftWindows.length === 0) {
+        lines.push('🗓️ No shift scheduled today');
+    } else {
+        const windows = status.shiftWindows.map(window => `${formatHour(window.start, tz)} – ${formatHour(window.end, tz)}`).join(', ');
+        lines.push(`🗓️ Shift: ${windows} (${formatDuration(status.dailyWorkingHour)})`);
+    }
+
+    // Today's punches
+    const punches = status.today?.workedHours ?? [];
+    lines.push('', "🕘 <b>Today's punches</b>");
+    if (punches.length === 0) {
+        lines.push('• None yet');
+    } else {
+        for (const punch of punches) {
+            const label = punch.origin ? PUNCH_ORIGIN_LABELS[punch.origin] : undefined;
+            lines.push(`• ${punch.type} ${formatHour(punch.timestamp, tz)}${label ? ` (${label})` : ''}`);
+        }
+    }
+    if (status.today?.late) {
+        lines.push(`🕒 Arrived ${status.today.lateMinutes ?? 0} min after shift start`);
+    }
+
+    const workedHours = (status.today?.dailyWorkedHours ?? 0) + openSessionHours;
+    lines.push('', `⏱️ Worked today: ${formatDuration(workedHours)}${status.openClockIn ? ' (including the open session)' : ''}`);
+
+    // Location as the server sees it
+    if (!status.location) {
+        lines.push('📍 Location: not required (no working area assigned)');
+    } else {
+        lines.push(`📍 Location: ${describeLocationValidation(status.location)}`);
+        if (monitoring.enabled && status.openClockIn) {
+            const { settings, streak } = monitoring;
+            if (monitoring.errandUntil) {
+                lines.push(`🧾 On an approved errand until ${formatHour(monitoring.errandUntil, tz)}; location checks are paused`);
+            } else if (streak && streak.count > 0) {
+                lines.push(`⚠️ Failed location checks: ${streak.count} of ${settings.violationThreshold}. You are clocked out automatically when the limit is reached.`);
+            } else {
+                lines.push(`✅ Location checks passing (checked every ${settings.checkIntervalMinutes} min)`);
+            }
+        }
+    }
+
+    return lines.join('\n');
+}
 
 // Keyboard markup for phone number request
 export function createContactKeyboard(): ReplyKeyboardMarkup {
@@ -273,12 +763,20 @@ function normalizeName(name: string | null | undefined): string {
 
 function buildAuthAppMessage(name?: string): string {
     const greeting = name && name.trim() ? `👋 Welcome back ${name}!\n\n` : '';
-    return `${greeting}⬇️ Click below to open your oneHR dashboard:\n\n💡 Use /app if this doesn't work\n\n ⚠️ This link expires after 1 hour!`;
+    return `${greeting}⬇️ Click below to open your oneHR dashboard:\n\n💡 Use /app if this doesn't work\n\n ⚠️ This link expires after ${formatLinkTtl()} and can only be used once!`;
 }
 
 function buildBasicAppMessage(name?: string): string {
     const greeting = name && name.trim() ? `👋 Welcome back ${name}!\n\n` : '';
-    return `${greeting}⬇️ Click below to open your oneHR dashboard:\n\n💡 Use /app command to get a new authenticated link\n\n ⚠️ This link expires after 1 hour!`;
+    return `${greeting}⬇️ Click below to open your oneHR dashboard:\n\n💡 Use /app command to get a new authenticated link`;
+}
+
+function formatLinkTtl(): string {
+    if (APP_LINK_TTL_MINUTES % 60 === 0) {
+        const hours = APP_LINK_TTL_MINUTES / 60;
+        return hours === 1 ? '1 hour' : `${hours} hours`;
+    }
+    return `${APP_LINK_TTL_MINUTES} minutes`;
 }
 
 // Send contact request message
@@ -297,18 +795,19 @@ export async function sendAppLink(
     phoneNumber: string,
     projectName: string,
     employeeUid: string,
+    employeeId: string,
     employeeName?: string
 ): Promise<TelegramBot.Message> {
     try {
-        // Generate authentication token for the employee
-        const authData = await generateEmployeeAuthToken(employeeUid, projectName, phoneNumber);
+        // Issue a single-use link; the mini app exchanges it for a custom token server-side
+        const linkId = await createAppLink(chatId, projectName, employeeId, employeeUid, phoneNumber);
 
         // Generate app URL with authentication parameters
         const appUrl = generateAppUrl(
             phoneNumber,
             projectName,  // Use environment prefix instead of project ID
             employeeUid,
-            authData.customToken
+            linkId
         );
 
         // Send success message with keyboard removal
@@ -370,18 +869,24 @@ export async function sendAppLink(
     }
 }
 
-// Phone number lookup across all Firebase projects
-async function findEmployeeByPhoneNumber(phoneNumber: string): Promise<{ employee: { id: string; uid: string;[key: string]: unknown }; projectName: string } | null> {
+interface EmployeeMatch {
+    employee: { id: string; uid: string;[key: string]: unknown };
+    projectName: string;
+}
+
+// Phone number lookup across all Firebase projects; one employee may work for several tenants
+async function findEmployeesByPhoneNumber(phoneNumber: string): Promise<EmployeeMatch[]> {
     // Check cache first
     const cached = employeeCache.get(phoneNumber);
     if (cached) {
-        console.log(`Cache hit for phone ${phoneNumber} in project ${cached.projectName}`);
-        return { employee: cached.data as { id: string; uid: string;[key: string]: unknown }, projectName: cached.projectName };
+        console.log(`Cache hit for phone ${phoneNumber} in projects ${cached.map(match => match.projectName).join(', ')}`);
+        return cached.map(match => ({ employee: match.data, projectName: match.projectName }));
     }
 
     const healthyDbs = await getHealthyDbInstances();
     console.log(`Searching for phone ${phoneNumber} across ${Object.keys(healthyDbs).length} Firebase projects`);
 
+    const matches: EmployeeMatch[] = [];
     for (const [projectName, db] of Object.entries(healthyDbs)) {
         try {
             const employeesRef = db.collection('employee');
@@ -396,12 +901,8 @@ async function findEmployeeByPhoneNumber(phoneNumber: string): Promise<{ employe
                 const doc = query.docs[0];
                 if (doc && doc.exists) {
                     const employee = { id: doc.id, uid: doc.data().uid, ...doc.data() };
-
-                    // Cache the result
-                    employeeCache.set(phoneNumber, employee, projectName);
-
                     console.log(`Found employee ${employee.id} (UID: ${employee.uid}) in project ${projectName}`);
-                    return { employee, projectName };
+                    matches.push({ employee, projectName });
                 }
             }
         } catch (error) {
@@ -410,8 +911,20 @@ async function findEmployeeByPhoneNumber(phoneNumber: string): Promise<{ employe
         }
     }
 
-    console.log(`Employee with phone ${phoneNumber} not found in any project`);
-    return null;
+    if (matches.length === 0) {
+        console.log(`Employee with phone ${phoneNumber} not found in any project`);
+        return matches;
+    }
+
+    // Cache the result
+    employeeCache.set(phoneNumber, matches.map(match => ({ data: match.employee, projectName: match.projectName })));
+    return matches;
+}
+
+// First match only, for flows that just need to know whether the phone is registered
+async function findEmployeeByPhoneNumber(phoneNumber: string): Promise<EmployeeMatch | null> {
+    const matches = await findEmployeesByPhoneNumber(phoneNumber);
+    return matches[0] ?? null;
 }
 
 // Update employee's telegramChatID
@@ -443,7 +956,7 @@ function generateAppUrl(
     phoneNumber: string,
     projectName?: string,
     employeeUid?: string,
-    customToken?: string
+    linkId?: string
 ): string {
     const baseUrl = process.env.WEB_APP_URL || 'https://your-default-app-url.com';
     const encodedPhone = encodeURIComponent(phoneNumber);
@@ -459,8 +972,8 @@ function generateAppUrl(
     if (employeeUid) {
         url += `&uid=${encodeURIComponent(employeeUid)}`;
     }
-    if (customToken) {
-        url += `&token=${encodeURIComponent(customToken)}`;
+    if (linkId) {
+        url += `&link=${encodeURIComponent(linkId)}`;
     }
 
     return url;
@@ -468,10 +981,7 @@ function generateAppUrl(
 
 // Handle contact sharing
 async function handleContactShare(chatId: number, contact: Contact): Promise<void> {
-    const phoneNumber = contact.phone_number;
-    // Normalize phone number: remove spaces and special characters, ensure + prefix
-    const cleanPhone = phoneNumber.replace(/[\s\-()]/g, '');
-    const normalizedPhone = cleanPhone.startsWith('+') ? cleanPhone : '+' + cleanPhone;
+    const normalizedPhone = normalizePhoneNumber(contact.phone_number);
 
     console.log(`Processing contact share for chat ${chatId}, phone: ${normalizedPhone}`);
 
@@ -479,32 +989,13 @@ async function handleContactShare(chatId: number, contact: Contact): Promise<voi
         // Send initial verification message
         await sendMessage(chatId, '⏳ Please wait while we verify your phone number...');
         // Search for employee across all Firebase projects
-        const result = await findEmployeeByPhoneNumber(normalizedPhone);
+        const matches = await findEmployeesByPhoneNumber(normalizedPhone);
 
-        if (result) {
-            const { employee, projectName } = result;
-
-            // Update employee's telegramChatID
-            const updateSuccess = await updateEmployeeTelegramChatID(employee.id, chatId, projectName);
-
-            if (updateSuccess) {
-                const fullName = normalizeName(getFullName(employee as unknown as EmployeeModel));
-                // Store session data for future /app command usage
-                chatSessions.set(chatId, {
-                    phoneNumber: normalizedPhone,
-                    projectName,
-                    employeeUid: employee.uid,
-                    employeeId: employee.id,
-                    employeeName: fullName
-                });
-                // Send success message with app link (includes auth token generation)
-                await sendAppLink(chatId, normalizedPhone, projectName, employee.uid, fullName);
-                // Prompt to share live/static location
-                await sendLocationPrompt(chatId);
-                console.log(`Successfully linked employee ${employee.id} to chat ${chatId}`);
-            } else {
-                await sendMessage(chatId, '❌ Failed to link your account. Please try again or contact support.');
-            }
+        if (matches.length === 1 && matches[0]) {
+            await linkEmployeeAccount(chatId, normalizedPhone, matches[0]);
+        } else if (matches.length > 1) {
+            // Employee works for several tenants: let them choose which company to use
+            await sendCompanyChoice(chatId, normalizedPhone, matches, '🏢 Your phone number is registered with several companies.\n\nPlease choose the company you want to use:');
         } else {
             // Employee not found
             await sendMessage(
@@ -523,45 +1014,405 @@ async function handleContactShare(chatId: number, contact: Contact): Promise<voi
     }
 }
 
-// Live location handling utilities
+// Link a verified phone number to the employee record of one project
+async function linkEmployeeAccount(chatId: number, normalizedPhone: string, match: EmployeeMatch): Promise<void> {
+    const { employee, projectName } = match;
 
-interface EmployeeRef {
-    employeeId: string;
-    projectName: string;
-    employeeUid: string;
+    // Update employee's telegramChatID
+    const updateSuccess = await updateEmployeeTelegramChatID(employee.id, chatId, projectName);
+
+    if (updateSuccess) {
+        // A chat belongs to one employee record: unlink it from the company switched away from
+        await unlinkTelegramChatElsewhere(chatId, projectName, employee.id);
+        const fullName = normalizeName(getFullName(employee as unknown as EmployeeModel));
+        // Store session data for future /app command usage
+        await sessionStore.setChatSession(chatId, {
+            phoneNumber: normalizedPhone,
+            projectName,
+            employeeUid: employee.uid,
+            employeeId: employee.id,
+            employeeName: fullName
+        });
+        // Send success message with app link (includes auth token generation)
+        await sendAppLink(chatId, normalizedPhone, projectName, employee.uid, employee.id, fullName);
+        // Prompt to share live/static location
+        await sendLocationPrompt(chatId);
+        console.log(`Successfully linked employee ${employee.id} to chat ${chatId}`);
+    } else {
+        await sendMessage(chatId, '❌ Failed to link your account. Please try again or contact support.');
+    }
 }
 
-// Lookup employee by telegramChatID across projects
-async function findEmployeeByChatId(chatId: number): Promise<{ employee: { id: string; uid: string;[key: string]: unknown }; projectName: string } | null> {
+// Clear telegramChatID on every other employee record linked to the chat, in any project
+async function unlinkTelegramChatElsewhere(chatId: number, projectName: string, employeeId: string): Promise<void> {
     const healthyDbs = await getHealthyDbInstances();
-    for (const [projectName, db] of Object.entries(healthyDbs)) {
+    for (const [candidateProject, db] of Object.entries(healthyDbs)) {
         try {
-            const employeesRef = db.collection('employee');
-            const query = await retryDatabaseOperation(async () => {
-                return await employeesRef
-                    .where('telegramChatID', '==', chatId.toString())
-                    .limit(1)
-                    .get();
-            }, 2, 1000, projectName);
-
-            if (!query.empty) {
-                const doc = query.docs[0];
-                if (doc && doc.exists) {
-                    const employee = { id: doc.id, uid: doc.data().uid, ...doc.data() };
-                    return { employee, projectName };
+            const linked = await retryDatabaseOperation(async () => {
+                return await db.collection('employee').where('telegramChatID', '==', chatId.toString()).get();
+            }, 2, 1000, candidateProject);
+            for (const doc of linked.docs) {
+                if (candidateProject === projectName && doc.id === employeeId) {
+                    continue;
                 }
+                await retryDatabaseOperation(async () => {
+                    return await doc.ref.update({ telegramChatID: null, lastChanged: getUTCTimestamp() });
+                }, 2, 1000, candidateProject);
+                console.log(`Unlinked chat ${chatId} from employee ${doc.id} in ${candidateProject}`);
             }
         } catch (error) {
-            console.error(`Error searching by chatId in ${projectName}:`, error);
+            console.error(`Failed to unlink chat ${chatId} in ${candidateProject}:`, error);
+        }
+    }
+}
+
+// Phone numbers waiting for a company choice (verified before the keyboard is shown), one document per
+// chat in every offered project so any replica can apply the choice
+const COMPANY_CHOICES_COLLECTION = 'telegramCompanyChoices';
+const COMPANY_CHOICE_TTL_MS = 10 * 60 * 1000;
+
+// Show one button per company, labelled with CompanyInfoModel.companyName
+async function sendCompanyChoice(chatId: number, phoneNumber: string, matches: EmployeeMatch[], text: string): Promise<TelegramBot.Message> {
+    const healthyDbs = await getHealthyDbInstances();
+    const expiresAt = Date.now() + COMPANY_CHOICE_TTL_MS;
+    for (const { projectName } of matches) {
+        const db = healthyDbs[projectName];
+        if (!db) {
             continue;
         }
+        await retryDatabaseOperation(async () => {
+            return await db.collection(COMPANY_CHOICES_COLLECTION).doc(String(chatId)).set({ phoneNumber, expiresAt });
+        }, 2, 1000, projectName);
     }
-    return null;
+
+    const names = await Promise.all(matches.map(match => getCompanyName(match.projectName)));
+    return sendMessage(chatId, text, {
+        inline_keyboard: matches.map((match, index) => [
+            { text: names[index] ?? match.projectName, callback_data: `company:${match.projectName}` }
+        ])
+    });
+}
+
+// Consume the pending choice stored in the picked project; a double tap applies it only once
+async function takeCompanyChoice(chatId: number, projectName: string): Promise<string | null> {
+    const db = (await getHealthyDbInstances())[projectName];
+    if (!db) {
+        return null;
+    }
+    const ref = db.collection(COMPANY_CHOICES_COLLECTION).doc(String(chatId));
+    return await retryDatabaseOperation(async () => {
+        return await db.runTransaction(async (tx) => {
+            const snap = await tx.get(ref);
+            const pending = snap.data() as { phoneNumber: string; expiresAt: number } | undefined;
+            if (!pending) {
+                return null;
+            }
+            tx.delete(ref);
+            return pending.expiresAt > Date.now() ? pending.phoneNumber : null;
+        });
+    }, 2, 1000, projectName);
+}
+
+// Apply the company picked from the inline keyboard
+async function handleCompanyChoice(chatId: number, projectName: string): Promise<void> {
+    const phoneNumber = await takeCompanyChoice(chatId, projectName);
+    if (!phoneNumber) {
+        await sendMessage(chatId, '⌛ This selection has expired. Please use /switch, or /start and share your phone number again.');
+        return;
+    }
+
+    const matches = await findEmployeesByPhoneNumber(phoneNumber);
+    const match = matches.find(m => m.projectName === projectName);
+    if (!match) {
+        await sendMessage(chatId, '❌ This company is not available for your phone number.');
+        return;
+    }
+
+    await sendMessage(chatId, `🏢 Using <b>${await getCompanyName(projectName)}</b>.`);
+    await linkEmployeeAccount(chatId, phoneNumber, match);
+}
+
+// Normalize phone number: remove spaces and special characters, ensure + prefix
+function normalizePhoneNumber(phoneNumber: string): string {
+    const cleanPhone = phoneNumber.replace(/[\s\-()]/g, '');
+    return cleanPhone.startsWith('+') ? cleanPhone : '+' + cleanPhone;
+}
+
+function buildLinkAuditEntry(
+    msg: TelegramMessage,
+    source: LinkAuditEntry['source'],
+    reason: LinkAuditEntry['reason'],
+    phoneNumber: string | null,
+    employeeId: string | null
+): LinkAuditEntry {
+    return {
+        chatId: msg.chat.id,
+        telegramUserId: msg.from?.id ?? null,
+        telegramUsername: msg.from?.username ?? null,
+        phoneNumber,
+        employeeId,
+        source,
+        reason
+    };
+}
+
+// Reject a contact card that belongs to someone other than the sender (e.g. a forwarded colleague)
+async function rejectForeignContact(msg: TelegramMessage, contact: Contact): Promise<void> {
+    const chatId = msg.chat.id;
+    const normalizedPhone = normalizePhoneNumber(contact.phone_number);
+
+    try {
+        const result = await findEmployeeByPhoneNumber(normalizedPhone);
+        await recordLinkAudit(
+            result?.projectName ?? null,
+            buildLinkAuditEntry(msg, 'contact', 'contact_not_owned', normalizedPhone, result?.employee.id ?? null)
+        );
+    } catch (error) {
+        console.error('Error auditing foreign contact:', error);
+    }
+
+    await sendMessage(
+        chatId,
+        '🚫 For your security, you can only link your own phone number.\n\nPlease tap the button below to share the contact of this Telegram account.',
+        createContactKeyboard()
+    );
+}
+
+// Typed phone numbers are not proof of ownership: send a one-time code to the employee first
+async function handlePhoneVerificationRequest(msg: TelegramMessage, normalizedPhone: string): Promise<void> {
+    const chatId = msg.chat.id;
+    console.log(`Processing typed phone number for chat ${chatId}, phone: ${normalizedPhone}`);
+
+    try {
+        // Every typed number counts, so numbers cannot be probed or codes re-sent without limit
+        const allowance = await reserveVerificationRequest(chatId, normalizedPhone);
+        if (!allowance.allowed) {
+            await recordLinkAudit(null, buildLinkAuditEntry(msg, 'typed_phone', 'rate_limited', normalizedPhone, null));
+            const minutes = Math.max(1, Math.ceil(dayjs.utc(allowance.retryAt).diff(dayjs.utc(), 'minute', true)));
+            await sendMessage(
+                chatId,
+                `🚫 Too many verification attempts. Please try again in ${minutes} minute(s), or share your contact using the button below.`,
+                createContactKeyboard()
+            );
+            return;
+        }
+
+        await sendMessage(chatId, '⏳ Please wait while we verify your phone number...');
+        const result = await findEmployeeByPhoneNumber(normalizedPhone);
+
+        if (!result) {
+            await recordLinkAudit(null, buildLinkAuditEntry(msg, 'typed_phone', 'employee_not_found', normalizedPhone, null));
+            await sendMessage(
+                chatId,
+                '❌ Employee account not found.\n\nPlease ensure you are sharing the same phone number registered in the HR system, or contact your HR administrator for assistance.',
+                { remove_keyboard: true }
+            );
+            return;
+        }
+
+        const { employee, projectName } = result;
+        const started = await startPhoneVerification(chatId, projectName, {
+            employeeId: employee.id,
+            phoneNumber: normalizedPhone,
+            personalEmail: (employee.personalEmail as string | undefined) ?? null,
+            companyPhoneNumber: (employee.companyPhoneNumber as string | undefined) ?? null
+        });
+
+        if (!started.success) {
+            await recordLinkAudit(projectName, buildLinkAuditEntry(msg, 'typed_phone', 'no_delivery_channel', normalizedPhone, employee.id));
+            await sendMessage(
+                chatId,
+                '❌ We could not send you a verification code because no email or company phone is registered.\n\nPlease share your contact using the button below instead.',
+                createContactKeyboard()
+            );
+            return;
+        }
+
+        const channelText = started.channel === 'email' ? 'email' : 'company phone';
+        await sendMessage(
+            chatId,
+            `📨 We sent a 6-digit verification code to your ${channelText} (${started.destination}).\n\nReply here with the code to link your account.`,
+            { remove_keyboard: true }
+        );
+    } catch (error) {
+        console.error('Error starting phone verification:', error);
+        await sendMessage(
+            chatId,
+            '❌ An error occurred while processing your request. Please try again later.',
+            { remove_keyboard: true }
+        );
+    }
+}
+
+// Link the account once the one-time code matches
+async function handleVerificationCode(msg: TelegramMessage, code: string): Promise<void> {
+    const chatId = msg.chat.id;
+
+    try {
+        const result = await verifyPhoneCode(chatId, code);
+
+        switch (result.status) {
+            case 'none':
+                // No pending verification for this chat; not a code
+                return;
+            case 'verified':
+                await handleContactShare(chatId, {
+                    phone_number: result.phoneNumber,
+                    first_name: msg.from?.first_name || 'User'
+                });
+                return;
+            case 'invalid':
+                await recordLinkAudit(result.projectName, buildLinkAuditEntry(msg, 'code', 'code_invalid', result.phoneNumber, result.employeeId));
+                await sendMessage(chatId, `❌ Incorrect code. You have ${result.attemptsLeft} attempt(s) left.`);
+                return;
+            case 'expired':
+                await recordLinkAudit(result.projectName, buildLinkAuditEntry(msg, 'code', 'code_expired', result.phoneNumber, result.employeeId));
+                await sendMessage(chatId, '⌛ This code has expired. Send your phone number again to receive a new one.');
+                return;
+            case 'locked':
+                await recordLinkAudit(result.projectName, buildLinkAuditEntry(msg, 'code', 'code_attempts_exceeded', result.phoneNumber, result.employeeId));
+                await sendMessage(chatId, '🚫 Too many incorrect attempts. Send your phone number again to receive a new code.');
+                return;
+        }
+    } catch (error) {
+        console.error('Error verifying code:', error);
+        await sendMessage(chatId, '❌ An error occurred while verifying your code. Please try again later.');
+    }
+}
+
+// Employee answered a location warning with "I'm on an approved errand"
+async function handleErrandClaim(chatId: number): Promise<void> {
+    const context = await ensureEmployeeByChat(chatId);
+    if (!context) {
+        await sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
+        return;
+    }
+
+    const result = await locationMonitoringService.requestErrandApproval(context.projectName, context.employeeUid);
+    switch (result.status) {
+        case 'no_violation':
+            await sendMessage(chatId, '✅ Your location is valid again, no action is needed.');
+            return;
+        case 'no_manager':
+            await sendMessage(chatId, '❌ Your manager could not be reached on Telegram to approve the errand. Please share your live location or contact your manager.');
+            return;
+        case 'pending':
+            await sendMessage(chatId, '⏳ Your manager has already been asked to approve your errand.');
+            return;
+        case 'limit_reached':
+            await sendMessage(chatId, `🚫 You have already claimed ${result.maxClaims} errand(s) during this shift. Please return to your working area or contact your manager.`);
+            return;
+        case 'requested':
+            await sendMessage(
+                chatId,
+                '🧾 Your manager has been asked to approve the errand. Auto clock-out is paused once they approve.\n\nPlease share your live location again when you are back.'
+            );
+            return;
+    }
+}
+
+// Manager approved or refused an errand claim (errand:approve|refuse:<employeeUid>)
+async function handleErrandDecision(chatId: number, data: string): Promise<void> {
+    const context = await ensureEmployeeByChat(chatId);
+    if (!context) {
+        await sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
+        return;
+    }
+
+    const [, action, employeeUid] = data.split(':');
+    if ((action !== 'approve' && action !== 'refuse') || !employeeUid) {
+        return;
+    }
+
+    const result = await locationMonitoringService.decideErrand(context.projectName, context.employeeUid, employeeUid, action === 'approve');
+    switch (result.status) {
+        case 'not_authorized':
+            await sendMessage(chatId, '❌ Only the employee\'s manager can answer this errand request.');
+            return;
+        case 'not_pending':
+            await sendMessage(chatId, 'ℹ️ This errand request has already been answered or has ended.');
+            return;
+        case 'approved':
+            await sendMessage(chatId, `✅ Errand approved. Auto clock-out for ${escapeHtml(result.employeeName)} is paused until ${formatHour(result.errandUntil, result.timezone || undefined)}.`);
+            return;
+        case 'refused':
+            await sendMessage(chatId, `❌ Errand refused for ${escapeHtml(result.employeeName)}.`);
+            return;
+    }
+}
+
+// Live location handling utilities
+
+// Route free text to the conversation the chat is in
+async function handleConversationText(chatId: number, flow: string, text: string): Promise<void> {
+    try {
+        switch (flow) {
+            case 'correct':
+                await handleCorrectionText(chatId, text);
+                break;
+            case 'inbox':
+                await handleInboxText(chatId, text);
+                break;
+            case 'leave':
+                await handleLeaveText(chatId, text);
+                break;
+            case 'overtime':
+                await handleOvertimeText(chatId, text);
+                break;
+        }
+    } catch (error) {
+        console.error('Error handling conversation message:', error);
+        await sendMessage(chatId, '❌ An error occurred while processing your request. Please try again later.');
+    }
+}
+
+// Submit a draft timesheet from the month-end summary or the /timesheet document
+async function handleTimesheetSubmit(chatId: number, attendanceId: string): Promise<void> {
+    const context = await ensureEmployeeByChat(chatId);
+    if (!context) {
+        await sendMessage(chatId, '❌ No active session found. Please use /start and share your phone number first.');
+        return;
+    }
+
+    const result = await submitTimesheet(attendanceId, context.employeeUid, context.projectName);
+    if (!result.success) {
+        await sendMessage(chatId, result.error === 'not_draft'
+            ? 'ℹ️ This timesheet has already been submitted.'
+            : '❌ Timesheet not found.');
+        return;
+    }
+
+    const { attendance } = result;
+    await sendMessage(chatId, `✅ Your ${attendance.month} ${attendance.year} timesheet has been submitted for validation.`);
+
+    const employee = await getEmployeeById(context.employeeId, context.projectName);
+    const manager = employee?.reportingLineManager ? await getEmployeeByUid(employee.reportingLineManager, context.projectName) : null;
+    if (employee && manager?.telegramChatID) {
+        await sendMessage(
+            parseInt(manager.telegramChatID),
+            `🗓️ ${escapeHtml(getFullName(employee))} submitted the ${attendance.month} ${attendance.year} timesheet for validation.`
+        );
+    }
+}
+
+interface EmployeeRef {
+    employeeId: string;
+    projectName: string;
+    employeeUid: string;
+}
+
+/**
+ * Linked employee context of a chat, in the company the user selected
+ * @param chatId - Telegram chat ID (equal to the user ID in private chats)
+ * @returns Promise<ChatSession | undefined> - Undefined when the chat has no session
+ */
+export async function getChatSession(chatId: number): Promise<ChatSession | undefined> {
+    return await sessionStore.getChatSession(chatId);
 }
 
 // Ensure we have employee context for a given chat
 async function ensureEmployeeByChat(chatId: number): Promise<EmployeeRef | null> {
-    const session = chatSessions.get(chatId);
+    const session = await sessionStore.getChatSession(chatId);
     if (session) {
         return { employeeId: session.employeeId, projectName: session.projectName, employeeUid: session.employeeUid };
     }
@@ -588,7 +1439,7 @@ async function saveEmployeeLocation(projectName: string, employeeId: string, cha
         // Initial live location share with a known duration
         isLive = true;
         liveUntilMs = Date.now() + (livePeriodSeconds * 1000);
-        liveSessions.set(key, {
+        await sessionStore.setLiveEntry(key, {
             chatId,
             messageId,
             employeeId,
@@ -598,18 +1449,17 @@ async function saveEmployeeLocation(projectName: string, employeeId: string, cha
         });
     } else {
         // Subsequent live updates may not include live_period, rely on tracker
-        const existing = liveSessions.get(key);
+        const existing = await sessionStore.getLiveEntry(key, projectName);
         if (existing) {
             isLive = true;
             liveUntilMs = existing.liveUntilMs;
-            existing.lastUpdateMs = Date.now();
-            liveSessions.set(key, existing);
+            await sessionStore.setLiveEntry(key, { ...existing, lastUpdateMs: Date.now() });
         } else if (isEdit) {
             // If we receive an edited_message with location but no tracker yet,
             // treat it as a live session with unknown duration (until user stops)
             isLive = true;
             liveUntilMs = null;
-            liveSessions.set(key, {
+            await sessionStore.setLiveEntry(key, {
                 chatId,
                 messageId,
                 employeeId,
@@ -0,0 +1,51 @@
+// Telegram transport configuration
+// Decides whether updates reach the bot through long polling or through the /webhook route
+
+export type TelegramTransportMode = 'polling' | 'webhook';
+
+export interface TelegramWebhookConfig {
+    url: string;
+    secret: string;
+    deleteOnShutdown: boolean;
+}
+
+/**
+ * Get the configured transport mode
+ * @returns TelegramTransportMode - 'webhook' when TELEGRAM_TRANSPORT_MODE=webhook, otherwise 'polling'
+ */
+export function getTransportMode(): TelegramTransportMode {
+    const mode = (process.env.TELEGRAM_TRANSPORT_MODE || 'polling').trim().toLowerCase();
+    return mode === 'webhook' ? 'webhook' : 'polling';
+}
+
+/**
+ * Check if the bot runs in webhook mode
+ * @returns boolean - True if updates are delivered through the webhook route
+ */
+export function isWebhookMode(): boolean {
+    return getTransportMode() === 'webhook';
+}
+
+/**
+ * Get webhook registration settings
+ * @returns TelegramWebhookConfig - Public webhook URL, secret token and shutdown behaviour
+ */
+export function getWebhookConfig(): TelegramWebhookConfig {
+    const url = process.env.TELEGRAM_WEBHOOK_URL;
+    const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+
+    if (!url) {
+        throw new Error('TELEGRAM_WEBHOOK_URL environment variable is required in webhook mode');
+    }
+    if (!secret) {
+        throw new Error('TELEGRAM_WEBHOOK_SECRET environment variable is required in webhook mode');
+    }
+
+    return {
+        url,
+        secret,
+        // Opt-in: with several replicas behind a load balancer, one replica stopping (e.g. a rolling deploy)
+        // must not unregister the webhook the others still serve
+        deleteOnShutdown: process.env.TELEGRAM_WEBHOOK_DELETE_ON_SHUTDOWN === 'true'
+    };
+}
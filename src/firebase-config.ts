@@ -97,28 +97,55 @@ export async function getHealthyDbInstances(): Promise<Record<string, firestore.
     return healthyInstances;
 }
 
+// Get the database for a single project, failing when it is not healthy
+export async function getProjectDb(projectName: string): Promise<firestore.Firestore> {
+    if (!projectName) {
+        throw new Error('Project not found');
+    }
+    const db = (await getHealthyDbInstances())[projectName];
+    if (!db) {
+        throw new Error(`Database for project ${projectName} is not healthy`);
+    }
+    return db;
+}
+
+// Storage bucket of a project, for files uploaded through the bot (e.g. leave attachments)
+// Defaults to the project's default bucket; FIREBASE_STORAGE_BUCKET_<PREFIX> overrides it
+export function getProjectBucket(projectName: string) {
+    const config = firebaseConfigs[projectName];
+    if (!config) {
+        throw new Error('Project not found');
+    }
+    const bucketName = process.env[`FIREBASE_STORAGE_BUCKET_${projectName.toUpperCase()}`] || `${config.projectId}.appspot.com`;
+    return admin.app(`app-${projectName}`).storage().bucket(bucketName);
+}
+
 // Using generic object type for Firebase document data
 
 // Simple in-memory cache for employee lookups
+// A phone number can belong to employees in several projects, so every match is cached
+export interface CachedEmployeeMatch {
+    data: { id: string; uid: string; [key: string]: unknown };
+    projectName: string;
+}
+
 interface CacheEntry {
-    data: { id: string;[key: string]: unknown };
+    matches: CachedEmployeeMatch[];
     timestamp: number;
-    projectName: string;
 }
 
 class EmployeeCache {
     private cache = new Map<string, CacheEntry>();
     private readonly TTL = 5 * 60 * 1000; // 5 minutes TTL
 
-    set(phoneNumber: string, data: { id: string; uid: string; [key: string]: unknown }, projectName: string): void {
+    set(phoneNumber: string, matches: CachedEmployeeMatch[]): void {
         this.cache.set(phoneNumber, {
-            data,
-            timestamp: Date.now(),
-            projectName
+            matches,
+            timestamp: Date.now()
         });
     }
 
-    get(phoneNumber: string): { data: { id: string; uid: string; [key: string]: unknown }; projectName: string } | null {
+    get(phoneNumber: string): CachedEmployeeMatch[] | null {
         const entry = this.cache.get(phoneNumber);
         if (!entry) return null;
 
@@ -128,7 +155,7 @@ class EmployeeCache {
             return null;
         }
 
-        return { data: entry.data as { id: string; uid: string; [key: string]: unknown }, projectName: entry.projectName };
+        return entry.matches;
     }
 
     clear(): void {
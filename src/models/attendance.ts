@@ -34,6 +34,8 @@ export interface DailyAttendance {
     status: "Submitted" | "Verified" | "Refused" | "N/A";
     dailyWorkedHours: number;
     workedHours: WorkedHoursModel[];
+    late?: boolean; // first clock-in of the day came after shift start + flexibility minutes
+    lateMinutes?: number;
 }
 
 export interface AttendanceCommentModel {
@@ -60,11 +62,20 @@ export interface RequestModificationModel {
     reviewedBy:string|null;
     reviewedDate:string|null;
     hrComments:string|null;
+    // Manager's endorsement from the bot inbox; HR still sets the final status
+    managerDecision?: "Approved" | "Refused" | null;
+    managerComment?: string | null;
+    managerReviewedBy?: string | null;
+    managerReviewedDate?: string | null;
 }
 
+// "auto-month-split" marks the midnight punches added when a shift crosses into the next month's sheet
+export type WorkedHoursOrigin = "manual" | "auto-location" | "auto-shift-end" | "auto-month-split";
+
 export interface WorkedHoursModel {
     id: string;
     timestamp: string;
     type: "Clock In" | "Clock Out";
     hour: string;
+    origin?: WorkedHoursOrigin; // missing on punches recorded before origins were tracked
 }
\ No newline at end of file
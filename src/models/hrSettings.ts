@@ -46,6 +46,7 @@ export interface HrSettingsByType {
     taxes: TaxModel[];
     currencies: CurrencyModel[];
     pension: PensionModel[];
+    locationMonitoring: LocationMonitoringSettingsModel[];
 }
 
 export interface TMCategory {
@@ -121,6 +122,8 @@ export interface PensionModel {
     employerPension: number;
     employeePensionType: 'Percentage' | 'Fixed Amount';
     employeePension: number;
+    createdAt?: string;
+    updatedAt?: string;
 }
 export interface DepartmentSettingsModel {
     id: string;
@@ -133,6 +136,19 @@ export interface DepartmentSettingsModel {
     updatedAt: string;
 }
 
+export interface LocationMonitoringSettingsModel {
+    id: string;
+    autoClockOutMode: "off" | "shadow" | "enforce";
+    notificationsEnabled: boolean;
+    checkIntervalMinutes: number;
+    maxLocationAgeMinutes: number;
+    violationThreshold: number;
+    errandGraceMinutes: number;
+    maxErrandClaimsPerShift: number;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
 export interface AccrualConfigurationModel {
     id: string;
     limitUnusedDays: number;
@@ -480,6 +496,7 @@ export interface HrSettingsMap {
     taxes: TaxModel;
     currencies: CurrencyModel;
     pension: PensionModel;
+    locationMonitoring: LocationMonitoringSettingsModel;
 }
 
 export type HrSettingsType = keyof HrSettingsMap;
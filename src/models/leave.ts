@@ -19,6 +19,9 @@ export interface LeaveModel {
     requestedBy: string | null;
     rollbackStatus: "Requested" | "Accepted" | "Refused" | "N/A";
     reason: string | null;
+    // Set when the reporting line manager decides from the bot
+    reviewedBy?: string | null;
+    reviewedDate?: string | null;
 };
 
 export interface LeaveCommentModel {
@@ -24,6 +24,9 @@ export interface ObjectiveModel {
     selfEvaluation: SelfEvaluationModel | null
     managerEvaluation: ManagerEvaluationModel | null
     actionItems: { timestamp: string; id: string; actionItem: string; employee: boolean; manager: boolean }[]
+    // Set when the manager approves or refuses an employee-created objective
+    reviewedBy?: string | null
+    reviewedDate?: string | null
 }
 
 export interface ObjectiveModelWithWeight extends ObjectiveModel {
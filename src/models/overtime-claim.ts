@@ -0,0 +1,23 @@
+// Overtime detected from attendance by the nightly job, claimed by the employee and confirmed by the manager
+export interface OvertimeClaimModel {
+    id: string; // `${uid}_${YYYY-MM-DD}`, one claim per employee and day
+    timestamp: string;
+    uid: string;
+    attendanceID: string; // AttendanceModel id (doc ID) the hours were read from
+    date: string; // dateFormat
+    reason: "extended-shift" | "holiday" | "non-working-day";
+    workedHours: number;
+    expectedHours: number;
+    overtimeHours: number;
+    overtimeStartTime: string; // hh:mm A, employee's local time
+    overtimeEndTime: string; // hh:mm A, employee's local time
+    overtimeType: string; // OvertimeConfigurationModel id
+    overtimeRate: number;
+    // overtimeHours × overtimeRate × hourlyWage, null when the employee has no hourly wage
+    amount: number | null;
+    status: "Proposed" | "Claimed" | "Dismissed" | "Confirmed" | "Refused";
+    claimedAt: string | null;
+    reviewedBy: string | null;
+    reviewedDate: string | null;
+    overtimeRequestID: string | null; // OvertimeRequestModel id created once the manager confirms
+}
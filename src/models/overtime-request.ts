@@ -15,4 +15,10 @@ export interface OvertimeRequestModel {
     reviewedDate: string | null;
     reviewedBy: string | null;
     hrComments: string | null;
+    acknowledgedBy?: string[]; // employee uids who acknowledged the request from the bot
+    // Manager's endorsement from the bot inbox; HR still sets the final status
+    managerDecision?: "Approved" | "Refused" | null;
+    managerComment?: string | null;
+    managerReviewedBy?: string | null;
+    managerReviewedDate?: string | null;
 }
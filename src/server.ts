@@ -6,13 +6,59 @@ dotenv.config();
 import bodyParser from "body-parser";
 import express from "express";
 // Import the bot to ensure it's initialized when server starts
-import './bot';
+import { restoreSessions } from './bot';
+import { handleWebhookUpdate, startTransport, stopTransport, validateWebhookSecret } from './webhook';
+import { getTransportMode } from './config/telegram.config';
+import { AppLinkExchangeError, exchangeAppLink } from './services/app-link.service';
+import { authenticateWithInitData, InitDataError } from './services/telegram-init-data.service';
 // Import location monitoring service
 import { locationMonitoringService } from './services/location-monitoring.service';
+import { shiftEndService } from './services/shift-end.service';
+import { attendanceReminderService } from './services/attendance-reminder.service';
+import { timesheetSummaryService } from './services/timesheet-summary.service';
+import { modificationRequestWatcher } from './services/correction.service';
+import { leaveNotificationService } from './services/leave-notification.service';
+import { overtimeDecisionWatcher } from './services/overtime-request.service';
+import { overtimeDetectionService } from './services/overtime-detection.service';
+import { loanReminderService } from './services/loan.service';
 
 const app = express();
 app.use(bodyParser.json());
 
+const transportMode = getTransportMode();
+
+// Allow the mini app origin to call the /api routes from the browser
+const webAppOrigin = process.env.WEB_APP_URL ? new URL(process.env.WEB_APP_URL).origin : null;
+app.use('/api', (req, res, next) => {
+    if (webAppOrigin) {
+        res.setHeader('Access-Control-Allow-Origin', webAppOrigin);
+        res.setHeader('Vary', 'Origin');
+        res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    }
+    if (req.method === 'OPTIONS') {
+        res.sendStatus(204);
+        return;
+    }
+    next();
+});
+
+const appLinkErrorStatus: Record<AppLinkExchangeError, number> = {
+    not_found: 404,
+    expired: 410,
+    used: 409,
+    revoked: 403
+};
+
+const initDataErrorStatus: Record<InitDataError, number> = {
+    missing_init_data: 400,
+    invalid_signature: 401,
+    expired: 401,
+    invalid_auth_date: 401,
+    missing_user: 400,
+    employee_not_found: 404
+};
+
 // Health check endpoint
 app.get('/health', (_req, res) => {
     res.json({
@@ -20,7 +66,7 @@ app.get('/health', (_req, res) => {
         timestamp: new Date().toISOString(),
         bot: {
             token: process.env.TELEGRAM_BOT_TOKEN ? 'Set' : 'Not set',
-            polling: 'Always Enabled (Main Purpose)'
+            transport: transportMode
         },
         firebase: {
             configs: Object.keys(process.env).filter(key => key.includes('FIREBASE')).length
@@ -29,23 +75,154 @@ app.get('/health', (_req, res) => {
     });
 });
 
-// Webhook endpoint for Telegram (if needed)
+// Webhook endpoint for Telegram (webhook transport mode only)
 app.post('/webhook', (req, res) => {
-    console.log('📨 Webhook received:', req.body);
+    if (transportMode !== 'webhook') {
+        res.status(404).send('Webhook mode is disabled');
+        return;
+    }
+
+    if (!validateWebhookSecret(req.get('X-Telegram-Bot-Api-Secret-Token'))) {
+        res.status(401).send('Unauthorized');
+        return;
+    }
+
+    try {
+        handleWebhookUpdate(req.body);
+    } catch (error) {
+        console.error('❌ Failed to process webhook update:', error);
+    }
+    // Always acknowledge so Telegram does not redeliver an update we already dispatched
     res.status(200).send('OK');
 });
 
+// Mini app exchanges a single-use link ID for a Firebase custom token
+app.post('/api/app-link/exchange', async (req, res) => {
+    const linkId = typeof req.body?.linkId === 'string' ? req.body.linkId : '';
+
+    try {
+        const result = await exchangeAppLink(linkId);
+        if (!result.success) {
+            res.status(appLinkErrorStatus[result.error]).json({ error: result.error });
+            return;
+        }
+
+        res.json({
+            customToken: result.authData.customToken,
+            projectId: result.authData.projectId,
+            firebaseConfig: result.authData.firebaseConfig,
+            expiresAt: result.authData.expiresAt,
+            projectName: result.projectName,
+            uid: result.employeeUid
+        });
+    } catch (error) {
+        console.error('❌ Failed to exchange app link:', error);
+        res.status(500).json({ error: 'internal_error' });
+    }
+});
+
+// Mini app opened inside Telegram authenticates with signed WebApp initData
+app.post('/api/telegram/auth', async (req, res) => {
+    const initData = typeof req.body?.initData === 'string' ? req.body.initData : '';
+
+    try {
+        const result = await authenticateWithInitData(initData);
+        if (!result.success) {
+            res.status(initDataErrorStatus[result.error]).json({ error: result.error });
+            return;
+        }
+
+        res.json({
+            customToken: result.authData.customToken,
+            projectId: result.authData.projectId,
+            firebaseConfig: result.authData.firebaseConfig,
+            expiresAt: result.authData.expiresAt,
+            projectName: result.projectName,
+            uid: result.employeeUid
+        });
+    } catch (error) {
+        console.error('❌ Failed to authenticate mini app initData:', error);
+        res.status(500).json({ error: 'internal_error' });
+    }
+});
+
 const port = process.env.PORT || 3000;
-app.listen(port, () => {
+const server = app.listen(port, () => {
     console.log(`🚀 Bot server running on port ${port}`);
     console.log(`🔗 Health check available at: http://localhost:${port}/health`);
     console.log(`🔗 Webhook endpoint available at: http://localhost:${port}/webhook`);
     console.log(`🤖 Environment check - Bot token: ${process.env.TELEGRAM_BOT_TOKEN ? 'Set' : 'Not set'}`);
     console.log(`🔥 Environment check - Firebase configs: ${Object.keys(process.env).filter(key => key.includes('FIREBASE')).length} found`);
     console.log(`🌐 Environment check - Web app URL: ${process.env.WEB_APP_URL ? 'Set' : 'Not set'}`);
-    console.log(`📡 Polling status: Always Enabled (Primary Function)`);
+    console.log(`📡 Transport mode: ${transportMode}`);
+
+    // Rehydrate sessions before updates start flowing so handlers see restored state
+    restoreSessions()
+        .then(() => startTransport())
+        .catch((error) => {
+            console.error(`❌ Failed to start ${transportMode} transport:`, error);
+        });
 
     // Start location monitoring service
     locationMonitoringService.startMonitoring();
     console.log(`📍 Location monitoring service: ${locationMonitoringService.isMonitoring() ? 'Started' : 'Failed to start'}`);
+
+    // Start shift end reminders and auto clock-out
+    shiftEndService.startMonitoring();
+    console.log(`⏰ Shift end monitoring service: ${shiftEndService.isMonitoring() ? 'Started' : 'Failed to start'}`);
+
+    // Start clock-in reminders and manager attendance digests
+    attendanceReminderService.startMonitoring();
+    console.log(`📋 Clock-in reminder service: ${attendanceReminderService.isMonitoring() ? 'Started' : 'Failed to start'}`);
+
+    // Start month-end timesheet summaries
+    timesheetSummaryService.startMonitoring();
+    console.log(`🗓️ Timesheet summary service: ${timesheetSummaryService.isMonitoring() ? 'Started' : 'Failed to start'}`);
+
+    // Announce leave decisions and rollbacks, remind stand-ins and welcome employees back
+    leaveNotificationService.startMonitoring();
+    console.log(`🌴 Leave notification service: ${leaveNotificationService.isMonitoring() ? 'Started' : 'Failed to start'}`);
+
+    // Propose overtime found in the previous day's attendance
+    overtimeDetectionService.startMonitoring();
+    console.log(`⏱️ Overtime detection service: ${overtimeDetectionService.isMonitoring() ? 'Started' : 'Failed to start'}`);
+
+    // Remind HR of loan deductions left unconfirmed after payroll closes (opt-in)
+    loanReminderService.startMonitoring();
+    console.log(`💳 Loan reminder service: ${loanReminderService.isMonitoring() ? 'Started' : 'Disabled'}`);
+
+    // Notify employees about HR decisions on their attendance corrections
+    modificationRequestWatcher.start().catch((error) => {
+        console.error('❌ Failed to start modification request watcher:', error);
+    });
+
+    // Tell managers and employees about HR decisions on overtime requests
+    overtimeDecisionWatcher.start().catch((error) => {
+        console.error('❌ Failed to start overtime decision watcher:', error);
+    });
 });
+
+// Graceful shutdown: stop receiving updates before the process exits
+async function shutdown(signal: string): Promise<void> {
+    console.log(`🛑 Received ${signal}, shutting down...`);
+    locationMonitoringService.stopMonitoring();
+    shiftEndService.stopMonitoring();
+    attendanceReminderService.stopMonitoring();
+    timesheetSummaryService.stopMonitoring();
+    modificationRequestWatcher.stop();
+    leaveNotificationService.stopMonitoring();
+    overtimeDecisionWatcher.stop();
+    overtimeDetectionService.stopMonitoring();
+    loanReminderService.stopMonitoring();
+    try {
+        await stopTransport();
+    } catch (error) {
+        console.error(`❌ Failed to stop ${transportMode} transport:`, error);
+    }
+    server.close(() => process.exit(0));
+    // Do not wait forever on keep-alive connections
+    setTimeout(() => process.exit(0), 10000).unref();
+}
+
+process.once('SIGTERM', () => void shutdown('SIGTERM'));
+process.once('SIGINT', () => void shutdown('SIGINT'));
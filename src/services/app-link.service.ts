@@ -0,0 +1,144 @@
+import { randomBytes } from 'crypto';
+import dayjs from 'dayjs';
+import { getHealthyDbInstances, getProjectDb, retryDatabaseOperation } from '../firebase-config';
+import { getUTCTimestamp } from '../util/dayjs_format';
+import { AuthTokenData, generateEmployeeAuthToken } from './auth-token.service';
+
+// One document per issued link, stored in the employee's project
+const APP_LINKS_COLLECTION = 'appLinks';
+
+export const APP_LINK_TTL_MINUTES = Math.max(1, parseInt(process.env.APP_LINK_TTL_MINUTES || '60', 10) || 60);
+
+export interface AppLinkRecord {
+    employeeId: string;
+    employeeUid: string;
+    phoneNumber: string;
+    projectName: string;
+    chatId: number;
+    createdAt: string;
+    expiresAt: string;
+    used: boolean;
+    usedAt: string | null;
+    revoked: boolean;
+    revokedAt: string | null;
+}
+
+export type AppLinkExchangeError = 'not_found' | 'expired' | 'used' | 'revoked';
+
+export type AppLinkExchangeResult =
+    | { success: true; authData: AuthTokenData; employeeUid: string; projectName: string }
+    | { success: false; error: AppLinkExchangeError };
+
+/**
+ * Issue a short-lived, single-use link ID for the mini app
+ * Previously issued links for the same employee that were never used are revoked.
+ * @param chatId - Telegram chat the link is sent to
+ * @param projectName - Firebase project name of the employee
+ * @param employeeId - Employee document ID
+ * @param employeeUid - Employee's Firebase Auth UID
+ * @param phoneNumber - Employee's phone number
+ * @returns Promise<string> - Opaque link ID to put in the app URL
+ */
+export async function createAppLink(
+    chatId: number,
+    projectName: string,
+    employeeId: string,
+    employeeUid: string,
+    phoneNumber: string
+): Promise<string> {
+    const db = await getProjectDb(projectName);
+    const linkId = randomBytes(24).toString('base64url');
+    const now = dayjs.utc();
+
+    const record: AppLinkRecord = {
+        employeeId,
+        employeeUid,
+        phoneNumber,
+        projectName,
+        chatId,
+        createdAt: now.toISOString(),
+        expiresAt: now.add(APP_LINK_TTL_MINUTES, 'minute').toISOString(),
+        used: false,
+        usedAt: null,
+        revoked: false,
+        revokedAt: null
+    };
+
+    // Only unused, unrevoked links; each new link revokes them, so this reads the previous link at most.
+    // Equality filters only, which Firestore serves without a composite index.
+    const previous = await retryDatabaseOperation(async () => {
+        return await db.collection(APP_LINKS_COLLECTION)
+            .where('employeeId', '==', employeeId)
+            .where('used', '==', false)
+            .where('revoked', '==', false)
+            .get();
+    }, 2, 1000, projectName);
+
+    await retryDatabaseOperation(async () => {
+        const batch = db.batch();
+        // Expired links are revoked too, so they drop out of the next query
+        for (const doc of previous.docs) {
+            batch.update(doc.ref, { revoked: true, revokedAt: now.toISOString() });
+        }
+        batch.set(db.collection(APP_LINKS_COLLECTION).doc(linkId), record);
+        return await batch.commit();
+    }, 2, 1000, projectName);
+
+    console.log(`🔗 Issued app link for employee ${employeeId} in ${projectName} (expires ${record.expiresAt})`);
+    return linkId;
+}
+
+/**
+ * Exchange a link ID for a freshly minted Firebase custom token
+ * The link is marked as used atomically so it cannot be redeemed twice.
+ * @param linkId - Link ID received by the mini app
+ * @returns Promise<AppLinkExchangeResult> - Auth data, or the reason the link was rejected
+ */
+export async function exchangeAppLink(linkId: string): Promise<AppLinkExchangeResult> {
+    if (!linkId || !/^[A-Za-z0-9_-]{16,64}$/.test(linkId)) {
+        return { success: false, error: 'not_found' };
+    }
+
+    const healthyDbs = await getHealthyDbInstances();
+
+    for (const [projectName, db] of Object.entries(healthyDbs)) {
+        const ref = db.collection(APP_LINKS_COLLECTION).doc(linkId);
+
+        const outcome = await retryDatabaseOperation(async () => {
+            return await db.runTransaction(async (tx) => {
+                const snap = await tx.get(ref);
+                if (!snap.exists) {
+                    return null;
+                }
+
+                const link = snap.data() as AppLinkRecord;
+                if (link.revoked) {
+                    return { error: 'revoked' as const };
+                }
+                if (link.used) {
+                    return { error: 'used' as const };
+                }
+                if (dayjs.utc().isAfter(dayjs.utc(link.expiresAt))) {
+                    return { error: 'expired' as const };
+                }
+
+                tx.update(ref, { used: true, usedAt: getUTCTimestamp() });
+                return { link };
+            });
+        }, 2, 1000, projectName);
+
+        if (!outcome) {
+            continue;
+        }
+        if ('error' in outcome) {
+            console.warn(`🔗 Rejected app link ${linkId.slice(0, 6)}… in ${projectName}: ${outcome.error}`);
+            return { success: false, error: outcome.error };
+        }
+
+        const { link } = outcome;
+        const authData = await generateEmployeeAuthToken(link.employeeUid, projectName, link.phoneNumber);
+        return { success: true, authData, employeeUid: link.employeeUid, projectName };
+    }
+
+    return { success: false, error: 'not_found' };
+}
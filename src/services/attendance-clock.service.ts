@@ -0,0 +1,322 @@
+import dayjs from 'dayjs';
+import { AttendanceModel, DailyAttendance, WorkedHoursOrigin } from '../models/attendance';
+import { AttendanceLogicModel } from '../models/attendance-logic';
+import { EmployeeModel } from '../models/employee';
+import { ShiftHourModel, ShiftTypeModel } from '../models/hrSettings';
+import { clockInOrOut } from '../util/functions/clockInOrOut';
+import { getAttendanceByMonth, getOpenClockIns } from '../util/functions/attendance/attendance-service';
+import { getEmployeeById, getEmployeeByUid } from '../util/functions/employee/employee-service';
+import { getAttendanceLogic, getFlexibilityParameter, getHrSettingById, getHrSettingsByType } from '../util/functions/hr-settings/hr-settings-service';
+import { LocationValidationResult, validateEmployeeLocationAndArea } from '../util/locationValidation';
+import { monthNames } from '../util/dayjs_format';
+import getShiftWindows, { getShiftDay, ShiftWindow } from '../util/getShiftWindows';
+import calculateDailyWorkingHours from '../util/calculateDailyWorkingHours';
+import { locationMonitoringService } from './location-monitoring.service';
+
+export type ClockType = 'Clock In' | 'Clock Out';
+
+export interface ClockResult {
+    success: boolean;
+    error?: string;
+    hour?: string;
+    dailyWorkedHours?: number;
+    lateMinutes?: number;
+}
+
+export interface ClockStatus {
+    employee: EmployeeModel;
+    // Open clock-in (ISO), null when clocked out
+    openClockIn: string | null;
+    // Day entry of the current working day (the open shift's day while clocked in)
+    today: DailyAttendance | null;
+    shiftWindows: ShiftWindow[];
+    dailyWorkingHour: number;
+    // Null when the employee has no working area and is not location-restricted
+    location: LocationValidationResult | null;
+    rulesError: string | null;
+}
+
+export interface ClockedInEmployee {
+    employee: EmployeeModel;
+    attendance: AttendanceModel;
+    projectName: string;
+}
+
+export interface AttendanceRules {
+    shiftType: ShiftTypeModel;
+    shiftHours: ShiftHourModel[];
+    attendanceLogic: AttendanceLogicModel;
+    // Minutes after shift start an arrival still counts as on time
+    flexibilityMinutes: number;
+}
+
+// Same freshness window the location monitoring service applies
+const MAX_LOCATION_AGE_MINUTES = 10;
+
+/**
+ * Load the shift type, shift hours and attendance logic that govern an employee's attendance
+ * @param employee - Employee whose shiftType is resolved
+ * @param projectName - Firebase project name the employee belongs to
+ * @returns Promise - The rules, or an error message when HR has not configured them
+ */
+export async function loadAttendanceRules(
+    employee: EmployeeModel,
+    projectName: string
+): Promise<{ rules: AttendanceRules } | { error: string }> {
+    const shiftType = await getHrSettingById('shiftTypes', employee.shiftType, projectName);
+    if (!shiftType) {
+        return { error: 'Set up shift type and associate to employee' };
+    }
+
+    const [shiftHours, attendanceLogic, flexibility] = await Promise.all([
+        getHrSettingsByType('shiftHours', projectName),
+        getAttendanceLogic(projectName),
+        getFlexibilityParameter(projectName)
+    ]);
+    if (!attendanceLogic) {
+        return { error: 'Attendance logic is not configured. Please contact HR.' };
+    }
+
+    return { rules: { shiftType, shiftHours, attendanceLogic, flexibilityMinutes: flexibility?.minute ?? 0 } };
+}
+
+/**
+ * Find when the shift an employee clocked in for ends
+ * Overnight shifts that started the previous local day are taken into account.
+ * @param clockIn - Clock-in time
+ * @param rules - Shift type and shift hours of the employee
+ * @param employeeTimezone - Employee's timezone
+ * @returns Dayjs | null - End of the last shift division of that working day, or null when no shift was scheduled
+ */
+export function findShiftEnd(
+    clockIn: dayjs.Dayjs,
+    rules: AttendanceRules,
+    employeeTimezone?: string | null
+): dayjs.Dayjs | null {
+    for (const day of [clockIn.subtract(1, 'day'), clockIn]) {
+        const windows = getShiftWindows(day, rules.shiftType, rules.shiftHours, employeeTimezone);
+        const shiftEnd = windows.reduce<dayjs.Dayjs | null>(
+            (latest, window) => (!latest || window.end.isAfter(latest) ? window.end : latest),
+            null
+        );
+        if (shiftEnd && clockIn.isBefore(shiftEnd)) {
+            return shiftEnd;
+        }
+    }
+    return null;
+}
+
+/**
+ * Find employees of a project who currently have an open clock-in
+ * @param projectName - Firebase project name to search
+ * @returns Promise<ClockedInEmployee[]> - Open attendance sheets with their employee
+ */
+export async function findClockedInEmployees(projectName: string): Promise<ClockedInEmployee[]> {
+    const clockedInEmployees: ClockedInEmployee[] = [];
+
+    try {
+        const openAttendances = await getOpenClockIns(projectName);
+        for (const attendance of openAttendances) {
+            const employee = await getEmployeeByUid(attendance.uid, projectName);
+            if (employee) {
+                clockedInEmployees.push({ employee, attendance, projectName });
+            }
+        }
+    } catch (error) {
+        console.error(`Error querying attendance in ${projectName}:`, error);
+    }
+
+    return clockedInEmployees;
+}
+
+/**
+ * Attendance sheet a punch made now is recorded on
+ * A sheet with an open clock-in wins (it may be last month's after an overnight shift);
+ * otherwise it is the sheet of the month of the employee's local working day.
+ * @param employee - Employee punching
+ * @param rules - Shift type and shift hours of the employee
+ * @param projectName - Firebase project name the employee belongs to
+ * @returns Promise<AttendanceModel | null> - The sheet, or null when HR has not generated it
+ */
+export async function findAttendanceSheet(
+    employee: EmployeeModel,
+    rules: AttendanceRules,
+    projectName: string
+): Promise<AttendanceModel | null> {
+    const shiftDay = getShiftDay(dayjs.utc(), rules.shiftType, rules.shiftHours, employee.timezone);
+    const [current, previous] = await Promise.all(
+        [shiftDay, shiftDay.subtract(1, 'month')].map(month => getAttendanceByMonth(
+            employee.uid,
+            month.year(),
+            monthNames[month.month()] as AttendanceModel['month'],
+            projectName
+        ))
+    );
+
+    if (previous?.lastClockInTimestamp && !current?.lastClockInTimestamp) {
+        return previous;
+    }
+    return current ?? null;
+}
+
+/**
+ * Gather what an employee needs to understand their attendance right now
+ * @param employeeId - Employee document ID
+ * @param projectName - Firebase project name the employee belongs to
+ * @param maxLocationAgeMinutes - Location freshness window to validate against
+ * @returns Promise<ClockStatus | null> - Null when the employee record does not exist
+ */
+export async function getClockStatus(
+    employeeId: string,
+    projectName: string,
+    maxLocationAgeMinutes: number = MAX_LOCATION_AGE_MINUTES
+): Promise<ClockStatus | null> {
+    const employee = await getEmployeeById(employeeId, projectName);
+    if (!employee) {
+        return null;
+    }
+
+    const location = employee.workingArea && employee.workingArea.trim() !== ''
+        ? validateEmployeeLocationAndArea(employee.currentLocation, employee.workingArea, maxLocationAgeMinutes, employee.timezone)
+        : null;
+
+    const loaded = await loadAttendanceRules(employee, projectName);
+    if ('error' in loaded) {
+        return { employee, openClockIn: null, today: null, shiftWindows: [], dailyWorkingHour: 0, location, rulesError: loaded.error };
+    }
+
+    const { shiftType, shiftHours } = loaded.rules;
+    const attendance = await findAttendanceSheet(employee, loaded.rules, projectName);
+    const openClockIn = attendance?.lastClockInTimestamp ?? null;
+    const shiftDay = getShiftDay(openClockIn ? dayjs.utc(openClockIn) : dayjs.utc(), shiftType, shiftHours, employee.timezone);
+    // Older sheets store values as a map with numeric keys
+    const values = Object.values(attendance?.values ?? {}) as (DailyAttendance | null)[];
+
+    return {
+        employee,
+        openClockIn,
+        today: values.find(entry => entry?.day === shiftDay.date()) ?? null,
+        shiftWindows: getShiftWindows(shiftDay, shiftType, shiftHours, employee.timezone),
+        dailyWorkingHour: calculateDailyWorkingHours(shiftDay, shiftType, shiftHours, employee.timezone),
+        location,
+        rulesError: null
+    };
+}
+
+/**
+ * Clock an employee in or out from Telegram
+ * @param type - 'Clock In' or 'Clock Out'
+ * @param employeeId - Employee document ID
+ * @param projectName - Firebase project name the employee belongs to
+ * @returns Promise<ClockResult> - Recorded hour and running daily worked hours on success
+ */
+export async function clockEmployee(type: ClockType, employeeId: string, projectName: string): Promise<ClockResult> {
+    try {
+        const employee = await getEmployeeById(employeeId, projectName);
+        if (!employee) {
+            return { success: false, error: 'Employee record not found.' };
+        }
+
+        // Employees without a working area are not location-restricted (same as auto clock-out)
+        if (employee.workingArea && employee.workingArea.trim() !== '') {
+            const validation = validateEmployeeLocationAndArea(
+                employee.currentLocation,
+                employee.workingArea,
+                MAX_LOCATION_AGE_MINUTES,
+                employee.timezone
+            );
+            if (!validation.isValid) {
+                return { success: false, error: validation.error ?? 'Your location could not be validated.' };
+            }
+        }
+
+        const loaded = await loadAttendanceRules(employee, projectName);
+        if ('error' in loaded) {
+            return { success: false, error: loaded.error };
+        }
+        const { shiftType, shiftHours, attendanceLogic, flexibilityMinutes } = loaded.rules;
+
+        const attendance = await findAttendanceSheet(employee, loaded.rules, projectName);
+        if (!attendance) {
+            return { success: false, error: 'No attendance sheet found for this month. Please contact HR.' };
+        }
+
+        const result = await clockInOrOut(
+            type,
+            attendance,
+            shiftType,
+            attendanceLogic,
+            shiftHours,
+            projectName,
+            employee.timezone,
+            'manual',
+            flexibilityMinutes
+        );
+
+        if (!result.status) {
+            return { success: false, error: result.error ?? 'Failed to update attendance record' };
+        }
+        // Location checks and errand claims start over with every punch
+        await locationMonitoringService.resetShiftState(projectName, employee.uid);
+
+        const clockResult: ClockResult = { success: true };
+        if (result.hour !== undefined) clockResult.hour = result.hour;
+        if (result.dailyWorkedHours !== undefined) clockResult.dailyWorkedHours = result.dailyWorkedHours;
+        if (result.lateMinutes !== undefined) clockResult.lateMinutes = result.lateMinutes;
+        return clockResult;
+    } catch (error) {
+        console.error(`Failed to ${type.toLowerCase()} employee ${employeeId}:`, error);
+        return { success: false, error: 'An error occurred while updating your attendance. Please try again later.' };
+    }
+}
+
+/**
+ * Close an open clock-in on behalf of the employee
+ * The punch goes through the same day attribution and attendance value computation as a manual clock-out.
+ * @param attendance - Attendance record holding the open lastClockInTimestamp
+ * @param employee - Employee being clocked out
+ * @param projectName - Firebase project name the employee belongs to
+ * @param origin - Why the punch was recorded ('auto-location' or 'auto-shift-end')
+ * @param clockOutAt - Time to record the clock-out at (defaults to now)
+ * @returns Promise - Success flag with an error message on failure
+ */
+export async function autoClockOut(
+    attendance: AttendanceModel,
+    employee: EmployeeModel,
+    projectName: string,
+    origin: WorkedHoursOrigin,
+    clockOutAt: dayjs.Dayjs = dayjs.utc()
+): Promise<{ success: boolean; error?: string }> {
+    if (!attendance.lastClockInTimestamp) {
+        return { success: false, error: 'Cannot clock out without a previous clock-in.' };
+    }
+
+    try {
+        const loaded = await loadAttendanceRules(employee, projectName);
+        if ('error' in loaded) {
+            return { success: false, error: loaded.error };
+        }
+        const { shiftType, shiftHours, attendanceLogic, flexibilityMinutes } = loaded.rules;
+
+        const result = await clockInOrOut(
+            'Clock Out',
+            attendance,
+            shiftType,
+            attendanceLogic,
+            shiftHours,
+            projectName,
+            employee.timezone,
+            origin,
+            flexibilityMinutes,
+            clockOutAt
+        );
+        if (!result.status) {
+            return { success: false, error: result.error ?? 'Failed to update attendance record' };
+        }
+        await locationMonitoringService.resetShiftState(projectName, employee.uid);
+        return { success: true };
+    } catch (error) {
+        console.error('Error performing auto clock-out:', error);
+        return { success: false, error: 'Failed to update attendance record' };
+    }
+}
@@ -0,0 +1,272 @@
+import dayjs from 'dayjs';
+import { sendMessage } from '../bot';
+import { getHealthyDbInstances } from '../firebase-config';
+import { AttendanceModel, DailyAttendance } from '../models/attendance';
+import { EmployeeModel } from '../models/employee';
+import { ShiftHourModel, ShiftTypeModel } from '../models/hrSettings';
+import { LeaveModel } from '../models/leave';
+import clampSetting from '../util/clampSetting';
+import escapeHtml from '../util/escapeHtml';
+import getEmployeeFullName from '../util/getEmployeeFullName';
+import getShiftWindows from '../util/getShiftWindows';
+import { DEFAULT_TZ, formatHour, parseDate } from '../util/dayjs_format';
+import { getAttendancesByMonth } from '../util/functions/attendance/attendance-service';
+import { claimOnce } from '../util/functions/claim/claim-service';
+import { getEmployees } from '../util/functions/employee/employee-service';
+import { getFlexibilityParameter, getHrSettingsByType } from '../util/functions/hr-settings/hr-settings-service';
+import { getApprovedLeaves } from '../util/functions/leave/leave-service';
+
+// Where an employee stands for today's shift
+interface ArrivalStatus {
+    employee: EmployeeModel;
+    shiftStart: dayjs.Dayjs;
+    clockedIn: boolean;
+    // Not clocked in although the flexibility tolerance has passed
+    missing: boolean;
+    lateMinutes: number | null;
+}
+
+export class AttendanceReminderService {
+    private intervalId?: NodeJS.Timeout | null;
+    private isRunning = false;
+
+    private readonly FEATURE_ENABLED = process.env.CLOCK_IN_REMINDERS_ENABLED !== 'false';
+    private readonly CHECK_INTERVAL_MINUTES = clampSetting(process.env.CLOCK_IN_REMINDER_CHECK_INTERVAL_MINUTES, 5, 1, 60);
+    // Reminders are only sent this long after shift start, so a restart late in the day does not send stale ones
+    private readonly REMINDER_WINDOW_MINUTES = 60;
+    // Hour in the manager's timezone at which they receive the late/missing digest
+    private readonly DIGEST_HOUR = clampSetting(process.env.ATTENDANCE_DIGEST_HOUR, 10, 0, 23);
+    // One document per manager and local day, so the digest goes out once even across restarts and replicas
+    private readonly DIGESTS_COLLECTION = 'attendanceDigests';
+    // One document per employee and local day for the clock-in reminder
+    private readonly REMINDERS_COLLECTION = 'clockInReminders';
+
+    startMonitoring(): void {
+        if (this.isRunning) {
+            console.log('Clock-in reminders already running');
+            return;
+        }
+
+        if (!this.FEATURE_ENABLED) {
+            console.log('Clock-in reminders feature is disabled');
+            return;
+        }
+
+        console.log(`Starting clock-in reminder service (check every ${this.CHECK_INTERVAL_MINUTES} minutes, manager digest at ${this.DIGEST_HOUR}:00 in each manager's timezone)`);
+        this.isRunning = true;
+
+        // Run initial check after a short delay to allow system to stabilize
+        setTimeout(() => {
+            this.runReminderCheck();
+        }, 30000); // 30 seconds delay
+
+        this.intervalId = setInterval(() => {
+            this.runReminderCheck();
+        }, this.CHECK_INTERVAL_MINUTES * 60 * 1000);
+    }
+
+    stopMonitoring(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        this.isRunning = false;
+        console.log('Clock-in reminder service stopped');
+    }
+
+    isMonitoring(): boolean {
+        return this.isRunning;
+    }
+
+    private async runReminderCheck(): Promise<void> {
+        try {
+            const healthyDbs = await getHealthyDbInstances();
+
+            for (const projectName of Object.keys(healthyDbs)) {
+                try {
+                    await this.runProjectCheck(projectName);
+                } catch (error) {
+                    console.error(`Error in clock-in reminder check for ${projectName}:`, error);
+                }
+            }
+        } catch (error) {
+            console.error('Error in clock-in reminder check:', error);
+        }
+    }
+
+    private async runProjectCheck(projectName: string): Promise<void> {
+        const { employees, statuses } = await this.getArrivalStatuses(projectName);
+        const now = dayjs.utc();
+
+        for (const status of statuses) {
+            if (status.clockedIn || now.isBefore(status.shiftStart)) {
+                continue;
+            }
+            if (now.diff(status.shiftStart, 'minute') > this.REMINDER_WINDOW_MINUTES) {
+                continue;
+            }
+
+            const localToday = now.tz(status.employee.timezone || DEFAULT_TZ).format('YYYY-MM-DD');
+            if (await claimOnce(projectName, this.REMINDERS_COLLECTION, `${status.employee.uid}_${localToday}`)) {
+                await this.sendClockInReminder(status);
+            }
+        }
+
+        await this.sendManagerDigests(projectName, employees, statuses);
+    }
+
+    /**
+     * Today's shift start and arrival of every employee scheduled to work today
+     * Employees on approved leave or on a public holiday are left out.
+     */
+    private async getArrivalStatuses(projectName: string): Promise<{ employees: EmployeeModel[]; statuses: ArrivalStatus[] }> {
+        const now = dayjs.utc();
+        const [employees, shiftTypes, shiftHours, holidays, leaves, flexibility, attendances] = await Promise.all([
+            getEmployees(projectName),
+            getHrSettingsByType('shiftTypes', projectName),
+            getHrSettingsByType('shiftHours', projectName),
+            getHrSettingsByType('holidays', projectName),
+            getApprovedLeaves(projectName),
+            getFlexibilityParameter(projectName),
+            getAttendancesByMonth(now.year(), now.format('MMMM') as AttendanceModel['month'], projectName)
+        ]);
+        const flexibilityMinutes = flexibility?.minute ?? 0;
+
+        const statuses: ArrivalStatus[] = [];
+        for (const employee of employees) {
+            const shiftType = shiftTypes.find(type => type.id === employee.shiftType);
+            if (!shiftType) {
+                continue;
+            }
+
+            const tz = employee.timezone || DEFAULT_TZ;
+            const localToday = now.tz(tz).format('YYYY-MM-DD');
+            const isHoliday = holidays.some(holiday => holiday.active === 'Yes' && parseDate(holiday.date, tz).format('YYYY-MM-DD') === localToday);
+            if (isHoliday || this.isOnLeave(employee, leaves, localToday, tz)) {
+                continue;
+            }
+
+            const shiftStart = this.getShiftStart(now, shiftType, shiftHours, tz);
+            if (!shiftStart) {
+                continue;
+            }
+
+            const attendance = attendances.find(sheet => sheet.uid === employee.uid);
+            const todayEntry = this.findLocalDayEntry(attendance, localToday, tz);
+            const clockedIn = !!attendance?.lastClockInTimestamp || !!todayEntry;
+
+            // Arrivals are flagged late at clock-in; anyone still absent past the tolerance counts as missing
+            statuses.push({
+                employee,
+                shiftStart,
+                clockedIn,
+                missing: !clockedIn && now.diff(shiftStart, 'minute') > flexibilityMinutes,
+                lateMinutes: todayEntry?.late ? todayEntry.lateMinutes ?? 0 : null
+            });
+        }
+
+        return { employees, statuses };
+    }
+
+    private getShiftStart(now: dayjs.Dayjs, shiftType: ShiftTypeModel, shiftHours: ShiftHourModel[], tz: string): dayjs.Dayjs | null {
+        return getShiftWindows(now, shiftType, shiftHours, tz)[0]?.start ?? null;
+    }
+
+    private isOnLeave(employee: EmployeeModel, leaves: LeaveModel[], localToday: string, tz: string): boolean {
+        return leaves.some(leave =>
+            leave.employeeID === employee.uid &&
+            parseDate(leave.firstDayOfLeave, tz).format('YYYY-MM-DD') <= localToday &&
+            parseDate(leave.lastDayOfLeave, tz).format('YYYY-MM-DD') >= localToday
+        );
+    }
+
+    // The day entry holding a clock-in made on the employee's local today, if any
+    private findLocalDayEntry(attendance: AttendanceModel | undefined, localToday: string, tz: string): DailyAttendance | null {
+        // Older sheets store values as a map with numeric keys; Object.values covers both shapes
+        const values = Object.values(attendance?.values ?? {}) as (DailyAttendance | null)[];
+        return values.find(entry =>
+            entry?.workedHours?.some(punch => punch.type === 'Clock In' && dayjs.utc(punch.timestamp).tz(tz).format('YYYY-MM-DD') === localToday)
+        ) ?? null;
+    }
+
+    private async sendClockInReminder({ employee, shiftStart }: ArrivalStatus): Promise<void> {
+        if (!employee.telegramChatID) {
+            return;
+        }
+
+        try {
+            await sendMessage(
+                parseInt(employee.telegramChatID),
+                `⏰ Your shift started at <b>${formatHour(shiftStart, employee.timezone || undefined)}</b> and you have not clocked in yet.\n\nUse /clockin as soon as you arrive.`
+            );
+        } catch (error) {
+            console.error(`Error sending clock-in reminder to ${employee.uid}:`, error);
+        }
+    }
+
+    // Each manager gets one digest per local day, at the first check past DIGEST_HOUR in their timezone
+    private async sendManagerDigests(projectName: string, employees: EmployeeModel[], statuses: ArrivalStatus[]): Promise<void> {
+        const byManager = new Map<string, { late: ArrivalStatus[]; missing: ArrivalStatus[] }>();
+
+        for (const status of statuses) {
+            const managerUid = status.employee.reportingLineManager;
+            if (!managerUid) {
+                continue;
+            }
+
+            const team = byManager.get(managerUid) ?? { late: [], missing: [] };
+            if (status.missing) {
+                team.missing.push(status);
+            } else if (status.lateMinutes !== null) {
+                team.late.push(status);
+            }
+            byManager.set(managerUid, team);
+        }
+
+        const now = dayjs.utc();
+        let sent = 0;
+        for (const [managerUid, team] of byManager) {
+            const manager = employees.find(employee => employee.uid === managerUid);
+            if (!manager?.telegramChatID) {
+                continue;
+            }
+
+            const managerNow = now.tz(manager.timezone || DEFAULT_TZ);
+            if (managerNow.hour() < this.DIGEST_HOUR) {
+                continue;
+            }
+            // Claimed even when nobody is late, so arrivals after the digest hour do not trigger one later
+            if (!await claimOnce(projectName, this.DIGESTS_COLLECTION, `${managerUid}_${managerNow.format('YYYY-MM-DD')}`)) {
+                continue;
+            }
+            if (team.late.length === 0 && team.missing.length === 0) {
+                continue;
+            }
+
+            const tz = manager.timezone || undefined;
+            const lines = ['📋 <b>Attendance digest for today</b>'];
+            if (team.late.length > 0) {
+                lines.push('', `🕒 Late (${team.late.length}):`);
+                lines.push(...team.late.map(({ employee, lateMinutes }) => `• ${escapeHtml(getEmployeeFullName(employee))} (${lateMinutes} min late)`));
+            }
+            if (team.missing.length > 0) {
+                lines.push('', `❌ Not clocked in (${team.missing.length}):`);
+                lines.push(...team.missing.map(({ employee, shiftStart }) => `• ${escapeHtml(getEmployeeFullName(employee))} (shift started ${formatHour(shiftStart, tz)})`));
+            }
+
+            try {
+                await sendMessage(parseInt(manager.telegramChatID), lines.join('\n'));
+                sent++;
+            } catch (error) {
+                console.error(`Error sending attendance digest to ${managerUid}:`, error);
+            }
+        }
+
+        if (sent > 0) {
+            console.log(`📋 Sent attendance digests to ${sent} managers in ${projectName}`);
+        }
+    }
+}
+
+// Export singleton instance
+export const attendanceReminderService = new AttendanceReminderService();
@@ -0,0 +1,313 @@
+import { createHash, randomInt } from 'crypto';
+import dayjs from 'dayjs';
+import { getHealthyDbInstances, getProjectDb, retryDatabaseOperation } from '../firebase-config';
+import { Contact } from '../types/telegram';
+import { getUTCTimestamp } from '../util/dayjs_format';
+
+// Pending one-time codes, one document per chat in the employee's project
+const VERIFICATIONS_COLLECTION = 'telegramLinkVerifications';
+// Rejected linking attempts
+const AUDIT_COLLECTION = 'telegramLinkAudit';
+// Recent code requests and lockouts, one document per chat and per phone number in the security project
+const RATE_LIMITS_COLLECTION = 'telegramLinkRateLimits';
+// Outbox collections consumed by the Firebase "Trigger Email" and "Send Messages with Twilio" extensions
+const MAIL_COLLECTION = 'mail';
+const SMS_COLLECTION = 'messages';
+
+const CODE_TTL_MINUTES = 10;
+const MAX_CODE_ATTEMPTS = 5;
+// Typed phone numbers accepted per chat and per phone number within the window
+const MAX_REQUESTS_PER_WINDOW = 5;
+const REQUEST_WINDOW_MINUTES = 60;
+// Cooldown after too many incorrect codes, so retyping the number does not start a fresh round at once
+const LOCK_COOLDOWN_MINUTES = 60;
+
+export type LinkRejectionReason =
+    | 'contact_not_owned'
+    | 'employee_not_found'
+    | 'no_delivery_channel'
+    | 'code_invalid'
+    | 'code_expired'
+    | 'code_attempts_exceeded'
+    | 'rate_limited';
+
+export interface LinkAuditEntry {
+    chatId: number;
+    telegramUserId: number | null;
+    telegramUsername: string | null;
+    phoneNumber: string | null;
+    employeeId: string | null;
+    source: 'contact' | 'typed_phone' | 'code';
+    reason: LinkRejectionReason;
+}
+
+export interface VerificationTarget {
+    employeeId: string;
+    phoneNumber: string;
+    personalEmail?: string | null;
+    companyPhoneNumber?: string | null;
+}
+
+export type StartVerificationResult =
+    | { success: true; channel: 'email' | 'sms'; destination: string }
+    | { success: false; reason: 'no_delivery_channel' };
+
+export type VerifyCodeResult =
+    | { status: 'verified'; employeeId: string; projectName: string; phoneNumber: string }
+    | { status: 'none' }
+    | { status: 'invalid'; attemptsLeft: number; employeeId: string; projectName: string; phoneNumber: string }
+    | { status: 'expired' | 'locked'; employeeId: string; projectName: string; phoneNumber: string };
+
+export type RequestAllowance =
+    | { allowed: true }
+    | { allowed: false; retryAt: string };
+
+interface LinkRateLimit {
+    // Request timestamps inside the current window, oldest first
+    requests: string[];
+    lockedUntil: string | null;
+}
+
+interface PendingVerification {
+    employeeId: string;
+    phoneNumber: string;
+    codeHash: string;
+    expiresAt: string;
+    attempts: number;
+    createdAt: string;
+}
+
+/**
+ * Check that a shared contact card belongs to the Telegram user who sent it
+ * @param contact - Contact attached to the message
+ * @param fromUserId - Telegram user ID of the sender
+ * @returns boolean - True only when Telegram reports the contact's user_id as the sender
+ */
+export function isOwnContact(contact: Contact, fromUserId: number | undefined): boolean {
+    return typeof contact.user_id === 'number' && typeof fromUserId === 'number' && contact.user_id === fromUserId;
+}
+
+/**
+ * Record a rejected account linking attempt
+ * @param projectName - Project of the targeted employee, or null when no employee matched
+ * @param entry - Attempt details
+ */
+export async function recordLinkAudit(projectName: string | null, entry: LinkAuditEntry): Promise<void> {
+    console.warn(`🚫 Rejected account link attempt from chat ${entry.chatId}: ${entry.reason}`);
+
+    let targetProject: string | null = projectName;
+    try {
+        // Attempts that match no employee go to the security project
+        targetProject = projectName ?? await getSecurityProject();
+        const db = await getProjectDb(targetProject);
+        await retryDatabaseOperation(async () => {
+            return await db.collection(AUDIT_COLLECTION).add({
+                ...entry,
+                timestamp: getUTCTimestamp()
+            });
+        }, 2, 1000, targetProject);
+    } catch (error) {
+        console.error(`Failed to write link audit entry in ${targetProject ?? 'the security project'}:`, error);
+    }
+}
+
+/**
+ * Count a typed phone number against the chat's and the number's request limits
+ * Requests are refused while either is over the limit or in a lockout cooldown; accepted ones are recorded.
+ * @param chatId - Telegram chat typing the number
+ * @param phoneNumber - Normalized phone number
+ * @returns Promise<RequestAllowance> - When refused, the time the next request is accepted
+ */
+export async function reserveVerificationRequest(chatId: number, phoneNumber: string): Promise<RequestAllowance> {
+    const projectName = await getSecurityProject();
+    const db = await getProjectDb(projectName);
+    const refs = rateLimitKeys(chatId, phoneNumber).map(key => db.collection(RATE_LIMITS_COLLECTION).doc(key));
+
+    return await retryDatabaseOperation(async () => {
+        return await db.runTransaction(async (tx) => {
+            const snaps = await Promise.all(refs.map(ref => tx.get(ref)));
+            const now = dayjs.utc();
+            const windowStart = now.subtract(REQUEST_WINDOW_MINUTES, 'minute');
+
+            let retryAt: dayjs.Dayjs | null = null;
+            const limits: LinkRateLimit[] = [];
+            for (const snap of snaps) {
+                const data = snap.data() as Partial<LinkRateLimit> | undefined;
+                const limit: LinkRateLimit = {
+                    requests: (data?.requests ?? []).filter(request => dayjs.utc(request).isAfter(windowStart)),
+                    lockedUntil: data?.lockedUntil ?? null
+                };
+                const blockedUntil = [
+                    limit.lockedUntil ? dayjs.utc(limit.lockedUntil) : null,
+                    limit.requests.length >= MAX_REQUESTS_PER_WINDOW ? dayjs.utc(limit.requests[0]).add(REQUEST_WINDOW_MINUTES, 'minute') : null
+                ];
+                for (const until of blockedUntil) {
+                    if (until && until.isAfter(now) && (!retryAt || until.isAfter(retryAt))) {
+                        retryAt = until;
+                    }
+                }
+                limits.push(limit);
+            }
+
+            if (retryAt) {
+                return { allowed: false, retryAt: retryAt.toISOString() };
+            }
+            refs.forEach((ref, index) => {
+                tx.set(ref, { requests: [...limits[index]!.requests, now.toISOString()], lockedUntil: null });
+            });
+            return { allowed: true };
+        });
+    }, 2, 1000, projectName);
+}
+
+/**
+ * Send a one-time code to the employee's registered email or company phone
+ * @param chatId - Telegram chat requesting the link
+ * @param projectName - Project of the employee
+ * @param target - Employee the typed phone number resolved to
+ * @returns Promise<StartVerificationResult> - Channel and masked destination the code was sent to
+ */
+export async function startPhoneVerification(chatId: number, projectName: string, target: VerificationTarget): Promise<StartVerificationResult> {
+    const email = target.personalEmail?.trim();
+    const phone = target.companyPhoneNumber?.trim();
+    if (!email && !phone) {
+        return { success: false, reason: 'no_delivery_channel' };
+    }
+
+    const code = String(randomInt(0, 1000000)).padStart(6, '0');
+    const now = dayjs.utc();
+    const pending: PendingVerification = {
+        employeeId: target.employeeId,
+        phoneNumber: target.phoneNumber,
+        codeHash: hashCode(chatId, code),
+        expiresAt: now.add(CODE_TTL_MINUTES, 'minute').toISOString(),
+        attempts: 0,
+        createdAt: now.toISOString()
+    };
+
+    const db = await getProjectDb(projectName);
+    const text = `Your oneHR Telegram verification code is ${code}. It expires in ${CODE_TTL_MINUTES} minutes. If you did not request it, ignore this message.`;
+
+    await retryDatabaseOperation(async () => {
+        const batch = db.batch();
+        batch.set(db.collection(VERIFICATIONS_COLLECTION).doc(String(chatId)), pending);
+        if (email) {
+            batch.set(db.collection(MAIL_COLLECTION).doc(), {
+                to: email,
+                message: { subject: 'oneHR Telegram verification code', text }
+            });
+        } else {
+            batch.set(db.collection(SMS_COLLECTION).doc(), { to: phone, body: text });
+        }
+        return await batch.commit();
+    }, 2, 1000, projectName);
+
+    return email
+        ? { success: true, channel: 'email', destination: maskEmail(email) }
+        : { success: true, channel: 'sms', destination: maskPhone(phone!) };
+}
+
+/**
+ * Check a one-time code typed into the chat
+ * @param chatId - Telegram chat the code was requested from
+ * @param code - Six digit code
+ * @returns Promise<VerifyCodeResult> - 'none' when the chat has no pending verification
+ */
+export async function verifyPhoneCode(chatId: number, code: string): Promise<VerifyCodeResult> {
+    const healthyDbs = await getHealthyDbInstances();
+
+    for (const [projectName, db] of Object.entries(healthyDbs)) {
+        const ref = db.collection(VERIFICATIONS_COLLECTION).doc(String(chatId));
+        // Read, compare and count the attempt in one transaction so parallel guesses cannot exceed the limit
+        const result = await retryDatabaseOperation(async () => {
+            return await db.runTransaction(async (tx): Promise<VerifyCodeResult | null> => {
+                const snap = await tx.get(ref);
+                if (!snap.exists) {
+                    return null;
+                }
+
+                const pending = snap.data() as PendingVerification;
+                const base = { employeeId: pending.employeeId, projectName, phoneNumber: pending.phoneNumber };
+
+                if (dayjs.utc().isAfter(dayjs.utc(pending.expiresAt))) {
+                    tx.delete(ref);
+                    return { status: 'expired', ...base };
+                }
+
+                if (hashCode(chatId, code) !== pending.codeHash) {
+                    const attempts = pending.attempts + 1;
+                    if (attempts >= MAX_CODE_ATTEMPTS) {
+                        tx.delete(ref);
+                        return { status: 'locked', ...base };
+                    }
+                    tx.update(ref, { attempts });
+                    return { status: 'invalid', attemptsLeft: MAX_CODE_ATTEMPTS - attempts, ...base };
+                }
+
+                // Codes are single-use
+                tx.delete(ref);
+                return { status: 'verified', ...base };
+            });
+        }, 2, 1000, projectName);
+
+        if (!result) {
+            continue;
+        }
+        if (result.status === 'locked') {
+            await lockVerificationRequests(chatId, result.phoneNumber);
+        }
+        return result;
+    }
+
+    return { status: 'none' };
+}
+
+// Refuse new codes for the chat and the number until the cooldown ends
+async function lockVerificationRequests(chatId: number, phoneNumber: string): Promise<void> {
+    try {
+        const projectName = await getSecurityProject();
+        const db = await getProjectDb(projectName);
+        const lockedUntil = dayjs.utc().add(LOCK_COOLDOWN_MINUTES, 'minute').toISOString();
+        await retryDatabaseOperation(async () => {
+            const batch = db.batch();
+            for (const key of rateLimitKeys(chatId, phoneNumber)) {
+                batch.set(db.collection(RATE_LIMITS_COLLECTION).doc(key), { lockedUntil }, { merge: true });
+            }
+            return await batch.commit();
+        }, 2, 1000, projectName);
+    } catch (error) {
+        console.error(`Failed to lock verification requests for chat ${chatId}:`, error);
+    }
+}
+
+// Audit entries without an employee and rate limits live in SECURITY_AUDIT_PROJECT.
+// When it is not set the first healthy project is used, so no attempt goes unrecorded.
+async function getSecurityProject(): Promise<string> {
+    const configured = process.env.SECURITY_AUDIT_PROJECT;
+    if (configured) {
+        return configured;
+    }
+    const fallback = Object.keys(await getHealthyDbInstances())[0];
+    if (!fallback) {
+        throw new Error('No healthy project to record link security data in');
+    }
+    return fallback;
+}
+
+function rateLimitKeys(chatId: number, phoneNumber: string): string[] {
+    return [`chat_${chatId}`, `phone_${phoneNumber.replace(/\D/g, '')}`];
+}
+
+// Bind the code to the chat so a code leaked from one chat cannot be replayed in another
+function hashCode(chatId: number, code: string): string {
+    return createHash('sha256').update(`${chatId}:${code}`).digest('hex');
+}
+
+function maskEmail(email: string): string {
+    const [local = '', domain = ''] = email.split('@');
+    return `${local.slice(0, 1)}***@${domain}`;
+}
+
+function maskPhone(phone: string): string {
+    return phone.length > 4 ? `${'*'.repeat(phone.length - 4)}${phone.slice(-4)}` : phone;
+}
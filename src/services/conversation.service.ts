@@ -0,0 +1,185 @@
+// Multi-step bot conversations (e.g. /correct), one per chat
+// Persisted in Firestore like chat sessions, so any replica can answer the next step; an expired conversation is simply started again.
+import type { firestore } from 'firebase-admin';
+import { getHealthyDbInstances, retryDatabaseOperation } from '../firebase-config';
+
+const CONVERSATION_TTL_MS = 15 * 60 * 1000;
+const CONVERSATIONS_COLLECTION = 'telegramConversations';
+
+export interface Conversation<T = Record<string, unknown>> {
+    flow: string;
+    step: string;
+    data: T;
+    expiresAt: number;
+}
+
+// Every flow keeps the employee's project in its data; the conversation is stored there
+type ConversationData = Record<string, unknown> & { projectName: string };
+
+export interface ConversationStore {
+    /**
+     * Active conversation of a chat, optionally restricted to one flow
+     * @param chatId - Telegram chat ID
+     * @param flow - Only return the conversation if it belongs to this flow
+     * @returns Conversation | null - Null when there is none or it has expired
+     */
+    get<T = Record<string, unknown>>(chatId: number, flow?: string): Promise<Conversation<T> | null>;
+    // Starting a conversation replaces whatever the chat was doing before
+    start<T extends ConversationData>(chatId: number, flow: string, step: string, data: T): Promise<void>;
+    // Move to the next step, merging in new data and extending the expiry
+    advance<T extends Record<string, unknown>>(chatId: number, step: string, data?: Partial<T>): Promise<void>;
+    end(chatId: number): Promise<void>;
+}
+
+/**
+ * Conversation store kept entirely in memory.
+ * Used for tests and local development; conversations are lost on restart.
+ */
+export class InMemoryConversationStore implements ConversationStore {
+    private conversations = new Map<number, Conversation>();
+
+    async get<T = Record<string, unknown>>(chatId: number, flow?: string): Promise<Conversation<T> | null> {
+        const conversation = this.conversations.get(chatId);
+        if (!conversation) {
+            return null;
+        }
+        if (conversation.expiresAt <= Date.now()) {
+            this.conversations.delete(chatId);
+            return null;
+        }
+        if (flow && conversation.flow !== flow) {
+            return null;
+        }
+        return conversation as Conversation<T>;
+    }
+
+    async start<T extends ConversationData>(chatId: number, flow: string, step: string, data: T): Promise<void> {
+        this.conversations.set(chatId, { flow, step, data, expiresAt: Date.now() + CONVERSATION_TTL_MS });
+    }
+
+    async advance<T extends Record<string, unknown>>(chatId: number, step: string, data: Partial<T> = {}): Promise<void> {
+        const conversation = await this.get(chatId);
+        if (!conversation) {
+            return;
+        }
+        this.conversations.set(chatId, {
+            ...conversation,
+            step,
+            data: { ...conversation.data, ...data },
+            expiresAt: Date.now() + CONVERSATION_TTL_MS
+        });
+    }
+
+    async end(chatId: number): Promise<void> {
+        this.conversations.delete(chatId);
+    }
+}
+
+/**
+ * Conversation store persisted in Firestore, shared by every replica.
+ * Each conversation lives in the project of the employee it belongs to and carries its `expiresAt`;
+ * expired records are ignored and deleted when next read.
+ */
+export class FirestoreConversationStore implements ConversationStore {
+    async get<T = Record<string, unknown>>(chatId: number, flow?: string): Promise<Conversation<T> | null> {
+        const stored = await this.find(chatId);
+        if (!stored || (flow && stored.conversation.flow !== flow)) {
+            return null;
+        }
+        return stored.conversation as Conversation<T>;
+    }
+
+    async start<T extends ConversationData>(chatId: number, flow: string, step: string, data: T): Promise<void> {
+        // A conversation left in another tenant (the chat was re-linked) would otherwise shadow this one
+        const previous = await this.find(chatId);
+        if (previous && previous.projectName !== data.projectName) {
+            await this.withDb(previous.projectName, (db) => db.collection(CONVERSATIONS_COLLECTION).doc(String(chatId)).delete());
+        }
+        await this.save(chatId, data.projectName, { flow, step, data, expiresAt: Date.now() + CONVERSATION_TTL_MS });
+    }
+
+    async advance<T extends Record<string, unknown>>(chatId: number, step: string, data: Partial<T> = {}): Promise<void> {
+        const stored = await this.find(chatId);
+        if (!stored) {
+            return;
+        }
+        await this.save(chatId, stored.projectName, {
+            ...stored.conversation,
+            step,
+            data: { ...stored.conversation.data, ...data },
+            expiresAt: Date.now() + CONVERSATION_TTL_MS
+        });
+    }
+
+    async end(chatId: number): Promise<void> {
+        const stored = await this.find(chatId);
+        if (stored) {
+            await this.withDb(stored.projectName, (db) => db.collection(CONVERSATIONS_COLLECTION).doc(String(chatId)).delete());
+        }
+    }
+
+    // The chat's unexpired conversation, from whichever project holds it
+    private async find(chatId: number): Promise<{ conversation: Conversation; projectName: string } | null> {
+        const healthyDbs = await getHealthyDbInstances();
+        let latest: { conversation: Conversation; projectName: string } | null = null;
+        for (const [projectName, db] of Object.entries(healthyDbs)) {
+            try {
+                const doc = await retryDatabaseOperation(async () => {
+                    return await db.collection(CONVERSATIONS_COLLECTION).doc(String(chatId)).get();
+                }, 2, 1000, projectName);
+                const data = doc.data();
+                if (!data) {
+                    continue;
+                }
+                const conversation = toConversation(data);
+                if (conversation.expiresAt <= Date.now()) {
+                    await this.withDb(projectName, (db) => db.collection(CONVERSATIONS_COLLECTION).doc(String(chatId)).delete());
+                    continue;
+                }
+                if (!latest || conversation.expiresAt > latest.conversation.expiresAt) {
+                    latest = { conversation, projectName };
+                }
+            } catch (error) {
+                console.error(`Failed to read conversation from ${projectName}:`, error);
+            }
+        }
+        return latest;
+    }
+
+    private async save(chatId: number, projectName: string, conversation: Conversation): Promise<void> {
+        // Flow data is plain JSON; the round trip drops the undefined fields Firestore rejects
+        await this.withDb(projectName, (db) => db.collection(CONVERSATIONS_COLLECTION).doc(String(chatId)).set(JSON.parse(JSON.stringify(conversation))));
+    }
+
+    // Persistence is best-effort, like chat sessions: a failed write is logged and the next step retries it
+    private async withDb(projectName: string, operation: (db: firestore.Firestore) => Promise<unknown>): Promise<void> {
+        try {
+            const db = (await getHealthyDbInstances())[projectName];
+            if (!db) {
+                throw new Error(`Database for project ${projectName} is not healthy`);
+            }
+            await retryDatabaseOperation(async () => operation(db), 2, 1000, projectName);
+        } catch (error) {
+            console.error(`Failed to persist conversation in ${projectName}:`, error);
+        }
+    }
+}
+
+function toConversation(data: firestore.DocumentData): Conversation {
+    return {
+        flow: data.flow,
+        step: data.step,
+        data: data.data ?? {},
+        expiresAt: data.expiresAt
+    };
+}
+
+/**
+ * Create the conversation store for this process
+ * @returns ConversationStore - In-memory when SESSION_STORE=memory, otherwise Firestore-backed
+ */
+export function createConversationStore(): ConversationStore {
+    return process.env.SESSION_STORE === 'memory' ? new InMemoryConversationStore() : new FirestoreConversationStore();
+}
+
+export const conversations = createConversationStore();
@@ -0,0 +1,449 @@
+import { randomBytes, randomUUID } from 'crypto';
+import dayjs from 'dayjs';
+import { firestore } from 'firebase-admin';
+import { sendMessage } from '../bot';
+import { getHealthyDbInstances, getProjectDb, retryDatabaseOperation } from '../firebase-config';
+import { AttendanceModel, DailyAttendance, RequestModificationModel, WorkedHoursModel } from '../models/attendance';
+import { InlineKeyboardMarkup } from '../types/telegram';
+import calculateAttendanceValue from '../util/calculateAttendanceValue';
+import calculateDailyWorkingHours from '../util/calculateDailyWorkingHours';
+import escapeHtml from '../util/escapeHtml';
+import { DEFAULT_TZ, dateFormat, formatDuration, formatHour, monthNames, parseLocalTime } from '../util/dayjs_format';
+import { getAttendanceByMonth } from '../util/functions/attendance/attendance-service';
+import { getEmployeeById, getEmployeeByUid } from '../util/functions/employee/employee-service';
+import { loadAttendanceRules } from './attendance-clock.service';
+import { conversations } from './conversation.service';
+
+const FLOW = 'correct';
+const MODIFICATION_REQUESTS_COLLECTION = 'requestModifications';
+// Days offered in the day picker, counting back from today
+const PICKABLE_DAYS = 10;
+const MAX_PUNCH_PAIRS = 6;
+
+interface CorrectionData extends Record<string, unknown> {
+    employeeId: string;
+    employeeUid: string;
+    projectName: string;
+    timezone: string;
+    date?: string; // YYYY-MM-DD, employee's local date
+    mode?: 'value' | 'punches';
+    attendanceId?: string;
+    oldValue?: DailyAttendance['value'];
+    oldWorkedHours?: WorkedHoursModel[];
+    newValue?: RequestModificationModel['newValue'];
+    workedHours?: WorkedHoursModel[];
+}
+
+/**
+ * Start the /correct conversation by offering the recent days
+ * @param chatId - Telegram chat ID
+ * @param employeeId - Employee document ID
+ * @param projectName - Firebase project name the employee belongs to
+ */
+export async function startCorrection(chatId: number, employeeId: string, projectName: string): Promise<void> {
+    const employee = await getEmployeeById(employeeId, projectName);
+    if (!employee) {
+        await sendMessage(chatId, '❌ Employee record not found.');
+        return;
+    }
+
+    const timezone = employee.timezone || DEFAULT_TZ;
+    const today = dayjs.utc().tz(timezone);
+    const days = Array.from({ length: PICKABLE_DAYS }, (_, index) => today.subtract(index, 'day'));
+    const sheets = await loadSheets(employee.uid, days, projectName);
+
+    await conversations.start<CorrectionData>(chatId, FLOW, 'day', { employeeId, employeeUid: employee.uid, projectName, timezone });
+
+    const buttons = days.map(day => {
+        const entry = findDayEntry(sheets.get(day.format('YYYY-MM')) ?? null, day.date());
+        const details = entry?.value ? ` · ${entry.value}` : entry?.dailyWorkedHours ? ` · ${formatDuration(entry.dailyWorkedHours)}` : '';
+        return { text: `${day.format('ddd DD MMM')}${details}`, callback_data: `correct:day:${day.format('YYYY-MM-DD')}` };
+    });
+    const keyboard: InlineKeyboardMarkup = { inline_keyboard: [] };
+    for (let index = 0; index < buttons.length; index += 2) {
+        keyboard.inline_keyboard.push(buttons.slice(index, index + 2));
+    }
+    keyboard.inline_keyboard.push([{ text: '✖️ Cancel', callback_data: 'correct:cancel' }]);
+
+    await sendMessage(chatId, '✏️ <b>Attendance correction</b>\n\nWhich day do you want to correct?', keyboard);
+}
+
+/**
+ * Handle the inline buttons of the /correct conversation (callback data starting with "correct:")
+ * @param chatId - Telegram chat ID
+ * @param data - Callback data
+ */
+export async function handleCorrectionCallback(chatId: number, data: string): Promise<void> {
+    const conversation = await conversations.get<CorrectionData>(chatId, FLOW);
+    if (!conversation) {
+        await sendMessage(chatId, '⌛ This correction has expired. Please start again with /correct.');
+        return;
+    }
+
+    const [, action, argument] = data.split(':');
+    switch (action) {
+        case 'cancel':
+            await conversations.end(chatId);
+            await sendMessage(chatId, '✖️ Correction cancelled.');
+            return;
+        case 'day':
+            await selectDay(chatId, conversation.data, argument ?? '');
+            return;
+        case 'mode':
+            if (argument === 'value') {
+                await conversations.advance<CorrectionData>(chatId, 'value', { mode: 'value' });
+                await sendMessage(chatId, 'Which value should the day have?', {
+                    inline_keyboard: [
+                        [
+                            { text: 'P (present)', callback_data: 'correct:value:P' },
+                            { text: 'H (half day)', callback_data: 'correct:value:H' },
+                            { text: 'A (absent)', callback_data: 'correct:value:A' }
+                        ],
+                        [{ text: '✖️ Cancel', callback_data: 'correct:cancel' }]
+                    ]
+                });
+            } else {
+                await conversations.advance<CorrectionData>(chatId, 'punches', { mode: 'punches' });
+                await sendMessage(
+                    chatId,
+                    '🕘 Send the correct clock-in and clock-out times as pairs, separated by commas.\n\nExample: <code>08:00-12:00, 13:00-17:30</code>'
+                );
+            }
+            return;
+        case 'value':
+            if (argument === 'P' || argument === 'H' || argument === 'A') {
+                await askForComment(chatId, { newValue: argument, workedHours: conversation.data.oldWorkedHours ?? [] });
+            }
+            return;
+        case 'skip':
+            if (conversation.step === 'comment') {
+                await createModificationRequest(chatId, conversation.data, null);
+            }
+            return;
+    }
+}
+
+/**
+ * Handle free text typed during the /correct conversation
+ * @param chatId - Telegram chat ID
+ * @param text - Message text
+ * @returns Promise<boolean> - Whether the text belonged to the conversation
+ */
+export async function handleCorrectionText(chatId: number, text: string): Promise<boolean> {
+    const conversation = await conversations.get<CorrectionData>(chatId, FLOW);
+    if (!conversation) {
+        return false;
+    }
+
+    if (conversation.step === 'punches') {
+        const { data } = conversation;
+        const workedHours = parsePunchPairs(text, data.date ?? '', data.timezone);
+        if (!workedHours) {
+            await sendMessage(chatId, `❌ I could not read those times. Send up to ${MAX_PUNCH_PAIRS} pairs like <code>08:00-12:00, 13:00-17:30</code>.`);
+            return true;
+        }
+        await askForComment(chatId, { workedHours, newValue: await proposeValue(data, workedHours) });
+        return true;
+    }
+
+    if (conversation.step === 'comment') {
+        await createModificationRequest(chatId, conversation.data, text.trim());
+        return true;
+    }
+
+    // Other steps are answered with buttons
+    await sendMessage(chatId, '👆 Please use the buttons above, or tap Cancel.');
+    return true;
+}
+
+async function selectDay(chatId: number, data: CorrectionData, date: string): Promise<void> {
+    const day = dayjs.tz(date, 'YYYY-MM-DD', data.timezone);
+    if (!day.isValid()) {
+        return;
+    }
+
+    const attendance = await getAttendanceByMonth(data.employeeUid, day.year(), monthNames[day.month()] as AttendanceModel['month'], data.projectName);
+    if (!attendance) {
+        await conversations.end(chatId);
+        await sendMessage(chatId, `❌ No attendance sheet found for ${monthNames[day.month()]} ${day.year()}. Please contact HR.`);
+        return;
+    }
+
+    const entry = findDayEntry(attendance, day.date());
+    const oldWorkedHours = entry?.workedHours ?? [];
+    await conversations.advance<CorrectionData>(chatId, 'mode', {
+        date,
+        attendanceId: attendance.id,
+        oldValue: entry?.value ?? null,
+        oldWorkedHours
+    });
+
+    const punches = oldWorkedHours.length > 0
+        ? oldWorkedHours.map(punch => `• ${punch.type} ${formatHour(punch.timestamp, data.timezone)}`).join('\n')
+        : '• No punches recorded';
+    await sendMessage(
+        chatId,
+        `📅 <b>${day.format(dateFormat)}</b>\n\nValue: <b>${entry?.value ?? '—'}</b>\nWorked: ${formatDuration(entry?.dailyWorkedHours ?? 0)}\n${punches}\n\nWhat do you want to correct?`,
+        {
+            inline_keyboard: [
+                [{ text: '🕘 Punch times', callback_data: 'correct:mode:punches' }, { text: '🔤 Day value', callback_data: 'correct:mode:value' }],
+                [{ text: '✖️ Cancel', callback_data: 'correct:cancel' }]
+            ]
+        }
+    );
+}
+
+async function askForComment(chatId: number, proposal: Pick<CorrectionData, 'newValue' | 'workedHours'>): Promise<void> {
+    await conversations.advance<CorrectionData>(chatId, 'comment', proposal);
+    await sendMessage(chatId, '💬 Add a comment for HR explaining the correction, or skip it.', {
+        inline_keyboard: [[{ text: '⏭️ Skip comment', callback_data: 'correct:skip' }, { text: '✖️ Cancel', callback_data: 'correct:cancel' }]]
+    });
+}
+
+// Value the proposed punches would earn, evaluated like a clock-out
+async function proposeValue(data: CorrectionData, workedHours: WorkedHoursModel[]): Promise<RequestModificationModel['newValue']> {
+    const employee = await getEmployeeById(data.employeeId, data.projectName);
+    const loaded = employee ? await loadAttendanceRules(employee, data.projectName) : null;
+    if (!loaded || 'error' in loaded) {
+        return null;
+    }
+
+    const hours = sumPunchPairs(workedHours);
+    const day = dayjs.tz(data.date ?? '', 'YYYY-MM-DD', data.timezone);
+    const { shiftType, shiftHours, attendanceLogic } = loaded.rules;
+    const value = calculateAttendanceValue(hours, calculateDailyWorkingHours(day, shiftType, shiftHours, data.timezone), attendanceLogic, null);
+    return value === 'P' || value === 'H' || value === 'A' ? value : null;
+}
+
+/**
+ * Hours covered by alternating Clock In / Clock Out punches; a trailing clock-in is ignored
+ * @param workedHours - Punches in chronological order
+ * @returns number - Worked hours
+ */
+function sumPunchPairs(workedHours: WorkedHoursModel[]): number {
+    let hours = 0;
+    for (let index = 0; index + 1 < workedHours.length; index += 2) {
+        hours += dayjs.utc(workedHours[index + 1]!.timestamp).diff(dayjs.utc(workedHours[index]!.timestamp), 'hours', true);
+    }
+    return hours;
+}
+
+// "08:00-12:00, 13:00-17:30" -> alternating Clock In / Clock Out punches on the given local date
+function parsePunchPairs(text: string, date: string, timezone: string): WorkedHoursModel[] | null {
+    const pairs = text.split(/[,;\n]+/).map(pair => pair.trim()).filter(Boolean);
+    if (pairs.length === 0 || pairs.length > MAX_PUNCH_PAIRS) {
+        return null;
+    }
+
+    const punches: WorkedHoursModel[] = [];
+    let previousEnd: dayjs.Dayjs | null = null;
+    for (const pair of pairs) {
+        const [from, to, ...rest] = pair.split(/\s*(?:-|–|to)\s*/i);
+        const start = parseLocalTime(from ?? '', date, timezone);
+        let end = parseLocalTime(to ?? '', date, timezone);
+        if (rest.length > 0 || !start || !end) {
+            return null;
+        }
+        // A pair ending before it starts runs past midnight
+        if (!end.isAfter(start)) {
+            end = end.add(1, 'day');
+        }
+        if (previousEnd && start.isBefore(previousEnd)) {
+            return null;
+        }
+        previousEnd = end;
+
+        for (const [type, time] of [['Clock In', start], ['Clock Out', end]] as const) {
+            punches.push({
+                id: randomUUID(),
+                timestamp: time.toISOString(),
+                type,
+                hour: formatHour(time, timezone),
+                origin: 'manual'
+            });
+        }
+    }
+    return punches;
+}
+
+async function createModificationRequest(chatId: number, data: CorrectionData, commentText: string | null): Promise<void> {
+    await conversations.end(chatId);
+    if (!data.date || !data.attendanceId) {
+        await sendMessage(chatId, '⌛ This correction has expired. Please start again with /correct.');
+        return;
+    }
+
+    const now = dayjs.utc().toISOString();
+    const day = dayjs.tz(data.date, 'YYYY-MM-DD', data.timezone);
+    const request: Omit<RequestModificationModel, 'id'> = {
+        timestamp: now,
+        requestId: `MR-${day.format('YYYYMMDD')}-${randomBytes(2).toString('hex').toUpperCase()}`,
+        parentAttendanceID: data.attendanceId,
+        uid: data.employeeUid,
+        status: 'Requested',
+        date: day.format(dateFormat),
+        day: day.date(),
+        oldValue: data.oldValue ?? null,
+        newValue: data.newValue ?? null,
+        oldWorkedHours: data.oldWorkedHours ?? [],
+        workedHours: data.workedHours ?? [],
+        comment: commentText
+            ? { id: randomUUID(), commentBy: data.employeeUid, timestamp: now, text: commentText }
+            : null,
+        reviewedBy: null,
+        reviewedDate: null,
+        hrComments: null
+    };
+
+    try {
+        const db = await getProjectDb(data.projectName);
+        await retryDatabaseOperation(async () => {
+            return await db.collection(MODIFICATION_REQUESTS_COLLECTION).add(request);
+        }, 2, 1000, data.projectName);
+    } catch (error) {
+        console.error('Error creating modification request:', error);
+        await sendMessage(chatId, '❌ Could not submit your correction. Please try again later.');
+        return;
+    }
+
+    const proposal = data.mode === 'punches'
+        ? request.workedHours.map(punch => punch.hour).join(' – ')
+        : `value ${request.newValue ?? '—'}`;
+    await sendMessage(
+        chatId,
+        `✅ Correction <b>${request.requestId}</b> for ${request.date} has been sent to HR (${proposal}).\n\nYou will be notified here when it is reviewed.`
+    );
+}
+
+async function loadSheets(uid: string, days: dayjs.Dayjs[], projectName: string): Promise<Map<string, AttendanceModel | null>> {
+    const months = [...new Set(days.map(day => day.format('YYYY-MM')))];
+    const sheets = await Promise.all(months.map(month => {
+        const first = dayjs.utc(`${month}-01`);
+        return getAttendanceByMonth(uid, first.year(), monthNames[first.month()] as AttendanceModel['month'], projectName);
+    }));
+    return new Map(months.map((month, index) => [month, sheets[index] ?? null]));
+}
+
+// Older sheets store values as a map with numeric keys
+function findDayEntry(attendance: AttendanceModel | null, day: number): DailyAttendance | null {
+    const values = Object.values(attendance?.values ?? {}) as (DailyAttendance | null)[];
+    return values.find(entry => entry?.day === day) ?? null;
+}
+
+// Notifies employees when HR approves or refuses their modification requests
+export class ModificationRequestWatcher {
+    private unsubscribers: (() => void)[] = [];
+    private isRunning = false;
+    // Decisions older than this are not announced (e.g. requests decided before the bot existed)
+    private readonly LOOKBACK_DAYS = 3;
+    // A claimed notification not confirmed as sent within this time may be claimed again (e.g. after a crash)
+    private readonly CLAIM_LEASE_MINUTES = 5;
+    // Failed sends are retried this many times in total, a minute apart
+    private readonly MAX_SEND_ATTEMPTS = 3;
+
+    async start(): Promise<void> {
+        this.isRunning = true;
+        const healthyDbs = await getHealthyDbInstances();
+        for (const [projectName, db] of Object.entries(healthyDbs)) {
+            this.watchProject(projectName, db);
+        }
+        console.log(`👀 Watching modification requests in ${Object.keys(healthyDbs).length} projects`);
+    }
+
+    stop(): void {
+        this.isRunning = false;
+        for (const unsubscribe of this.unsubscribers) {
+            unsubscribe();
+        }
+        this.unsubscribers = [];
+    }
+
+    private watchProject(projectName: string, db: firestore.Firestore): void {
+        if (!this.isRunning) {
+            return;
+        }
+        // Only requests reviewed recently; pending ones have no reviewedDate and are not loaded either
+        const cutoff = dayjs.utc().subtract(this.LOOKBACK_DAYS, 'day').toISOString();
+        const unsubscribe = db.collection(MODIFICATION_REQUESTS_COLLECTION)
+            .where('reviewedDate', '>=', cutoff)
+            .onSnapshot(snapshot => {
+                for (const change of snapshot.docChanges()) {
+                    if (change.type !== 'removed' && change.doc.get('status') !== 'Requested') {
+                        void this.notifyDecision(projectName, db, change.doc.ref);
+                    }
+                }
+            }, error => {
+                console.error(`Modification request listener failed for ${projectName}, retrying in 60s:`, error);
+                setTimeout(() => this.watchProject(projectName, db), 60000).unref();
+            });
+        this.unsubscribers.push(unsubscribe);
+    }
+
+    private async notifyDecision(projectName: string, db: firestore.Firestore, ref: firestore.DocumentReference): Promise<void> {
+        try {
+            // Claim the notification so it is sent once, even with several server instances.
+            // It only counts as sent once delivered; a failed send releases the claim for a retry.
+            const request = await db.runTransaction(async (tx) => {
+                const snap = await tx.get(ref);
+                const data = snap.data() as NotifiedModificationRequest | undefined;
+                if (!data || data.employeeNotifiedAt || data.status === 'Requested') {
+                    return null;
+                }
+                const decidedAt = dayjs.utc(data.reviewedDate || data.timestamp);
+                if (decidedAt.isValid() && dayjs.utc().diff(decidedAt, 'day') > this.LOOKBACK_DAYS) {
+                    return null;
+                }
+                const claimedAt = data.employeeNotifyClaimedAt ? dayjs.utc(data.employeeNotifyClaimedAt) : null;
+                if (claimedAt && dayjs.utc().diff(claimedAt, 'minute') < this.CLAIM_LEASE_MINUTES) {
+                    return null;
+                }
+                const attempts = data.employeeNotifyAttempts ?? 0;
+                if (attempts >= this.MAX_SEND_ATTEMPTS) {
+                    return null;
+                }
+                tx.update(ref, { employeeNotifyClaimedAt: dayjs.utc().toISOString(), employeeNotifyAttempts: attempts + 1 });
+                return data;
+            });
+            if (!request) {
+                return;
+            }
+
+            const employee = await getEmployeeByUid(request.uid, projectName);
+            if (employee?.telegramChatID) {
+                const approved = request.status === 'Approved';
+                const lines = [
+                    `${approved ? '✅' : '❌'} Your attendance correction <b>${escapeHtml(request.requestId)}</b> for ${escapeHtml(request.date)} was <b>${approved ? 'approved' : 'refused'}</b>.`
+                ];
+                if (request.hrComments) {
+                    lines.push('', `💬 HR: ${escapeHtml(request.hrComments)}`);
+                }
+                try {
+                    await sendMessage(parseInt(employee.telegramChatID), lines.join('\n'));
+                } catch (error) {
+                    console.error(`Error sending modification request decision to ${request.uid}:`, error);
+                    // Releasing the claim changes the document, so the listener picks it up again
+                    setTimeout(() => {
+                        ref.update({ employeeNotifyClaimedAt: firestore.FieldValue.delete() })
+                            .catch(releaseError => console.error(`Error releasing notification claim in ${projectName}:`, releaseError));
+                    }, 60000).unref();
+                    return;
+                }
+            }
+
+            await retryDatabaseOperation(async () => {
+                return await ref.update({ employeeNotifiedAt: dayjs.utc().toISOString() });
+            }, 2, 1000, projectName);
+        } catch (error) {
+            console.error(`Error notifying modification request decision in ${projectName}:`, error);
+        }
+    }
+}
+
+type NotifiedModificationRequest = RequestModificationModel & {
+    employeeNotifiedAt?: string;
+    employeeNotifyClaimedAt?: string;
+    employeeNotifyAttempts?: number;
+};
+
+// Export singleton instance
+export const modificationRequestWatcher = new ModificationRequestWatcher();
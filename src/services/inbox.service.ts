@@ -0,0 +1,366 @@
+import dayjs from 'dayjs';
+import type { firestore } from 'firebase-admin';
+import { sendMessage } from '../bot';
+import { getProjectDb } from '../firebase-config';
+import { RequestModificationModel } from '../models/attendance';
+import { EmployeeModel } from '../models/employee';
+import { LeaveModel } from '../models/leave';
+import { ObjectiveModel } from '../models/objective-model';
+import { OvertimeRequestModel } from '../models/overtime-request';
+import { InlineKeyboardMarkup } from '../types/telegram';
+import escapeHtml from '../util/escapeHtml';
+import { getRequestedModifications } from '../util/functions/attendance/attendance-service';
+import { getEmployeeById, getEmployees } from '../util/functions/employee/employee-service';
+import { getHrSettingsByType } from '../util/functions/hr-settings/hr-settings-service';
+import { getOpenLeaves } from '../util/functions/leave/leave-service';
+import { getCreatedObjectives } from '../util/functions/objective/objective-service';
+import { getPendingOvertimeRequests } from '../util/functions/overtime/overtime-service';
+import getFullName from '../util/getEmployeeFullName';
+import { conversations } from './conversation.service';
+
+const FLOW = 'inbox';
+// Items sent per /inbox; anything beyond is left to the dashboard
+const MAX_ITEMS = 15;
+// Firestore limit on the values of an 'in' query
+const MAX_IN_VALUES = 30;
+
+export type InboxKind = 'leave' | 'correction' | 'overtime' | 'objective';
+type InboxDecision = 'approve' | 'refuse';
+
+const INBOX_KINDS: Record<InboxKind, { collection: string; label: string; emoji: string }> = {
+    leave: { collection: 'leave', label: 'leave request', emoji: '🌴' },
+    correction: { collection: 'requestModifications', label: 'attendance correction', emoji: '✏️' },
+    overtime: { collection: 'overtimeRequest', label: 'overtime request', emoji: '⏱️' },
+    objective: { collection: 'objective', label: 'objective', emoji: '🎯' }
+};
+
+export interface InboxReviewer {
+    employeeUid: string;
+    projectName: string;
+}
+
+interface InboxItem {
+    kind: InboxKind;
+    id: string;
+    text: string;
+}
+
+interface InboxDecisionData extends Record<string, unknown> {
+    kind: InboxKind;
+    id: string;
+    decision: InboxDecision;
+    reviewerUid: string;
+    projectName: string;
+}
+
+// `forwarded` when the manager only endorsed the item and HR takes the final decision
+type DecisionResult = { status: 'decided'; reference: string; forwarded: boolean } | { status: 'not_found' | 'already_decided' | 'not_authorized' };
+
+/**
+ * Send the manager every item waiting for their decision, each with Approve / Refuse buttons
+ * @param chatId - Telegram chat ID
+ * @param employeeId - Manager's employee document ID
+ * @param projectName - Firebase project name the manager belongs to
+ */
+export async function showInbox(chatId: number, employeeId: string, projectName: string): Promise<void> {
+    const manager = await getEmployeeById(employeeId, projectName);
+    if (!manager) {
+        await sendMessage(chatId, '❌ Employee record not found.');
+        return;
+    }
+
+    const items = await loadInboxItems(manager, projectName);
+    if (items.length === 0) {
+        await sendMessage(chatId, '📭 Your inbox is empty. Nothing is waiting for your decision.');
+        return;
+    }
+
+    const counts = (Object.keys(INBOX_KINDS) as InboxKind[])
+        .map(kind => ({ kind, count: items.filter(item => item.kind === kind).length }))
+        .filter(({ count }) => count > 0)
+        .map(({ kind, count }) => `${INBOX_KINDS[kind].emoji} ${count} ${INBOX_KINDS[kind].label}${count > 1 ? 's' : ''}`);
+    await sendMessage(chatId, `📥 <b>Inbox</b>\n\n${counts.join('\n')}`);
+
+    for (const item of items.slice(0, MAX_ITEMS)) {
+        await sendMessage(chatId, item.text, {
+            inline_keyboard: [[
+                { text: '✅ Approve', callback_data: `inbox:approve:${item.kind}:${item.id}` },
+                { text: '❌ Refuse', callback_data: `inbox:refuse:${item.kind}:${item.id}` }
+            ]]
+        });
+    }
+    if (items.length > MAX_ITEMS) {
+        await sendMessage(chatId, `…and ${items.length - MAX_ITEMS} more. Decide on these first or open the dashboard.`);
+    }
+}
+
+/**
+ * Handle the inline buttons of the inbox (callback data starting with "inbox:")
+ * @param chatId - Telegram chat ID
+ * @param data - Callback data
+ * @param reviewer - Manager pressing the button
+ */
+export async function handleInboxCallback(chatId: number, data: string, reviewer: InboxReviewer): Promise<void> {
+    const [, action, kind, id] = data.split(':');
+
+    if (action === 'approve' || action === 'refuse') {
+        if (!kind || !(kind in INBOX_KINDS) || !id) {
+            return;
+        }
+        await conversations.start<InboxDecisionData>(chatId, FLOW, 'comment', {
+            kind: kind as InboxKind,
+            id,
+            decision: action,
+            reviewerUid: reviewer.employeeUid,
+            projectName: reviewer.projectName
+        });
+        const keyboard: InlineKeyboardMarkup = {
+            inline_keyboard: [[{ text: '⏭️ No comment', callback_data: 'inbox:skip' }, { text: '✖️ Cancel', callback_data: 'inbox:cancel' }]]
+        };
+        await sendMessage(
+            chatId,
+            `💬 ${action === 'approve' ? 'Approving' : 'Refusing'} this ${INBOX_KINDS[kind as InboxKind].label}. Reply with a comment, or continue without one.`,
+            keyboard
+        );
+        return;
+    }
+
+    const conversation = await conversations.get<InboxDecisionData>(chatId, FLOW);
+    if (!conversation) {
+        await sendMessage(chatId, '⌛ This decision has expired. Please open /inbox again.');
+        return;
+    }
+    if (action === 'cancel') {
+        await conversations.end(chatId);
+        await sendMessage(chatId, '✖️ Decision cancelled. The item stays in your inbox.');
+    } else if (action === 'skip') {
+        await decide(chatId, conversation.data, null);
+    }
+}
+
+/**
+ * Handle the comment typed after pressing Approve or Refuse
+ * @param chatId - Telegram chat ID
+ * @param text - Message text
+ * @returns Promise<boolean> - Whether the text belonged to the conversation
+ */
+export async function handleInboxText(chatId: number, text: string): Promise<boolean> {
+    const conversation = await conversations.get<InboxDecisionData>(chatId, FLOW);
+    if (!conversation) {
+        return false;
+    }
+    await decide(chatId, conversation.data, text.trim() || null);
+    return true;
+}
+
+async function loadInboxItems(manager: EmployeeModel, projectName: string): Promise<InboxItem[]> {
+    const [employees, leaveTypes, overtimeTypes, leaves, corrections, overtimes, objectives] = await Promise.all([
+        getEmployees(projectName),
+        getHrSettingsByType('leaveTypes', projectName),
+        getHrSettingsByType('overtimeTypes', projectName),
+        getOpenLeaves(projectName),
+        getRequestedModifications(projectName),
+        getPendingOvertimeRequests(projectName),
+        getCreatedObjectives(projectName)
+    ]);
+
+    const employeesByUid = new Map(employees.map(employee => [employee.uid, employee]));
+    const isReportee = (uid: string): boolean => isReporteeOf(manager, uid, employeesByUid.get(uid));
+    const nameOf = (uid: string | null): string => {
+        const employee = uid ? employeesByUid.get(uid) : undefined;
+        return employee ? escapeHtml(getFullName(employee).trim()) : 'Unknown employee';
+    };
+
+    // Leave and overtime requests reference their type by ID
+    const leaveTypeNames = new Map(leaveTypes.map(type => [type.id, type.name]));
+    const overtimeTypeNames = new Map(overtimeTypes.map(type => [type.id, type.overtimeType]));
+    // Oldest first, so nothing waits longer than it has to
+    const byTimestamp = <T extends { timestamp: string }>(a: T, b: T): number => (a.timestamp ?? '').localeCompare(b.timestamp ?? '');
+
+    return [
+        ...leaves.filter(leave => isReportee(leave.employeeID)).sort(byTimestamp)
+            .map(leave => ({ kind: 'leave' as const, id: leave.id, text: formatLeave(leave, leaveTypeNames.get(leave.leaveType) ?? leave.leaveType, nameOf) })),
+        ...corrections.filter(request => !request.managerDecision && isReportee(request.uid)).sort(byTimestamp)
+            .map(request => ({ kind: 'correction' as const, id: request.id, text: formatCorrection(request, nameOf) })),
+        // Overtime the manager requested themselves is decided by HR
+        ...overtimes.filter(request => !request.managerDecision && request.requestedBy !== manager.uid && (request.employeeUids ?? []).some(isReportee)).sort(byTimestamp)
+            .map(request => ({ kind: 'overtime' as const, id: request.id, text: formatOvertime(request, overtimeTypeNames.get(request.overtimeType) ?? request.overtimeType, nameOf) })),
+        // Objectives the manager set themselves wait for the employee's acknowledgement instead
+        ...objectives.filter(objective => objective.createdBy !== manager.uid && isReportee(objective.employee)).sort(byTimestamp)
+            .map(objective => ({ kind: 'objective' as const, id: objective.id, text: formatObjective(objective, nameOf) }))
+    ];
+}
+
+function formatLeave(leave: LeaveModel, leaveTypeName: string, nameOf: (uid: string | null) => string): string {
+    const lines = [
+        `🌴 <b>Leave request ${escapeHtml(leave.leaveRequestID ?? '')}</b>`,
+        `👤 ${nameOf(leave.employeeID)}`,
+        `${escapeHtml(leaveTypeName ?? '')}: ${escapeHtml(leave.firstDayOfLeave)} → ${escapeHtml(leave.lastDayOfLeave)} (${leave.numberOfLeaveDaysRequested} day${leave.numberOfLeaveDaysRequested === 1 ? '' : 's'})`
+    ];
+    if (leave.standIn) {
+        lines.push(`Stand-in: ${nameOf(leave.standIn)}`);
+    }
+    if (leave.reason) {
+        lines.push(`Reason: ${escapeHtml(leave.reason)}`);
+    }
+    return lines.join('\n');
+}
+
+function formatCorrection(request: RequestModificationModel, nameOf: (uid: string | null) => string): string {
+    const punches = (request.workedHours ?? []).map(punch => punch.hour).join(' – ') || 'none';
+    const lines = [
+        `✏️ <b>Attendance correction ${escapeHtml(request.requestId ?? '')}</b>`,
+        `👤 ${nameOf(request.uid)}`,
+        `📅 ${escapeHtml(request.date)}: value ${request.oldValue ?? '—'} → ${request.newValue ?? request.oldValue ?? '—'}`,
+        `🕘 Punches: ${escapeHtml(punches)}`
+    ];
+    if (request.comment?.text) {
+        lines.push(`💬 ${escapeHtml(request.comment.text)}`);
+    }
+    return lines.join('\n');
+}
+
+function formatOvertime(request: OvertimeRequestModel, overtimeTypeName: string, nameOf: (uid: string | null) => string): string {
+    return [
+        `⏱️ <b>Overtime request ${escapeHtml(request.overtimeId ?? '')}</b>`,
+        `👥 ${(request.employeeUids ?? []).map(nameOf).join(', ')}`,
+        `📅 ${escapeHtml(request.overtimeDate)}, ${escapeHtml(request.overtimeStartTime)} – ${escapeHtml(request.overtimeEndTime)} (${request.duration}h, ${escapeHtml(overtimeTypeName ?? '')})`,
+        `Goal: ${escapeHtml(request.overtimeGoal ?? '')}`,
+        `Justification: ${escapeHtml(request.overtimeJustification ?? '')}`,
+        `Requested by ${nameOf(request.requestedBy)}`
+    ].join('\n');
+}
+
+function formatObjective(objective: ObjectiveModel, nameOf: (uid: string | null) => string): string {
+    return [
+        `🎯 <b>Objective: ${escapeHtml(objective.title ?? '')}</b>`,
+        `👤 ${nameOf(objective.employee)}`,
+        escapeHtml(objective.SMARTObjective ?? ''),
+        `Target date: ${escapeHtml(objective.targetDate ?? '—')}`
+    ].join('\n');
+}
+
+async function decide(chatId: number, data: InboxDecisionData, comment: string | null): Promise<void> {
+    await conversations.end(chatId);
+
+    const { label } = INBOX_KINDS[data.kind];
+    let result: DecisionResult;
+    try {
+        const db = await getProjectDb(data.projectName);
+        result = await db.runTransaction(tx => applyDecision(tx, db, data, comment));
+    } catch (error) {
+        console.error(`Error deciding ${data.kind} ${data.id}:`, error);
+        await sendMessage(chatId, `❌ Could not save your decision on this ${label}. Please try again later.`);
+        return;
+    }
+
+    if (result.status === 'decided') {
+        const forwarded = result.forwarded ? ' HR takes the final decision.' : '';
+        await sendMessage(chatId, `${data.decision === 'approve' ? '✅ Approved' : '❌ Refused'} ${label} <b>${escapeHtml(result.reference)}</b>.${forwarded}`);
+    } else if (result.status === 'already_decided') {
+        await sendMessage(chatId, `ℹ️ This ${label} has already been decided.`);
+    } else if (result.status === 'not_authorized') {
+        await sendMessage(chatId, `🚫 You are not allowed to decide on this ${label}.`);
+    } else {
+        await sendMessage(chatId, `❌ This ${label} no longer exists.`);
+    }
+}
+
+// A reportee of the manager, never the manager themselves
+function isReporteeOf(manager: EmployeeModel, uid: string, employee: EmployeeModel | undefined): boolean {
+    return uid !== manager.uid && (employee?.reportingLineManager === manager.uid || (manager.reportees ?? []).includes(uid));
+}
+
+// Whether any of the employees reports to the reviewer, read within the transaction
+async function hasReportee(tx: firestore.Transaction, db: firestore.Firestore, reviewer: EmployeeModel, uids: string[]): Promise<boolean> {
+    const candidates = [...new Set(uids.filter(Boolean))].slice(0, MAX_IN_VALUES);
+    if (candidates.length === 0) {
+        return false;
+    }
+    const snap = await tx.get(db.collection('employee').where('uid', 'in', candidates));
+    const employeesByUid = new Map(snap.docs.map(doc => [doc.data().uid as string, doc.data() as EmployeeModel]));
+    return candidates.some(uid => isReporteeOf(reviewer, uid, employeesByUid.get(uid)));
+}
+
+// Write the decision back with the reviewer and timestamp, unless someone decided first.
+// The callback only carries the item ID, so the reporting line is checked again here.
+async function applyDecision(
+    tx: firestore.Transaction,
+    db: firestore.Firestore,
+    data: InboxDecisionData,
+    comment: string | null
+): Promise<DecisionResult> {
+    const ref = db.collection(INBOX_KINDS[data.kind].collection).doc(data.id);
+    const snap = await tx.get(ref);
+    if (!snap.exists) {
+        return { status: 'not_found' };
+    }
+    const reviewerSnap = await tx.get(db.collection('employee').where('uid', '==', data.reviewerUid).limit(1));
+    const reviewerDoc = reviewerSnap.docs[0];
+    if (!reviewerDoc) {
+        return { status: 'not_authorized' };
+    }
+    const reviewer = reviewerDoc.data() as EmployeeModel;
+
+    const approved = data.decision === 'approve';
+    const review = { reviewedBy: data.reviewerUid, reviewedDate: dayjs.utc().toISOString() };
+    // Corrections and overtime keep their status for HR; the manager's decision is stored beside it
+    const endorsement = {
+        managerDecision: approved ? 'Approved' : 'Refused',
+        managerComment: comment,
+        managerReviewedBy: data.reviewerUid,
+        managerReviewedDate: review.reviewedDate
+    };
+
+    switch (data.kind) {
+        case 'leave': {
+            const leave = snap.data() as LeaveModel;
+            if (leave.leaveStage !== 'Open') {
+                return { status: 'already_decided' };
+            }
+            if (!await hasReportee(tx, db, reviewer, [leave.employeeID])) {
+                return { status: 'not_authorized' };
+            }
+            const comments = comment
+                ? [...(leave.comments ?? []), { comment, date: review.reviewedDate, by: data.reviewerUid }]
+                : leave.comments ?? [];
+            tx.update(ref, { ...review, leaveStage: approved ? 'Approved' : 'Refused', comments });
+            return { status: 'decided', reference: leave.leaveRequestID ?? data.id, forwarded: false };
+        }
+        case 'correction': {
+            const request = snap.data() as RequestModificationModel;
+            if (request.status !== 'Requested' || request.managerDecision) {
+                return { status: 'already_decided' };
+            }
+            if (!await hasReportee(tx, db, reviewer, [request.uid])) {
+                return { status: 'not_authorized' };
+            }
+            // HR decides and applies the correction to the attendance sheet
+            tx.update(ref, endorsement);
+            return { status: 'decided', reference: request.requestId ?? data.id, forwarded: true };
+        }
+        case 'overtime': {
+            const request = snap.data() as OvertimeRequestModel;
+            if (request.status !== 'pending' || request.managerDecision) {
+                return { status: 'already_decided' };
+            }
+            if (request.requestedBy === reviewer.uid || !await hasReportee(tx, db, reviewer, request.employeeUids ?? [])) {
+                return { status: 'not_authorized' };
+            }
+            tx.update(ref, endorsement);
+            return { status: 'decided', reference: request.overtimeId ?? data.id, forwarded: true };
+        }
+        case 'objective': {
+            const objective = snap.data() as ObjectiveModel;
+            if (objective.status !== 'Created') {
+                return { status: 'already_decided' };
+            }
+            if (objective.createdBy === reviewer.uid || !await hasReportee(tx, db, reviewer, [objective.employee])) {
+                return { status: 'not_authorized' };
+            }
+            const managerFeedback = comment ? [...(objective.managerFeedback ?? []), comment] : objective.managerFeedback ?? [];
+            tx.update(ref, { ...review, status: approved ? 'Approved' : 'Refused', managerFeedback });
+            return { status: 'decided', reference: objective.title ?? data.id, forwarded: false };
+        }
+    }
+}
@@ -0,0 +1,154 @@
+import dayjs from 'dayjs';
+import { EmployeeModel } from '../models/employee';
+import { AccrualConfigurationModel, EligibleLeaveDaysModel } from '../models/hrSettings';
+import { LeaveModel } from '../models/leave';
+import { DEFAULT_TZ, dateFormat, parseDate } from '../util/dayjs_format';
+import escapeHtml from '../util/escapeHtml';
+import { getHrSettingsByType } from '../util/functions/hr-settings/hr-settings-service';
+import { getEmployeeLeavesByStage } from '../util/functions/leave/leave-service';
+
+export interface LeaveBalance {
+    balanceLeaveDays: number;
+    accrualLeaveDays: number;
+    eligibleLeaveDays: number;
+    // Approved days this calendar year per leave type name
+    consumedByType: { leaveType: string; days: number }[];
+    pendingDays: number;
+    yearsOfService: number | null;
+    // Next EligibleLeaveDaysModel tier the employee will reach
+    nextTier: { date: dayjs.Dayjs; numberOfYears: number; numberOfDays: number } | null;
+    // Days above the carry-over limit that expire at the end of the year unless used
+    atRisk: { days: number; expiresOn: dayjs.Dayjs; limitUnusedDays: number; carriedOverExpiresOn: dayjs.Dayjs } | null;
+    // Days carried over from last year that are still left, and when they expire
+    carriedOver: { days: number; expiresOn: dayjs.Dayjs } | null;
+}
+
+/**
+ * Gather the leave figures of an employee: balance, consumption this year, next tier and days at risk
+ * @param employee - Employee record
+ * @param projectName - Firebase project name the employee belongs to
+ * @returns Promise<LeaveBalance> - Leave balance details
+ */
+export async function getLeaveBalance(employee: EmployeeModel, projectName: string): Promise<LeaveBalance> {
+    const timezone = employee.timezone || DEFAULT_TZ;
+    const today = dayjs.utc().tz(timezone).startOf('day');
+
+    const [leaveTypes, tiers, accrualConfigurations, approvedLeaves, openLeaves] = await Promise.all([
+        getHrSettingsByType('leaveTypes', projectName),
+        getHrSettingsByType('eligibleLeaveDays', projectName),
+        getHrSettingsByType('accrualConfigurations', projectName),
+        getEmployeeLeavesByStage(employee.uid, 'Approved', projectName),
+        getEmployeeLeavesByStage(employee.uid, 'Open', projectName)
+    ]);
+
+    // Rolled-back leave gave its days back
+    const isCurrentYear = (leave: LeaveModel) => leave.rollbackStatus !== 'Accepted'
+        && parseDate(leave.firstDayOfLeave, timezone).year() === today.year();
+
+    const consumed = new Map<string, number>();
+    for (const leave of approvedLeaves.filter(isCurrentYear)) {
+        const name = leaveTypes.find(type => type.id === leave.leaveType)?.name ?? leave.leaveType;
+        consumed.set(name, (consumed.get(name) ?? 0) + (leave.numberOfLeaveDaysRequested ?? 0));
+    }
+
+    const hireDate = employee.hireDate ? parseDate(employee.hireDate, timezone) : null;
+    const yearsOfService = hireDate?.isValid() ? today.diff(hireDate, 'year') : null;
+
+    const balanceLeaveDays = employee.balanceLeaveDays ?? 0;
+    const accrualConfiguration = findAccrualConfiguration(accrualConfigurations);
+    const excess = accrualConfiguration ? balanceLeaveDays - accrualConfiguration.limitUnusedDays : 0;
+    // Carried-over days must be taken within `limitMonths` of the new year
+    const carryOverDeadline = (year: dayjs.Dayjs) => year.startOf('year').add(accrualConfiguration?.limitMonths ?? 0, 'month').subtract(1, 'day');
+    // Leave is taken from the carried-over days first, so whatever the balance holds beyond this year's accrual is left of them
+    const carriedOverDays = accrualConfiguration
+        ? Math.min(accrualConfiguration.limitUnusedDays, balanceLeaveDays - (employee.accrualLeaveDays ?? 0))
+        : 0;
+
+    return {
+        balanceLeaveDays,
+        accrualLeaveDays: employee.accrualLeaveDays ?? 0,
+        eligibleLeaveDays: employee.eligibleLeaveDays ?? 0,
+        consumedByType: [...consumed.entries()].map(([leaveType, days]) => ({ leaveType, days })),
+        pendingDays: openLeaves.reduce((total, leave) => total + (leave.numberOfLeaveDaysRequested ?? 0), 0),
+        yearsOfService,
+        nextTier: hireDate && yearsOfService !== null ? findNextTier(tiers, hireDate, yearsOfService) : null,
+        atRisk: accrualConfiguration && excess > 0
+            ? {
+                days: excess,
+                expiresOn: today.endOf('year'),
+                limitUnusedDays: accrualConfiguration.limitUnusedDays,
+                carriedOverExpiresOn: carryOverDeadline(today.add(1, 'year'))
+            }
+            : null,
+        carriedOver: accrualConfiguration && carriedOverDays > 0 && !today.isAfter(carryOverDeadline(today), 'day')
+            ? { days: carriedOverDays, expiresOn: carryOverDeadline(today) }
+            : null
+    };
+}
+
+/**
+ * Format the /balance reply
+ * @param balance - Leave balance details
+ * @returns string - HTML message
+ */
+export function buildLeaveBalanceMessage(balance: LeaveBalance): string {
+    const lines = [
+        '🌴 <b>Leave balance</b>',
+        '',
+        `Balance: <b>${formatDays(balance.balanceLeaveDays)}</b>`,
+        `Accrued: ${formatDays(balance.accrualLeaveDays)}`,
+        `Eligible per year: ${formatDays(balance.eligibleLeaveDays)}`
+    ];
+    if (balance.pendingDays > 0) {
+        lines.push(`Waiting for approval: ${formatDays(balance.pendingDays)}`);
+    }
+
+    lines.push('', `📊 <b>Taken this year</b>`);
+    if (balance.consumedByType.length === 0) {
+        lines.push('• No approved leave yet');
+    } else {
+        for (const { leaveType, days } of balance.consumedByType) {
+            lines.push(`• ${escapeHtml(leaveType)}: ${formatDays(days)}`);
+        }
+    }
+
+    if (balance.nextTier) {
+        const { date, numberOfYears, numberOfDays } = balance.nextTier;
+        lines.push('', `📈 From ${date.format(dateFormat)} (${numberOfYears} years of service) you will be eligible for ${formatDays(numberOfDays)} per year.`);
+    }
+
+    if (balance.carriedOver) {
+        const { days, expiresOn } = balance.carriedOver;
+        lines.push('', `⏳ ${formatDays(days)} carried over from last year will expire on ${expiresOn.format(dateFormat)} unless used.`);
+    }
+
+    if (balance.atRisk) {
+        const { days, expiresOn, limitUnusedDays, carriedOverExpiresOn } = balance.atRisk;
+        lines.push(
+            '',
+            `⚠️ <b>${formatDays(days)} at risk</b>: only ${formatDays(limitUnusedDays)} can be carried over, so the rest expires on ${expiresOn.format(dateFormat)} unless used.`,
+            `The days carried over must then be taken by ${carriedOverExpiresOn.format(dateFormat)}.`
+        );
+    }
+
+    return lines.join('\n');
+}
+
+// Several configurations may have been saved over time; the latest one applies
+function findAccrualConfiguration(configurations: AccrualConfigurationModel[]): AccrualConfigurationModel | undefined {
+    return [...configurations]
+        .sort((a, b) => (b.updatedAt ?? b.createdAt ?? '').localeCompare(a.updatedAt ?? a.createdAt ?? ''))[0];
+}
+
+// Tiers give `numberOfDays` per year once `numberOfYears` of service are reached
+function findNextTier(tiers: EligibleLeaveDaysModel[], hireDate: dayjs.Dayjs, yearsOfService: number): LeaveBalance['nextTier'] {
+    const next = tiers
+        .filter(tier => tier.numberOfYears > yearsOfService)
+        .sort((a, b) => a.numberOfYears - b.numberOfYears)[0];
+    return next ? { date: hireDate.add(next.numberOfYears, 'year'), numberOfYears: next.numberOfYears, numberOfDays: next.numberOfDays } : null;
+}
+
+function formatDays(days: number): string {
+    const rounded = Math.round(days * 100) / 100;
+    return `${rounded} day${rounded === 1 ? '' : 's'}`;
+}
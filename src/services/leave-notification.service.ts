@@ -0,0 +1,316 @@
+import dayjs from 'dayjs';
+import type { firestore } from 'firebase-admin';
+import { sendMessage } from '../bot';
+import { getHealthyDbInstances } from '../firebase-config';
+import { EmployeeModel } from '../models/employee';
+import { LeaveModel } from '../models/leave';
+import clampSetting from '../util/clampSetting';
+import { DEFAULT_TZ, parseDate } from '../util/dayjs_format';
+import escapeHtml from '../util/escapeHtml';
+import { claimOnce } from '../util/functions/claim/claim-service';
+import { getEmployeeByUid, getEmployees } from '../util/functions/employee/employee-service';
+import { getHrSettingById, getHrSettingsByType } from '../util/functions/hr-settings/hr-settings-service';
+import { getApprovedLeaves } from '../util/functions/leave/leave-service';
+import getEmployeeFullName from '../util/getEmployeeFullName';
+
+// Stage and rollback status last announced, stored on the leave document
+type NotifiedLeave = LeaveModel & { notifiedStage?: LeaveModel['leaveStage']; notifiedRollbackStatus?: LeaveModel['rollbackStatus'] };
+
+interface LeaveChange {
+    leave: NotifiedLeave;
+    stageChanged: boolean;
+    rollbackChanged: boolean;
+}
+
+interface LeaveParticipants {
+    requester: EmployeeModel | null;
+    standIn: EmployeeModel | null;
+    manager: EmployeeModel | null;
+    leaveTypeName: string;
+}
+
+export class LeaveNotificationService {
+    private intervalId?: NodeJS.Timeout | null;
+    private isRunning = false;
+    private unsubscribers: (() => void)[] = [];
+    // State of older leave seen when a listener starts ("project:docId"), treated as already announced
+    private baseline = new Map<string, Pick<LeaveModel, 'leaveStage' | 'rollbackStatus'>>();
+
+    private readonly FEATURE_ENABLED = process.env.LEAVE_NOTIFICATIONS_ENABLED !== 'false';
+    private readonly CHECK_INTERVAL_MINUTES = 30;
+    // Local hour (DEFAULT_TZ) at which stand-in reminders and welcome-back messages are sent
+    private readonly REMINDER_HOUR = clampSetting(process.env.LEAVE_REMINDER_HOUR, 9, 0, 23);
+    // One document per project and day, so reminders go out once even across restarts
+    private readonly REMINDERS_COLLECTION = 'leaveReminders';
+    // Decisions already in the database when the listener starts are only announced if this recent
+    private readonly LOOKBACK_DAYS = 3;
+
+    startMonitoring(): void {
+        if (this.isRunning) {
+            console.log('Leave notifications already running');
+            return;
+        }
+
+        if (!this.FEATURE_ENABLED) {
+            console.log('Leave notifications feature is disabled');
+            return;
+        }
+
+        console.log(`Starting leave notification service (reminders at ${this.REMINDER_HOUR}:00 ${DEFAULT_TZ})`);
+        this.isRunning = true;
+
+        this.watchProjects().catch((error) => {
+            console.error('Error starting leave listeners:', error);
+        });
+
+        this.intervalId = setInterval(() => {
+            this.runReminderCheck();
+        }, this.CHECK_INTERVAL_MINUTES * 60 * 1000);
+    }
+
+    stopMonitoring(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        for (const unsubscribe of this.unsubscribers) {
+            unsubscribe();
+        }
+        this.unsubscribers = [];
+        this.baseline.clear();
+        this.isRunning = false;
+        console.log('Leave notification service stopped');
+    }
+
+    isMonitoring(): boolean {
+        return this.isRunning;
+    }
+
+    private async watchProjects(): Promise<void> {
+        const healthyDbs = await getHealthyDbInstances();
+        for (const [projectName, db] of Object.entries(healthyDbs)) {
+            this.watchProject(projectName, db);
+        }
+        console.log(`👀 Watching leave requests in ${Object.keys(healthyDbs).length} projects`);
+    }
+
+    private watchProject(projectName: string, db: firestore.Firestore): void {
+        if (!this.isRunning) {
+            return;
+        }
+
+        let initialSnapshot = true;
+        const unsubscribe = db.collection('leave')
+            .where('leaveStage', 'in', ['Approved', 'Refused', 'Cancelled'])
+            .onSnapshot(snapshot => {
+                for (const change of snapshot.docChanges()) {
+                    if (change.type === 'removed') {
+                        continue;
+                    }
+                    const leave = change.doc.data() as LeaveModel;
+                    const key = `${projectName}:${change.doc.id}`;
+                    if (initialSnapshot && !this.isRecent(leave)) {
+                        this.baseline.set(key, { leaveStage: leave.leaveStage, rollbackStatus: leave.rollbackStatus ?? 'N/A' });
+                        continue;
+                    }
+                    void this.notifyChange(projectName, db, change.doc.ref, this.baseline.get(key));
+                }
+                initialSnapshot = false;
+            }, error => {
+                console.error(`Leave listener failed for ${projectName}, retrying in 60s:`, error);
+                setTimeout(() => this.watchProject(projectName, db), 60000).unref();
+            });
+        this.unsubscribers.push(unsubscribe);
+    }
+
+    // Whether a leave already decided at startup was decided recently enough to announce
+    private isRecent(leave: LeaveModel): boolean {
+        const changedAt = dayjs.utc(leave.reviewedDate || leave.timestamp);
+        return changedAt.isValid() && dayjs.utc().diff(changedAt, 'day') <= this.LOOKBACK_DAYS;
+    }
+
+    private async notifyChange(
+        projectName: string,
+        db: firestore.Firestore,
+        ref: firestore.DocumentReference,
+        baseline?: Pick<LeaveModel, 'leaveStage' | 'rollbackStatus'>
+    ): Promise<void> {
+        try {
+            // Claim the change so it is announced once, even with several server instances
+            const change = await db.runTransaction(async (tx): Promise<LeaveChange | null> => {
+                const snap = await tx.get(ref);
+                const leave = snap.data() as NotifiedLeave | undefined;
+                if (!leave) {
+                    return null;
+                }
+                const rollbackStatus = leave.rollbackStatus ?? 'N/A';
+                const stageChanged = leave.leaveStage !== 'Open'
+                    && leave.notifiedStage !== leave.leaveStage
+                    && baseline?.leaveStage !== leave.leaveStage;
+                const rollbackChanged = rollbackStatus !== 'N/A'
+                    && (leave.notifiedRollbackStatus ?? 'N/A') !== rollbackStatus
+                    && baseline?.rollbackStatus !== rollbackStatus;
+                if (!stageChanged && !rollbackChanged) {
+                    return null;
+                }
+                tx.update(ref, { notifiedStage: leave.leaveStage, notifiedRollbackStatus: rollbackStatus });
+                return { leave, stageChanged, rollbackChanged };
+            });
+            if (!change) {
+                return;
+            }
+
+            const participants = await this.loadParticipants(change.leave, projectName);
+            if (change.stageChanged) {
+                await this.notifyStageChange(change.leave, participants);
+            }
+            if (change.rollbackChanged) {
+                await this.notifyRollbackChange(change.leave, participants);
+            }
+        } catch (error) {
+            console.error(`Error notifying leave change in ${projectName}:`, error);
+        }
+    }
+
+    private async loadParticipants(leave: LeaveModel, projectName: string): Promise<LeaveParticipants> {
+        const [requester, standIn, leaveType] = await Promise.all([
+            getEmployeeByUid(leave.employeeID, projectName),
+            leave.standIn ? getEmployeeByUid(leave.standIn, projectName) : Promise.resolve(null),
+            getHrSettingById('leaveTypes', leave.leaveType, projectName)
+        ]);
+        const manager = requester?.reportingLineManager ? await getEmployeeByUid(requester.reportingLineManager, projectName) : null;
+        return { requester, standIn, manager, leaveTypeName: leaveType?.name ?? leave.leaveType };
+    }
+
+    private async notifyStageChange(leave: NotifiedLeave, { requester, standIn, manager, leaveTypeName }: LeaveParticipants): Promise<void> {
+        const period = this.describePeriod(leave, leaveTypeName);
+        const requesterName = requester ? escapeHtml(getEmployeeFullName(requester)) : 'An employee';
+        const lastComment = leave.comments?.[leave.comments.length - 1]?.comment;
+        const comment = lastComment ? `\n\n💬 ${escapeHtml(lastComment)}` : '';
+        // A manager deciding from the bot already knows the outcome
+        const notifyManager = manager && manager.uid !== leave.reviewedBy;
+
+        switch (leave.leaveStage) {
+            case 'Approved':
+                await this.notify(requester, `✅ Your leave request <b>${leave.leaveRequestID}</b> was <b>approved</b>.\n\n${period}${comment}`);
+                await this.notify(standIn, `🤝 You will stand in for <b>${requesterName}</b> during their leave.\n\n${period}`);
+                if (notifyManager) {
+                    await this.notify(manager, `ℹ️ ${requesterName}'s leave request <b>${leave.leaveRequestID}</b> was approved.\n\n${period}`);
+                }
+                return;
+            case 'Refused':
+                await this.notify(requester, `❌ Your leave request <b>${leave.leaveRequestID}</b> was <b>refused</b>.\n\n${period}${comment}`);
+                if (notifyManager) {
+                    await this.notify(manager, `ℹ️ ${requesterName}'s leave request <b>${leave.leaveRequestID}</b> was refused.\n\n${period}`);
+                }
+                return;
+            case 'Cancelled':
+                await this.notify(requester, `🚫 Your leave request <b>${leave.leaveRequestID}</b> was <b>cancelled</b>.\n\n${period}`);
+                // The stand-in was only told about approved leave
+                if (leave.notifiedStage === 'Approved') {
+                    await this.notify(standIn, `🚫 ${requesterName}'s leave was cancelled; you no longer need to stand in.\n\n${period}`);
+                }
+                if (notifyManager) {
+                    await this.notify(manager, `ℹ️ ${requesterName}'s leave request <b>${leave.leaveRequestID}</b> was cancelled.\n\n${period}`);
+                }
+                return;
+        }
+    }
+
+    private async notifyRollbackChange(leave: LeaveModel, { requester, standIn, manager, leaveTypeName }: LeaveParticipants): Promise<void> {
+        const period = this.describePeriod(leave, leaveTypeName);
+        const requesterName = requester ? escapeHtml(getEmployeeFullName(requester)) : 'An employee';
+
+        switch (leave.rollbackStatus) {
+            case 'Requested':
+                await this.notify(manager, `↩️ ${requesterName} asked to roll back leave <b>${leave.leaveRequestID}</b>.\n\n${period}\n\nPlease review it on the dashboard.`);
+                await this.notify(requester, `↩️ Your rollback request for leave <b>${leave.leaveRequestID}</b> was sent to your manager.`);
+                return;
+            case 'Accepted':
+                await this.notify(requester, `✅ The rollback of your leave <b>${leave.leaveRequestID}</b> was <b>accepted</b>. The days return to your balance.`);
+                await this.notify(standIn, `↩️ ${requesterName}'s leave was rolled back; you no longer need to stand in.\n\n${period}`);
+                return;
+            case 'Refused':
+                await this.notify(requester, `❌ The rollback of your leave <b>${leave.leaveRequestID}</b> was <b>refused</b>. The leave stays as approved.`);
+                return;
+        }
+    }
+
+    private describePeriod(leave: LeaveModel, leaveTypeName: string): string {
+        return [
+            `🌴 ${escapeHtml(leaveTypeName)}: ${leave.firstDayOfLeave} → ${leave.lastDayOfLeave} (${leave.numberOfLeaveDaysRequested} days)`,
+            `Back on ${leave.dateOfReturn}`
+        ].join('\n');
+    }
+
+    private async notify(employee: EmployeeModel | null, message: string): Promise<void> {
+        if (!employee?.telegramChatID) {
+            return;
+        }
+        try {
+            await sendMessage(parseInt(employee.telegramChatID), message);
+        } catch (error) {
+            console.error(`Error sending leave notification to ${employee.uid}:`, error);
+        }
+    }
+
+    private async runReminderCheck(): Promise<void> {
+        const now = dayjs.utc().tz(DEFAULT_TZ);
+        if (now.hour() < this.REMINDER_HOUR) {
+            return;
+        }
+
+        try {
+            const healthyDbs = await getHealthyDbInstances();
+            const today = now.format('YYYY-MM-DD');
+            for (const projectName of Object.keys(healthyDbs)) {
+                try {
+                    if (!await claimOnce(projectName, this.REMINDERS_COLLECTION, today)) {
+                        continue;
+                    }
+                    await this.sendDailyReminders(projectName, now);
+                } catch (error) {
+                    console.error(`Error sending leave reminders for ${projectName}:`, error);
+                }
+            }
+        } catch (error) {
+            console.error('Error in leave reminder check:', error);
+        }
+    }
+
+    // Stand-ins are reminded the day before the leave starts; employees are welcomed back on their return day
+    private async sendDailyReminders(projectName: string, now: dayjs.Dayjs): Promise<void> {
+        const [leaves, employees, leaveTypes] = await Promise.all([
+            getApprovedLeaves(projectName),
+            getEmployees(projectName),
+            getHrSettingsByType('leaveTypes', projectName)
+        ]);
+        const today = now.format('YYYY-MM-DD');
+        const tomorrow = now.add(1, 'day').format('YYYY-MM-DD');
+        const findEmployee = (uid: string | null) => (uid ? employees.find(employee => employee.uid === uid) ?? null : null);
+
+        let sent = 0;
+        for (const leave of leaves.filter(candidate => candidate.rollbackStatus !== 'Accepted')) {
+            const requester = findEmployee(leave.employeeID);
+            const requesterName = requester ? escapeHtml(getEmployeeFullName(requester)) : 'A colleague';
+            const leaveTypeName = leaveTypes.find(type => type.id === leave.leaveType)?.name ?? leave.leaveType;
+
+            if (leave.standIn && parseDate(leave.firstDayOfLeave, DEFAULT_TZ).format('YYYY-MM-DD') === tomorrow) {
+                await this.notify(
+                    findEmployee(leave.standIn),
+                    `🤝 Reminder: from tomorrow you stand in for <b>${requesterName}</b>.\n\n${this.describePeriod(leave, leaveTypeName)}`
+                );
+                sent++;
+            }
+            if (parseDate(leave.dateOfReturn, DEFAULT_TZ).format('YYYY-MM-DD') === today) {
+                await this.notify(requester, `👋 Welcome back${requester?.firstName ? `, ${escapeHtml(requester.firstName)}` : ''}! We hope you enjoyed your leave.\n\nDon't forget to /clockin when you start.`);
+                sent++;
+            }
+        }
+
+        console.log(`🌴 Sent ${sent} leave reminders for ${projectName}`);
+    }
+}
+
+// Export singleton instance
+export const leaveNotificationService = new LeaveNotificationService();
@@ -0,0 +1,529 @@
+import { randomBytes, randomUUID } from 'crypto';
+import dayjs from 'dayjs';
+import { bot, sendMessage } from '../bot';
+import { getProjectBucket, getProjectDb, retryDatabaseOperation } from '../firebase-config';
+import { EmployeeModel } from '../models/employee';
+import { LeaveModel } from '../models/leave';
+import { InlineKeyboardButton, InlineKeyboardMarkup, TelegramMessage } from '../types/telegram';
+import { days } from '../util/calculateDailyWorkingHours';
+import { DEFAULT_TZ, dateFormat, parseDate } from '../util/dayjs_format';
+import escapeHtml from '../util/escapeHtml';
+import { getEmployeeById, getEmployees } from '../util/functions/employee/employee-service';
+import { getHrSettingsByType } from '../util/functions/hr-settings/hr-settings-service';
+import { getEmployeeLeavesByStage } from '../util/functions/leave/leave-service';
+import getFullName from '../util/getEmployeeFullName';
+import { buildCalendarKeyboard } from '../util/inlineCalendar';
+import { loadAttendanceRules } from './attendance-clock.service';
+import { conversations } from './conversation.service';
+
+const FLOW = 'leave';
+const LEAVE_COLLECTION = 'leave';
+// Requests can be made up to this many months ahead
+const MAX_MONTHS_AHEAD = 12;
+// Stand-in candidates shown per page of buttons
+const STAND_INS_PER_PAGE = 20;
+// Telegram bots can only download files up to 20 MB
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+// Used when the employee has no shift type
+const DEFAULT_WORKING_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+
+interface LeaveRequestData extends Record<string, unknown> {
+    employeeId: string;
+    employeeUid: string;
+    projectName: string;
+    timezone: string;
+    balanceLeaveDays: number;
+    // Days of the employee's requests still waiting for a decision, not yet taken off the balance
+    pendingLeaveDays: number;
+    workingDays: string[]; // weekday names, e.g. "Monday"
+    holidays: string[]; // YYYY-MM-DD
+    leaveTypeId?: string;
+    leaveTypeName?: string;
+    authorizedDays?: number;
+    firstDay?: string; // YYYY-MM-DD
+    lastDay?: string; // YYYY-MM-DD
+    numberOfDays?: number;
+    standIn?: string | null;
+    reason?: string | null;
+    attachment?: string | null;
+}
+
+/**
+ * Start the /leave conversation by offering the active leave types
+ * @param chatId - Telegram chat ID
+ * @param employeeId - Employee document ID
+ * @param projectName - Firebase project name the employee belongs to
+ */
+export async function startLeaveRequest(chatId: number, employeeId: string, projectName: string): Promise<void> {
+    const employee = await getEmployeeById(employeeId, projectName);
+    if (!employee) {
+        await sendMessage(chatId, '❌ Employee record not found.');
+        return;
+    }
+
+    const timezone = employee.timezone || DEFAULT_TZ;
+    const [leaveTypes, holidays, loaded, pendingLeaveDays] = await Promise.all([
+        getHrSettingsByType('leaveTypes', projectName),
+        getHrSettingsByType('holidays', projectName),
+        loadAttendanceRules(employee, projectName),
+        getPendingLeaveDays(employee.uid, projectName)
+    ]);
+
+    const activeTypes = leaveTypes.filter(type => type.active === 'Yes');
+    if (activeTypes.length === 0) {
+        await sendMessage(chatId, '❌ No leave types are configured yet. Please contact HR.');
+        return;
+    }
+
+    const workingDays = 'rules' in loaded
+        ? loaded.rules.shiftType.workingDays.map(day => day.dayOfTheWeek)
+        : DEFAULT_WORKING_DAYS;
+    await conversations.start<LeaveRequestData>(chatId, FLOW, 'type', {
+        employeeId,
+        employeeUid: employee.uid,
+        projectName,
+        timezone,
+        balanceLeaveDays: employee.balanceLeaveDays ?? 0,
+        pendingLeaveDays,
+        workingDays,
+        holidays: holidays
+            .filter(holiday => holiday.active === 'Yes')
+            .map(holiday => parseDate(holiday.date, timezone).format('YYYY-MM-DD'))
+    });
+
+    const keyboard: InlineKeyboardMarkup = {
+        inline_keyboard: [
+            ...activeTypes.map(type => [{ text: type.name, callback_data: `leave:type:${type.id}` }]),
+            [{ text: '✖️ Cancel', callback_data: 'leave:cancel' }]
+        ]
+    };
+    const pending = pendingLeaveDays > 0 ? ` (${pendingLeaveDays} already requested and waiting for a decision)` : '';
+    await sendMessage(chatId, `🌴 <b>Leave request</b>\n\nBalance: <b>${employee.balanceLeaveDays ?? 0}</b> days${pending}\n\nWhich type of leave?`, keyboard);
+}
+
+/**
+ * Handle the inline buttons of the /leave conversation (callback data starting with "leave:")
+ * @param chatId - Telegram chat ID
+ * @param data - Callback data
+ * @param messageId - Message holding the pressed button, edited in place when navigating the calendar or the stand-in pages
+ */
+export async function handleLeaveCallback(chatId: number, data: string, messageId?: number): Promise<void> {
+    const [, action, argument] = data.split(':');
+    if (action === 'noop') {
+        return;
+    }
+
+    const conversation = await conversations.get<LeaveRequestData>(chatId, FLOW);
+    if (!conversation) {
+        await sendMessage(chatId, '⌛ This leave request has expired. Please start again with /leave.');
+        return;
+    }
+    const { data: request, step } = conversation;
+
+    switch (action) {
+        case 'cancel':
+            await conversations.end(chatId);
+            await sendMessage(chatId, '✖️ Leave request cancelled.');
+            return;
+        case 'type':
+            await selectLeaveType(chatId, request, argument ?? '');
+            return;
+        case 'nav':
+            if (messageId && (step === 'first' || step === 'last')) {
+                await bot.editMessageReplyMarkup(buildCalendar(request, dayjs(`${argument}-01`)), { chat_id: chatId, message_id: messageId })
+                    .catch(() => undefined);
+            }
+            return;
+        case 'day':
+            if (step === 'first') {
+                await selectFirstDay(chatId, request, argument ?? '');
+            } else if (step === 'last') {
+                await selectLastDay(chatId, request, argument ?? '');
+            }
+            return;
+        case 'standin':
+            if (step === 'standin') {
+                await selectStandIn(chatId, request, argument ?? '');
+            }
+            return;
+        case 'standinpage':
+            if (messageId && step === 'standin') {
+                const employee = await getEmployeeById(request.employeeId, request.projectName);
+                const colleagues = employee ? await findStandInCandidates(employee, request.projectName) : [];
+                await bot.editMessageReplyMarkup(buildStandInKeyboard(colleagues, Number(argument) || 0), { chat_id: chatId, message_id: messageId })
+                    .catch(() => undefined);
+            }
+            return;
+        case 'skip':
+            if (step === 'reason') {
+                await askForAttachment(chatId, null);
+            } else if (step === 'attachment') {
+                await confirmLeaveRequest(chatId, { attachment: null });
+            }
+            return;
+        case 'confirm':
+            if (step === 'confirm') {
+                await createLeaveRequest(chatId, request);
+            }
+            return;
+    }
+}
+
+/**
+ * Handle free text typed during the /leave conversation
+ * @param chatId - Telegram chat ID
+ * @param text - Message text
+ * @returns Promise<boolean> - Whether the text belonged to the conversation
+ */
+export async function handleLeaveText(chatId: number, text: string): Promise<boolean> {
+    const conversation = await conversations.get<LeaveRequestData>(chatId, FLOW);
+    if (!conversation) {
+        return false;
+    }
+
+    if (conversation.step === 'reason') {
+        await askForAttachment(chatId, text.trim() || null);
+    } else if (conversation.step === 'attachment') {
+        await sendMessage(chatId, '📎 Send the attachment as a document or photo, or skip it.', skipKeyboard());
+    } else {
+        await sendMessage(chatId, '👆 Please use the buttons above, or tap Cancel.');
+    }
+    return true;
+}
+
+/**
+ * Handle a document or photo sent during the /leave conversation
+ * @param msg - Telegram message with a document or photo
+ * @returns Promise<boolean> - Whether the file belonged to the conversation
+ */
+export async function handleLeaveAttachment(msg: TelegramMessage): Promise<boolean> {
+    const chatId = msg.chat.id;
+    const conversation = await conversations.get<LeaveRequestData>(chatId, FLOW);
+    if (!conversation || conversation.step !== 'attachment') {
+        return false;
+    }
+
+    // Photos come in several sizes; the last one is the largest
+    const photo = msg.photo?.[msg.photo.length - 1];
+    const file = msg.document
+        ? { fileId: msg.document.file_id, size: msg.document.file_size, name: msg.document.file_name ?? 'attachment', contentType: msg.document.mime_type }
+        : photo
+            ? { fileId: photo.file_id, size: photo.file_size, name: 'photo.jpg', contentType: 'image/jpeg' }
+            : null;
+    if (!file) {
+        return false;
+    }
+    if ((file.size ?? 0) > MAX_ATTACHMENT_BYTES) {
+        await sendMessage(chatId, '❌ This file is too large (20 MB max). Send a smaller one, or skip it.', skipKeyboard());
+        return true;
+    }
+
+    try {
+        const attachment = await uploadAttachment(conversation.data, file.fileId, file.name, file.contentType);
+        await confirmLeaveRequest(chatId, { attachment });
+    } catch (error) {
+        console.error('Error uploading leave attachment:', error);
+        await sendMessage(chatId, '❌ Could not upload the attachment. Try again, or skip it.', skipKeyboard());
+    }
+    return true;
+}
+
+async function selectLeaveType(chatId: number, request: LeaveRequestData, typeId: string): Promise<void> {
+    const leaveTypes = await getHrSettingsByType('leaveTypes', request.projectName);
+    const leaveType = leaveTypes.find(type => type.id === typeId && type.active === 'Yes');
+    if (!leaveType) {
+        await sendMessage(chatId, '❌ This leave type is no longer available. Please start again with /leave.');
+        await conversations.end(chatId);
+        return;
+    }
+
+    await conversations.advance<LeaveRequestData>(chatId, 'first', {
+        leaveTypeId: leaveType.id,
+        leaveTypeName: leaveType.name,
+        authorizedDays: leaveType.authorizedDays
+    });
+    await sendMessage(
+        chatId,
+        `📅 <b>${escapeHtml(leaveType.name)}</b>: pick the <b>first day</b> of your leave.\n\nDays in brackets are weekends or holidays.`,
+        buildCalendar(request, today(request))
+    );
+}
+
+async function selectFirstDay(chatId: number, request: LeaveRequestData, date: string): Promise<void> {
+    const firstDay = dayjs(date);
+    if (!firstDay.isValid() || firstDay.isBefore(today(request), 'day')) {
+        return;
+    }
+
+    await conversations.advance<LeaveRequestData>(chatId, 'last', { firstDay: date });
+    await sendMessage(
+        chatId,
+        `📅 First day: <b>${firstDay.format(dateFormat)}</b>\n\nNow pick the <b>last day</b> of your leave.`,
+        buildCalendar({ ...request, firstDay: date }, firstDay)
+    );
+}
+
+async function selectLastDay(chatId: number, request: LeaveRequestData, date: string): Promise<void> {
+    const firstDay = dayjs(request.firstDay ?? '');
+    const lastDay = dayjs(date);
+    if (!lastDay.isValid() || lastDay.isBefore(firstDay, 'day')) {
+        return;
+    }
+
+    const numberOfDays = countLeaveDays(request, firstDay, lastDay);
+    if (numberOfDays === 0) {
+        await sendMessage(chatId, '❌ There are no working days in this period. Pick another last day above, or tap Cancel.', cancelKeyboard());
+        return;
+    }
+    const available = availableLeaveDays(request, request.pendingLeaveDays);
+    if (numberOfDays > available) {
+        await sendMessage(
+            chatId,
+            `❌ This period covers <b>${numberOfDays}</b> working days but only <b>${available}</b> days of your balance are available. Pick an earlier last day above, or tap Cancel.`,
+            cancelKeyboard()
+        );
+        return;
+    }
+
+    await conversations.advance<LeaveRequestData>(chatId, 'standin', { lastDay: date, numberOfDays });
+
+    const employee = await getEmployeeById(request.employeeId, request.projectName);
+    const colleagues = employee ? await findStandInCandidates(employee, request.projectName) : [];
+    const pages = colleagues.length > STAND_INS_PER_PAGE ? ` Use ◀️ ▶️ to see all ${colleagues.length} colleagues.` : '';
+
+    await sendMessage(
+        chatId,
+        `📅 ${firstDay.format(dateFormat)} → ${lastDay.format(dateFormat)}: <b>${numberOfDays}</b> working day${numberOfDays === 1 ? '' : 's'}.\n\n🤝 Who will stand in for you?${pages}`,
+        buildStandInKeyboard(colleagues, 0)
+    );
+}
+
+// One page of stand-in buttons, two per row, with page navigation when the department is larger than a page
+function buildStandInKeyboard(colleagues: EmployeeModel[], page: number): InlineKeyboardMarkup {
+    const pageCount = Math.max(1, Math.ceil(colleagues.length / STAND_INS_PER_PAGE));
+    const current = Math.min(Math.max(page, 0), pageCount - 1);
+    const buttons: InlineKeyboardButton[] = colleagues
+        .slice(current * STAND_INS_PER_PAGE, (current + 1) * STAND_INS_PER_PAGE)
+        .map(colleague => ({
+            text: getFullName(colleague).trim(),
+            callback_data: `leave:standin:${colleague.uid}`
+        }));
+    const keyboard: InlineKeyboardMarkup = { inline_keyboard: [] };
+    for (let index = 0; index < buttons.length; index += 2) {
+        keyboard.inline_keyboard.push(buttons.slice(index, index + 2));
+    }
+    if (pageCount > 1) {
+        keyboard.inline_keyboard.push([
+            current > 0 ? { text: '◀️', callback_data: `leave:standinpage:${current - 1}` } : { text: ' ', callback_data: 'leave:noop' },
+            { text: `${current + 1} / ${pageCount}`, callback_data: 'leave:noop' },
+            current < pageCount - 1 ? { text: '▶️', callback_data: `leave:standinpage:${current + 1}` } : { text: ' ', callback_data: 'leave:noop' }
+        ]);
+    }
+    keyboard.inline_keyboard.push([{ text: '🚫 No stand-in', callback_data: 'leave:standin:none' }, { text: '✖️ Cancel', callback_data: 'leave:cancel' }]);
+    return keyboard;
+}
+
+async function selectStandIn(chatId: number, request: LeaveRequestData, uid: string): Promise<void> {
+    // Only the colleagues offered as buttons can be picked
+    if (uid !== 'none') {
+        const employee = await getEmployeeById(request.employeeId, request.projectName);
+        const colleagues = employee ? await findStandInCandidates(employee, request.projectName) : [];
+        if (!colleagues.some(colleague => colleague.uid === uid)) {
+            await sendMessage(chatId, '❌ This colleague cannot stand in for you. Pick someone from the list above, or tap Cancel.', cancelKeyboard());
+            return;
+        }
+    }
+
+    await conversations.advance<LeaveRequestData>(chatId, 'reason', { standIn: uid === 'none' ? null : uid });
+    await sendMessage(chatId, '💬 Send the reason for your leave, or skip it.', skipKeyboard());
+}
+
+async function askForAttachment(chatId: number, reason: string | null): Promise<void> {
+    await conversations.advance<LeaveRequestData>(chatId, 'attachment', { reason });
+    await sendMessage(chatId, '📎 Send a supporting document or photo (e.g. a medical certificate), or skip it.', skipKeyboard());
+}
+
+async function confirmLeaveRequest(chatId: number, update: Pick<LeaveRequestData, 'attachment'>): Promise<void> {
+    await conversations.advance<LeaveRequestData>(chatId, 'confirm', update);
+    const conversation = await conversations.get<LeaveRequestData>(chatId, FLOW);
+    if (!conversation) {
+        return;
+    }
+    const request = conversation.data;
+
+    const standIn = request.standIn ? await getStandInName(request) : 'None';
+    const lines = [
+        '🌴 <b>Please confirm your leave request</b>',
+        '',
+        `Type: ${escapeHtml(request.leaveTypeName ?? '')}`,
+        `From: ${dayjs(request.firstDay).format(dateFormat)}`,
+        `To: ${dayjs(request.lastDay).format(dateFormat)}`,
+        `Working days: ${request.numberOfDays}`,
+        `Stand-in: ${escapeHtml(standIn)}`,
+        `Reason: ${request.reason ? escapeHtml(request.reason) : '—'}`,
+        `Attachment: ${request.attachment ? 'yes' : 'no'}`
+    ];
+    await sendMessage(chatId, lines.join('\n'), {
+        inline_keyboard: [[{ text: '📤 Submit', callback_data: 'leave:confirm' }, { text: '✖️ Cancel', callback_data: 'leave:cancel' }]]
+    });
+}
+
+async function createLeaveRequest(chatId: number, request: LeaveRequestData): Promise<void> {
+    await conversations.end(chatId);
+    if (!request.leaveTypeId || !request.firstDay || !request.lastDay || !request.numberOfDays) {
+        await sendMessage(chatId, '⌛ This leave request has expired. Please start again with /leave.');
+        return;
+    }
+
+    // Another request may have been submitted since the period was picked
+    let pendingLeaveDays: number;
+    try {
+        pendingLeaveDays = await getPendingLeaveDays(request.employeeUid, request.projectName);
+    } catch (error) {
+        console.error('Error reading pending leave requests:', error);
+        await sendMessage(chatId, '❌ Could not submit your leave request. Please try again later.');
+        return;
+    }
+    if (request.numberOfDays > availableLeaveDays(request, pendingLeaveDays)) {
+        await sendMessage(
+            chatId,
+            `❌ Only <b>${availableLeaveDays(request, pendingLeaveDays)}</b> days of your balance are available now that your other requests are counted. Please start again with /leave.`
+        );
+        return;
+    }
+
+    const firstDay = dayjs(request.firstDay);
+    const lastDay = dayjs(request.lastDay);
+    const leave: Omit<LeaveModel, 'id'> = {
+        timestamp: dayjs.utc().toISOString(),
+        leaveRequestID: `LR-${firstDay.format('YYYYMMDD')}-${randomBytes(2).toString('hex').toUpperCase()}`,
+        leaveState: 'Requested',
+        leaveStage: 'Open',
+        leaveType: request.leaveTypeId,
+        standIn: request.standIn ?? null,
+        authorizedDays: request.authorizedDays !== undefined ? String(request.authorizedDays) : null,
+        firstDayOfLeave: firstDay.format(dateFormat),
+        lastDayOfLeave: lastDay.format(dateFormat),
+        dateOfReturn: findReturnDay(request, lastDay).format(dateFormat),
+        numberOfLeaveDaysRequested: request.numberOfDays,
+        // Balance at the time of the request
+        balanceLeaveDays: request.balanceLeaveDays,
+        comments: [],
+        employeeID: request.employeeUid,
+        attachments: request.attachment ? [request.attachment] : [],
+        requestedFor: null,
+        requestedBy: request.employeeUid,
+        rollbackStatus: 'N/A',
+        reason: request.reason ?? null
+    };
+
+    try {
+        const db = await getProjectDb(request.projectName);
+        await retryDatabaseOperation(async () => {
+            return await db.collection(LEAVE_COLLECTION).add(leave);
+        }, 2, 1000, request.projectName);
+    } catch (error) {
+        console.error('Error creating leave request:', error);
+        await sendMessage(chatId, '❌ Could not submit your leave request. Please try again later.');
+        return;
+    }
+
+    await sendMessage(
+        chatId,
+        `✅ Leave request <b>${leave.leaveRequestID}</b> (${leave.numberOfLeaveDaysRequested} days, back on ${leave.dateOfReturn}) has been sent to your manager.`
+    );
+}
+
+async function getPendingLeaveDays(uid: string, projectName: string): Promise<number> {
+    const openLeaves = await getEmployeeLeavesByStage(uid, 'Open', projectName);
+    return openLeaves.reduce((total, leave) => total + (leave.numberOfLeaveDaysRequested ?? 0), 0);
+}
+
+// Balance left once the requests waiting for a decision are granted
+function availableLeaveDays(request: LeaveRequestData, pendingLeaveDays: number): number {
+    return Math.max(0, request.balanceLeaveDays - pendingLeaveDays);
+}
+
+// Calendar of the step in progress: the last day cannot be before the first one
+function buildCalendar(request: LeaveRequestData, month: dayjs.Dayjs): InlineKeyboardMarkup {
+    const minDate = request.firstDay ? dayjs(request.firstDay) : today(request);
+    const keyboard = buildCalendarKeyboard(month, FLOW, {
+        minDate,
+        maxMonth: today(request).add(MAX_MONTHS_AHEAD, 'month'),
+        isMarked: day => !isLeaveDay(request, day)
+    });
+    keyboard.inline_keyboard.push([{ text: '✖️ Cancel', callback_data: 'leave:cancel' }]);
+    return keyboard;
+}
+
+// Working days of the employee's shift type that are not holidays
+function isLeaveDay(request: LeaveRequestData, day: dayjs.Dayjs): boolean {
+    return request.workingDays.includes(days[day.day()] ?? '') && !request.holidays.includes(day.format('YYYY-MM-DD'));
+}
+
+function countLeaveDays(request: LeaveRequestData, firstDay: dayjs.Dayjs, lastDay: dayjs.Dayjs): number {
+    let count = 0;
+    for (let day = firstDay; !day.isAfter(lastDay, 'day'); day = day.add(1, 'day')) {
+        if (isLeaveDay(request, day)) {
+            count++;
+        }
+    }
+    return count;
+}
+
+// First working day after the leave
+function findReturnDay(request: LeaveRequestData, lastDay: dayjs.Dayjs): dayjs.Dayjs {
+    let day = lastDay.add(1, 'day');
+    for (let attempts = 0; attempts < 31 && !isLeaveDay(request, day); attempts++) {
+        day = day.add(1, 'day');
+    }
+    return day;
+}
+
+// Calendar dates are handled as plain local dates; only "today" depends on the employee's timezone
+function today(request: LeaveRequestData): dayjs.Dayjs {
+    return dayjs(dayjs.utc().tz(request.timezone).format('YYYY-MM-DD'));
+}
+
+async function findStandInCandidates(employee: EmployeeModel, projectName: string): Promise<EmployeeModel[]> {
+    if (!employee.department) {
+        return [];
+    }
+    const employees = await getEmployees(projectName);
+    return employees
+        .filter(colleague => colleague.uid !== employee.uid && colleague.department === employee.department)
+        .sort((a, b) => getFullName(a).localeCompare(getFullName(b)));
+}
+
+async function getStandInName(request: LeaveRequestData): Promise<string> {
+    const employees = await getEmployees(request.projectName);
+    const standIn = employees.find(employee => employee.uid === request.standIn);
+    return standIn ? getFullName(standIn).trim() : 'Unknown employee';
+}
+
+// Store the file in the project's bucket with a download token, like files uploaded from the dashboard
+async function uploadAttachment(request: LeaveRequestData, fileId: string, fileName: string, contentType?: string): Promise<string> {
+    const link = await bot.getFileLink(fileId);
+    const response = await fetch(link);
+    if (!response.ok) {
+        throw new Error(`Telegram file download failed with ${response.status}`);
+    }
+    const content = Buffer.from(await response.arrayBuffer());
+
+    const bucket = getProjectBucket(request.projectName);
+    const path = `leave/${request.employeeUid}/${Date.now()}-${fileName.replace(/[^\w.-]+/g, '_')}`;
+    const token = randomUUID();
+    await bucket.file(path).save(content, {
+        contentType: contentType ?? 'application/octet-stream',
+        metadata: { metadata: { firebaseStorageDownloadTokens: token } }
+    });
+    return `https://firebasestorage.googleapis.com/v0/b/${bucket.name}/o/${encodeURIComponent(path)}?alt=media&token=${token}`;
+}
+
+function skipKeyboard(): InlineKeyboardMarkup {
+    return { inline_keyboard: [[{ text: '⏭️ Skip', callback_data: 'leave:skip' }, { text: '✖️ Cancel', callback_data: 'leave:cancel' }]] };
+}
+
+function cancelKeyboard(): InlineKeyboardMarkup {
+    return { inline_keyboard: [[{ text: '✖️ Cancel', callback_data: 'leave:cancel' }]] };
+}
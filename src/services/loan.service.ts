@@ -0,0 +1,208 @@
+import dayjs from 'dayjs';
+import { sendMessage } from '../bot';
+import { getHealthyDbInstances } from '../firebase-config';
+import { EmployeeModel } from '../models/employee';
+import { EmployeeLoanModel, ExtendedEmployeeLoan, LoanByMonth } from '../models/employeeLoan';
+import clampSetting from '../util/clampSetting';
+import { DEFAULT_TZ, parseMonth } from '../util/dayjs_format';
+import escapeHtml from '../util/escapeHtml';
+import { claimOnce } from '../util/functions/claim/claim-service';
+import { getEmployees, getHrEmployees } from '../util/functions/employee/employee-service';
+import { getHrSettingsByType } from '../util/functions/hr-settings/hr-settings-service';
+import { getEmployeeLoans, getOngoingLoans } from '../util/functions/loan/loan-service';
+import getEmployeeFullName from '../util/getEmployeeFullName';
+
+export interface LoanStatus extends Omit<ExtendedEmployeeLoan, 'employeeName'> {
+    loanTypeName: string;
+    // First scheduled month not confirmed yet
+    nextDeduction: LoanByMonth | null;
+    endMonth: dayjs.Dayjs | null;
+}
+
+/**
+ * Ongoing loans of an employee with the paid and remaining amounts from the confirmed months
+ * @param employee - Employee record
+ * @param projectName - Firebase project name the employee belongs to
+ * @returns Promise<LoanStatus[]> - One entry per ongoing loan
+ */
+export async function getLoanStatuses(employee: EmployeeModel, projectName: string): Promise<LoanStatus[]> {
+    const [loans, loanTypes] = await Promise.all([
+        getEmployeeLoans(employee.uid, projectName),
+        getHrSettingsByType('loanTypes', projectName)
+    ]);
+
+    return loans
+        .filter(loan => loan.loanStatus === 'Ongoing')
+        .map(loan => {
+            // Only the amounts deducted from the salary count, as in the payroll
+            const months = sortMonths(loan.months ?? []).filter(month => month.deductFromSalary > 0);
+            const paidAmount = months.filter(month => month.confirmed).reduce((total, month) => total + month.deductFromSalary, 0);
+            const endMonth = loan.loanRepaymentEndMonth ? parseMonth(loan.loanRepaymentEndMonth) : null;
+            return {
+                ...loan,
+                loanTypeName: loanTypes.find(type => type.id === loan.loanType)?.loanName ?? loan.loanType,
+                paidAmount: round(paidAmount),
+                remainingAmount: round(Math.max((loan.loanTotalAmount ?? 0) - paidAmount, 0)),
+                nextDeduction: months.find(month => !month.confirmed) ?? null,
+                endMonth: endMonth?.isValid() ? endMonth : null
+            };
+        });
+}
+
+/**
+ * Format the /loans reply
+ * @param loans - Ongoing loans
+ * @param currency - Employee's salary currency
+ * @returns string - HTML message
+ */
+export function buildLoansMessage(loans: LoanStatus[], currency: string | undefined): string {
+    if (loans.length === 0) {
+        return 'ℹ️ You have no ongoing loans.';
+    }
+
+    const money = (amount: number) => `${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${escapeHtml(currency ?? '')}`.trim();
+    const lines = ['💳 <b>Ongoing loans</b>'];
+    for (const loan of loans) {
+        lines.push(
+            '',
+            `<b>${escapeHtml(loan.loanTypeName)}</b> — ${money(loan.loanTotalAmount ?? 0)} to repay over ${loan.duration} month${loan.duration === 1 ? '' : 's'}`,
+            `Paid: ${money(loan.paidAmount)}`,
+            `Remaining: <b>${money(loan.remainingAmount)}</b>`
+        );
+        if (loan.nextDeduction) {
+            const month = parseMonth(loan.nextDeduction.date);
+            const when = month.isValid() ? month.format('MMMM YYYY') : escapeHtml(loan.nextDeduction.date);
+            lines.push(`Next deduction: ${money(loan.nextDeduction.deductFromSalary)} in ${when}`);
+        }
+        if (loan.endMonth) {
+            lines.push(`Last repayment: ${loan.endMonth.format('MMMM YYYY')}`);
+        }
+    }
+    return lines.join('\n');
+}
+
+export class LoanReminderService {
+    private intervalId?: NodeJS.Timeout | null;
+    private isRunning = false;
+
+    // Off unless HR asks for it
+    private readonly FEATURE_ENABLED = process.env.LOAN_REMINDERS_ENABLED === 'true';
+    private readonly CHECK_INTERVAL_MINUTES = 30;
+    // Day of the month from which the month's payroll is closed and its deductions should be confirmed
+    private readonly PAYROLL_CLOSING_DAY = clampSetting(process.env.PAYROLL_CLOSING_DAY, 28, 1, 28);
+    // Local hour (DEFAULT_TZ) at which the reminder is sent
+    private readonly REMINDER_HOUR = clampSetting(process.env.LOAN_REMINDER_HOUR, 10, 0, 23);
+    // One document per project and month, so HR is reminded once even across restarts
+    private readonly REMINDERS_COLLECTION = 'loanReminders';
+
+    startMonitoring(): void {
+        if (this.isRunning) {
+            console.log('Loan reminders already running');
+            return;
+        }
+
+        if (!this.FEATURE_ENABLED) {
+            console.log('Loan reminders feature is disabled');
+            return;
+        }
+
+        console.log(`Starting loan reminder service (from day ${this.PAYROLL_CLOSING_DAY} at ${this.REMINDER_HOUR}:00 ${DEFAULT_TZ})`);
+        this.isRunning = true;
+
+        this.intervalId = setInterval(() => {
+            this.runReminderCheck();
+        }, this.CHECK_INTERVAL_MINUTES * 60 * 1000);
+    }
+
+    stopMonitoring(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        this.isRunning = false;
+        console.log('Loan reminder service stopped');
+    }
+
+    isMonitoring(): boolean {
+        return this.isRunning;
+    }
+
+    private async runReminderCheck(): Promise<void> {
+        const now = dayjs.utc().tz(DEFAULT_TZ);
+        if (now.date() < this.PAYROLL_CLOSING_DAY || now.hour() < this.REMINDER_HOUR) {
+            return;
+        }
+
+        try {
+            const healthyDbs = await getHealthyDbInstances();
+            for (const projectName of Object.keys(healthyDbs)) {
+                try {
+                    if (!await claimOnce(projectName, this.REMINDERS_COLLECTION, now.format('YYYY-MM'))) {
+                        continue;
+                    }
+                    await this.remindProject(projectName, now);
+                } catch (error) {
+                    console.error(`Error sending loan reminders for ${projectName}:`, error);
+                }
+            }
+        } catch (error) {
+            console.error('Error in loan reminder check:', error);
+        }
+    }
+
+    private async remindProject(projectName: string, now: dayjs.Dayjs): Promise<void> {
+        const [loans, employees, hrEmployees] = await Promise.all([
+            getOngoingLoans(projectName),
+            getEmployees(projectName),
+            getHrEmployees(projectName)
+        ]);
+
+        // Instalments of the closed month and earlier that nobody confirmed
+        const currentMonth = now.format('YYYY-MM');
+        const overdue: { loan: EmployeeLoanModel; months: LoanByMonth[] }[] = [];
+        for (const loan of loans) {
+            const months = sortMonths(loan.months ?? []).filter(month => {
+                const scheduled = parseMonth(month.date);
+                return !month.confirmed && month.deductFromSalary > 0 && scheduled.isValid() && scheduled.format('YYYY-MM') <= currentMonth;
+            });
+            if (months.length > 0) {
+                overdue.push({ loan, months });
+            }
+        }
+        if (overdue.length === 0) {
+            return;
+        }
+
+        const lines = [`💳 <b>Unconfirmed loan deductions</b> (payroll closed for ${now.format('MMMM YYYY')})`, ''];
+        for (const { loan, months } of overdue) {
+            const employee = employees.find(candidate => candidate.uid === loan.employeeUid);
+            const name = employee ? getEmployeeFullName(employee).trim() : loan.employeeUid;
+            const scheduled = months
+                .map(month => `${parseMonth(month.date).format('MMM YYYY')} (${month.deductFromSalary})`)
+                .join(', ');
+            lines.push(`• ${escapeHtml(name)}: ${scheduled}`);
+        }
+        lines.push('', 'Please confirm these repayments in OneHR.');
+
+        const recipients = hrEmployees.filter(employee => employee.telegramChatID);
+        for (const hr of recipients) {
+            try {
+                await sendMessage(parseInt(hr.telegramChatID!), lines.join('\n'));
+            } catch (error) {
+                console.error(`Error sending loan reminder to ${hr.uid}:`, error);
+            }
+        }
+        console.log(`💳 Reminded ${recipients.length} HR users of ${overdue.length} loans with unconfirmed deductions in ${projectName}`);
+    }
+}
+
+function sortMonths(months: LoanByMonth[]): LoanByMonth[] {
+    return [...months].sort((a, b) => parseMonth(a.date).valueOf() - parseMonth(b.date).valueOf());
+}
+
+function round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+// Export singleton instance
+export const loanReminderService = new LoanReminderService();
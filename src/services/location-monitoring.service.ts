@@ -1,17 +1,63 @@
 import dayjs from 'dayjs';
 import { sendMessage } from '../bot';
 import { getHealthyDbInstances, retryDatabaseOperation } from '../firebase-config';
-import { AttendanceModel, WorkedHoursModel, DailyAttendance } from '../models/attendance';
+import { AttendanceModel, DailyAttendance } from '../models/attendance';
 import { EmployeeModel } from '../models/employee';
+import clampSetting from '../util/clampSetting';
+import escapeHtml from '../util/escapeHtml';
 import getEmployeeFullName from '../util/getEmployeeFullName';
 import { validateEmployeeLocationAndArea } from '../util/locationValidation';
 import { formatHour } from '../util/dayjs_format';
-import type { firestore } from 'firebase-admin';
+import { claimOnce } from '../util/functions/claim/claim-service';
+import { getHrSettingsByType } from '../util/functions/hr-settings/hr-settings-service';
+import { LocationMonitoringSettingsModel } from '../models/hrSettings';
+import { autoClockOut, findClockedInEmployees } from './attendance-clock.service';
+import { firestore } from 'firebase-admin';
+
+// Consecutive failed location checks for a clocked-in employee
+interface ViolationStreak {
+    uid: string;
+    count: number;
+    firstFailureAt: string;
+    lastFailureAt: string;
+    lastReason: string;
+    warningSentAt: string | null;
+}
+
+// Errands claimed since the last clock-in or clock-out; only a manager's approval pauses auto clock-out
+interface ErrandState {
+    uid: string;
+    claims: number;
+    pendingSince: string | null;
+    approvedUntil: string | null;
+}
+
+export type ErrandRequestResult =
+    | { status: 'requested' | 'pending' | 'no_violation' | 'no_manager' }
+    | { status: 'limit_reached'; maxClaims: number };
+
+export type ErrandDecisionResult =
+    | { status: 'approved'; employeeName: string; errandUntil: string; timezone: string | null }
+    | { status: 'refused'; employeeName: string }
+    | { status: 'not_authorized' | 'not_pending' };
 
-interface ClockedInEmployee {
-    employee: EmployeeModel;
-    attendance: AttendanceModel;
-    projectName: string;
+export type MonitoringSettings = Omit<LocationMonitoringSettingsModel, 'id' | 'createdAt' | 'updatedAt'>;
+
+// What the service did, or would have done in shadow mode, for one employee
+interface MonitoringDecision {
+    timestamp: string;
+    mode: MonitoringSettings['autoClockOutMode'];
+    applied: boolean;
+    action: 'warn' | 'auto_clock_out';
+    uid: string;
+    employeeName: string;
+    attendanceId: string;
+    reason: string;
+    violationCount: number;
+    violationThreshold: number;
+    coordinates: [number, number] | null;
+    locationAge: number | null;
+    isLive: boolean | null;
 }
 
 interface AutoClockOutResult {
@@ -28,16 +74,26 @@ export class LocationMonitoringService {
     private intervalId?: NodeJS.Timeout | null;
     private isRunning = false;
 
-    // Configuration with validation
-    // private readonly CHECK_INTERVAL_MINUTES = Math.max(1, Math.min(60, parseInt(process.env.LOCATION_CHECK_INTERVAL_MINUTES || '10')));
-    // private readonly MAX_LOCATION_AGE_MINUTES = Math.max(5, Math.min(120, parseInt(process.env.LOCATION_MAX_AGE_MINUTES || '30')));
-    // private readonly FEATURE_ENABLED = process.env.LOCATION_AUTO_CLOCK_OUT_ENABLED !== 'false';
-    // private readonly NOTIFICATION_ENABLED = process.env.LOCATION_NOTIFICATIONS_ENABLED !== 'false';
-    private readonly CHECK_INTERVAL_MINUTES = 5;
-    private readonly MAX_LOCATION_AGE_MINUTES = 10;
-    private readonly FEATURE_ENABLED = true;
-    private readonly NOTIFICATION_ENABLED = true;
-    // private readonly DRY_RUN_MODE = true; // Don't actually perform clock outs
+    // Global kill switch; everything else can be overridden per project in hrSettings (type "locationMonitoring")
+    private readonly FEATURE_ENABLED = process.env.LOCATION_AUTO_CLOCK_OUT_ENABLED !== 'false';
+    // Projects are checked on their own interval; the scheduler ticks every minute to find due projects
+    private readonly TICK_INTERVAL_MINUTES = 1;
+    private readonly DEFAULT_SETTINGS: MonitoringSettings = {
+        autoClockOutMode: this.parseMode(process.env.LOCATION_AUTO_CLOCK_OUT_MODE),
+        notificationsEnabled: process.env.LOCATION_NOTIFICATIONS_ENABLED !== 'false',
+        checkIntervalMinutes: clampSetting(process.env.LOCATION_CHECK_INTERVAL_MINUTES, 5, 1, 60),
+        maxLocationAgeMinutes: clampSetting(process.env.LOCATION_MAX_AGE_MINUTES, 10, 5, 120),
+        // Consecutive failed checks tolerated before auto clock-out (a single GPS blip must not cost a day)
+        violationThreshold: clampSetting(process.env.LOCATION_VIOLATION_THRESHOLD, 3, 1, 20),
+        // How long a manager-approved errand suspends auto clock-out
+        errandGraceMinutes: clampSetting(process.env.LOCATION_ERRAND_GRACE_MINUTES, 120, 15, 480),
+        // Errands an employee can claim between a clock-in and the next clock-out
+        maxErrandClaimsPerShift: clampSetting(process.env.LOCATION_MAX_ERRAND_CLAIMS, 2, 1, 10)
+    };
+    private readonly STREAKS_COLLECTION = 'locationViolationStreaks';
+    private readonly ERRANDS_COLLECTION = 'locationErrands';
+    private readonly DECISIONS_COLLECTION = 'locationMonitoringDecisions';
+    private readonly CHECK_CLAIMS_COLLECTION = 'locationMonitoringChecks';
 
     startMonitoring(): void {
         if (this.isRunning) {
@@ -50,7 +106,8 @@ export class LocationMonitoringService {
             return;
         }
 
-        console.log(`Starting location monitoring service (check every ${this.CHECK_INTERVAL_MINUTES} minutes, max location age: ${this.MAX_LOCATION_AGE_MINUTES} minutes, notifications: ${this.NOTIFICATION_ENABLED ? 'enabled' : 'disabled'})`);
+        const defaults = this.DEFAULT_SETTINGS;
+        console.log(`Starting location monitoring service (default mode: ${defaults.autoClockOutMode}, check every ${defaults.checkIntervalMinutes} minutes, max location age: ${defaults.maxLocationAgeMinutes} minutes, notifications: ${defaults.notificationsEnabled ? 'enabled' : 'disabled'})`);
         this.isRunning = true;
 
         // Run initial check after a short delay to allow system to stabilize
@@ -61,7 +118,7 @@ export class LocationMonitoringService {
         // Schedule periodic checks
         this.intervalId = setInterval(() => {
             this.runLocationCheck();
-        }, this.CHECK_INTERVAL_MINUTES * 60 * 1000);
+        }, this.TICK_INTERVAL_MINUTES * 60 * 1000);
     }
 
     stopMonitoring(): void {
@@ -79,106 +136,115 @@ export class LocationMonitoringService {
 
     private async runLocationCheck(): Promise<void> {
         try {
-            console.log('🔍 Running location monitoring check...');
-
             // Get healthy databases once for this entire check cycle
             const healthyDbs = await getHealthyDbInstances();
 
-            const clockedInEmployees = await this.findClockedInEmployees(healthyDbs);
-
-            if (clockedInEmployees.length === 0) {
-                console.log('No employees currently clocked in');
-                return;
-            }
-
-            console.log(`********** Found ${clockedInEmployees.length} clocked-in employees **********`);
-
-            const autoClockOutResults: AutoClockOutResult[] = [];
+            for (const projectName of Object.keys(healthyDbs)) {
+                const settings = await this.getProjectSettings(projectName);
+                if (settings.autoClockOutMode === 'off') {
+                    continue;
+                }
 
-            for (const { employee, attendance, projectName } of clockedInEmployees) {
                 try {
-                    const result = await this.checkAndAutoClockOut(employee, attendance, projectName, healthyDbs);
-                    if (result) {
-                        autoClockOutResults.push(result);
+                    // One check per project and interval across all replicas, so streaks count each interval once
+                    const intervalMs = settings.checkIntervalMinutes * 60 * 1000;
+                    const intervalStart = dayjs.utc(Math.floor(Date.now() / intervalMs) * intervalMs).toISOString();
+                    if (!await claimOnce(projectName, this.CHECK_CLAIMS_COLLECTION, `${projectName}_${intervalStart}`)) {
+                        continue;
                     }
+
+                    await this.runProjectCheck(projectName, healthyDbs, settings);
                 } catch (error) {
-                    console.error(`Error checking employee ${employee.uid}:`, error);
+                    console.error(`Error in location monitoring check for ${projectName}:`, error);
                 }
             }
-
-            // Send notifications for successful auto clock-outs
-            for (const result of autoClockOutResults) {
-                await this.sendNotifications(result);
-            }
-
-            console.log(`Location monitoring check completed. Auto clocked out: ${autoClockOutResults.length} employees`);
         } catch (error) {
             console.error('Error in location monitoring check:', error);
         }
     }
 
-    private async findClockedInEmployees(healthyDbs: Record<string, firestore.Firestore>): Promise<ClockedInEmployee[]> {
-        const clockedInEmployees: ClockedInEmployee[] = [];
+    private async runProjectCheck(
+        projectName: string,
+        healthyDbs: Record<string, firestore.Firestore>,
+        settings: MonitoringSettings
+    ): Promise<void> {
+        console.log(`🔍 Running location monitoring check for ${projectName} (${settings.autoClockOutMode} mode)...`);
 
-        for (const [projectName, db] of Object.entries(healthyDbs)) {
-            try {
-                // Find attendance records with lastClockInTimestamp set (indicating currently clocked in)
-                const attendanceRef = db.collection('attendance');
-
-                // Fetch all attendance records for current month and filter client-side
-                // This avoids needing composite indexes on multiple fields across many databases
-                const attendanceQuery = await retryDatabaseOperation(async () => {
-                    return await attendanceRef
-                        .where('year', '==', dayjs.utc().year())
-                        .where('month', '==', dayjs.utc().format('MMMM') as "January" | "February" | "March" | "April" | "May" | "June" | "July" | "August" | "September" | "October" | "November" | "December")
-                        .get();
-                }, 2, 1000, projectName);
-
-                // Filter client-side for currently clocked-in employees
-                const clockedInDocs = attendanceQuery.docs.filter(doc => {
-                    const data = doc.data();
-                    return data.lastClockInTimestamp !== null && data.lastClockInTimestamp !== undefined;
-                });
+        const clockedInEmployees = await findClockedInEmployees(projectName);
 
-                for (const attendanceDoc of clockedInDocs) {
-                    const attendance = attendanceDoc.data() as AttendanceModel;
-                    attendance.id = attendanceDoc.id;
-
-                    // Get employee data
-                    const employeesRef = db.collection('employee');
-                    const employeeDoc = await retryDatabaseOperation(async () => {
-                        return await employeesRef
-                            .where('uid', '==', attendance.uid)
-                            .limit(1)
-                            .get();
-                    }, 2, 1000, projectName);
-
-                    if (!employeeDoc.empty) {
-                        const doc = employeeDoc.docs[0];
-                        if (doc && doc.exists) {
-                            const employee = { id: doc.id, uid: doc.data().uid, ...doc.data() } as EmployeeModel;
-                            clockedInEmployees.push({
-                                employee,
-                                attendance,
-                                projectName
-                            });
-                        }
-                    }
+        if (clockedInEmployees.length === 0) {
+            console.log(`No employees currently clocked in for ${projectName}`);
+            return;
+        }
+
+        console.log(`********** Found ${clockedInEmployees.length} clocked-in employees in ${projectName} **********`);
+
+        const autoClockOutResults: AutoClockOutResult[] = [];
+
+        for (const { employee, attendance } of clockedInEmployees) {
+            try {
+                const result = await this.checkAndAutoClockOut(employee, attendance, projectName, healthyDbs, settings);
+                if (result) {
+                    autoClockOutResults.push(result);
                 }
             } catch (error) {
-                console.error(`Error querying attendance in ${projectName}:`, error);
-                continue;
+                console.error(`Error checking employee ${employee.uid}:`, error);
             }
         }
 
-        return clockedInEmployees;
+        // Send notifications for successful auto clock-outs
+        if (settings.notificationsEnabled) {
+            for (const result of autoClockOutResults) {
+                await this.sendNotifications(result);
+            }
+        }
+
+        console.log(`Location monitoring check completed for ${projectName}. Auto clocked out: ${autoClockOutResults.length} employees`);
+    }
+
+    private async getProjectSettings(projectName: string): Promise<MonitoringSettings> {
+        try {
+            const [configured] = await getHrSettingsByType('locationMonitoring', projectName);
+            if (!configured) {
+                return this.DEFAULT_SETTINGS;
+            }
+            const defaults = this.DEFAULT_SETTINGS;
+            return {
+                autoClockOutMode: configured.autoClockOutMode ? this.parseMode(configured.autoClockOutMode) : defaults.autoClockOutMode,
+                notificationsEnabled: configured.notificationsEnabled ?? defaults.notificationsEnabled,
+                checkIntervalMinutes: clampSetting(configured.checkIntervalMinutes, defaults.checkIntervalMinutes, 1, 60),
+                maxLocationAgeMinutes: clampSetting(configured.maxLocationAgeMinutes, defaults.maxLocationAgeMinutes, 5, 120),
+                violationThreshold: clampSetting(configured.violationThreshold, defaults.violationThreshold, 1, 20),
+                errandGraceMinutes: clampSetting(configured.errandGraceMinutes, defaults.errandGraceMinutes, 15, 480),
+                maxErrandClaimsPerShift: clampSetting(configured.maxErrandClaimsPerShift, defaults.maxErrandClaimsPerShift, 1, 10)
+            };
+        } catch (error) {
+            console.error(`Error loading location monitoring settings for ${projectName}:`, error);
+            return this.DEFAULT_SETTINGS;
+        }
+    }
+
+    private parseMode(value: string | undefined): MonitoringSettings['autoClockOutMode'] {
+        const mode = (value || 'enforce').trim().toLowerCase();
+        return mode === 'off' || mode === 'shadow' ? mode : 'enforce';
+    }
+
+    private async recordDecision(db: firestore.Firestore, projectName: string, decision: MonitoringDecision): Promise<void> {
+        try {
+            await retryDatabaseOperation(async () => {
+                return await db.collection(this.DECISIONS_COLLECTION).add(decision);
+            }, 2, 1000, projectName);
+        } catch (error) {
+            console.error(`Error recording location monitoring decision for ${decision.uid}:`, error);
+        }
     }
 
     private async checkAndAutoClockOut(
         employee: EmployeeModel,
         attendance: AttendanceModel,
         projectName: string,
-        healthyDbs: Record<string, firestore.Firestore>
+        healthyDbs: Record<string, firestore.Firestore>,
+        settings: MonitoringSettings
     ): Promise<AutoClockOutResult | null> {
         // Skip if employee has no working area defined
         if (!employee.workingArea || employee.workingArea.trim() === '') {
@@ -190,7 +256,7 @@ export class LocationMonitoringService {
         const validation = validateEmployeeLocationAndArea(
             employee.currentLocation,
             employee.workingArea,
-            this.MAX_LOCATION_AGE_MINUTES,
+            settings.maxLocationAgeMinutes,
             employee.timezone
         );
 
@@ -202,9 +268,15 @@ export class LocationMonitoringService {
             locationAge: validation.locationAge
         });
 
+        const db = healthyDbs[projectName];
+        if (!db) {
+            return null;
+        }
+
         if (validation.isValid) {
             // Employee is within working area, no action needed
             console.log(`   - Employee is within working area - no action needed`);
+            await this.resetViolationStreak(db, projectName, employee.uid);
             return null;
         }
 
@@ -229,33 +301,72 @@ export class LocationMonitoringService {
         }
 
         // Check if employee was recently auto clocked out (prevent spam)
-        const lastClockOut = attendance.values[dayjs.utc(attendance.lastClockInTimestamp).date() - 1]?.workedHours
+        const lastClockOut = (Object.values(attendance.values ?? {}) as (DailyAttendance | null)[])
+            .flatMap(day => day?.workedHours ?? [])
             .filter(wh => wh.type === 'Clock Out')
             .sort((a, b) => dayjs.utc(b.timestamp).diff(dayjs.utc(a.timestamp)))[0];
 
         if (lastClockOut) {
             const minutesSinceLastClockOut = dayjs.utc().diff(dayjs.utc(lastClockOut.timestamp), 'minute');
-            if (minutesSinceLastClockOut < this.CHECK_INTERVAL_MINUTES) {
+            if (minutesSinceLastClockOut < settings.checkIntervalMinutes) {
                 console.log(`Skipping auto clock-out for ${employee.uid}: recently clocked out (${minutesSinceLastClockOut} minutes ago)`);
                 return null;
             }
         }
 
-        // if (this.DRY_RUN_MODE) {
-        //     console.log(`   - DRY RUN: Simulating auto clock-out (no database changes)`);
-        //     const result = {
-        //         success: true,
-        //         employeeId: employee.uid,
-        //         employeeName: getEmployeeFullName(employee),
-        //         employeeChatID: employee.telegramChatID,
-        //         managerChatID: null,
-        //         error: null,
-        //         reason: validation.error ?? 'Outside working area'
-        //     };
-        //     return result;
-        // }
+        // Failures during an approved errand are expected and not counted
+        const errand = await this.getErrandState(db, projectName, employee.uid);
+        if (this.isErrandActive(errand)) {
+            console.log(`Skipping auto clock-out for ${employee.uid}: on approved errand until ${errand.approvedUntil}`);
+            return null;
+        }
+
+        const reason = validation.error ?? 'Outside working area';
+        const streak = await this.recordViolation(db, projectName, employee.uid, reason);
+
+        const isShadow = settings.autoClockOutMode === 'shadow';
+        const decision: MonitoringDecision = {
+            timestamp: dayjs.utc().toISOString(),
+            mode: settings.autoClockOutMode,
+            applied: !isShadow,
+            action: 'warn',
+            uid: employee.uid,
+            employeeName: getEmployeeFullName(employee),
+            attendanceId: attendance.id,
+            reason,
+            violationCount: streak.count,
+            violationThreshold: settings.violationThreshold,
+            coordinates: validation.coordinates ?? null,
+            locationAge: validation.locationAge ?? null,
+            isLive: validation.isLive ?? null
+        };
+
+        if (streak.count < settings.violationThreshold) {
+            console.log(`   - Violation ${streak.count}/${settings.violationThreshold} for ${employee.uid}, waiting before auto clock-out`);
+            if (!streak.warningSentAt) {
+                await this.recordDecision(db, projectName, decision);
+                if (isShadow) {
+                    await this.markWarningSent(db, projectName, employee.uid);
+                } else {
+                    await this.sendViolationWarning(db, projectName, employee, streak, settings);
+                }
+            }
+            return null;
+        }
+
+        await this.recordDecision(db, projectName, { ...decision, action: 'auto_clock_out' });
+
+        if (isShadow) {
+            // Shadow mode: record only, attendance stays untouched
+            console.log(`   - SHADOW: would auto clock-out ${employee.uid} (${reason})`);
+            await this.resetViolationStreak(db, projectName, employee.uid);
+            return null;
+        }
 
-        const clockOutResult = await this.performAutoClockOut(attendance, projectName, healthyDbs, employee.timezone);
+        const clockOutResult = await autoClockOut(attendance, employee, projectName, 'auto-location');
+
+        // Start counting from zero after acting on the streak
+        await this.resetViolationStreak(db, projectName, employee.uid);
 
         if (!clockOutResult.success) {
             return {
@@ -280,108 +391,281 @@ export class LocationMonitoringService {
             employeeName: getEmployeeFullName(employee),
             employeeChatID: employee.telegramChatID,
             managerChatID,
-            reason: validation.error ?? 'Outside working area'
+            reason
         };
     }
 
-    private async performAutoClockOut(attendance: AttendanceModel, projectName: string, healthyDbs: Record<string, firestore.Firestore>, employeeTimezone?: string | null): Promise<{ success: boolean; error?: string }> {
+    private async recordViolation(db: firestore.Firestore, projectName: string, uid: string, reason: string): Promise<ViolationStreak> {
+        const ref = db.collection(this.STREAKS_COLLECTION).doc(uid);
+        const now = dayjs.utc().toISOString();
+
+        return await retryDatabaseOperation(async () => {
+            return await db.runTransaction(async (tx) => {
+                const snap = await tx.get(ref);
+                const previous = snap.exists ? snap.data() as ViolationStreak : null;
+                const streak: ViolationStreak = {
+                    uid,
+                    count: (previous?.count ?? 0) + 1,
+                    firstFailureAt: previous?.firstFailureAt ?? now,
+                    lastFailureAt: now,
+                    lastReason: reason,
+                    warningSentAt: previous?.warningSentAt ?? null
+                };
+                tx.set(ref, streak);
+                return streak;
+            });
+        }, 2, 1000, projectName);
+    }
+
+    private async resetViolationStreak(db: firestore.Firestore, projectName: string, uid: string): Promise<void> {
+        try {
+            await retryDatabaseOperation(async () => {
+                return await db.collection(this.STREAKS_COLLECTION).doc(uid).delete();
+            }, 2, 1000, projectName);
+        } catch (error) {
+            console.error(`Error resetting violation streak for ${uid}:`, error);
+        }
+    }
+
+    /**
+     * Start a clean slate for a new clock-in or after a clock-out: failed checks and errand claims are cleared
+     * @param projectName - Firebase project name of the employee
+     * @param employeeUid - Employee's UID
+     */
+    async resetShiftState(projectName: string, employeeUid: string): Promise<void> {
+        const db = (await getHealthyDbInstances())[projectName];
+        if (!db) {
+            return;
+        }
+        try {
+            await retryDatabaseOperation(async () => {
+                const batch = db.batch();
+                batch.delete(db.collection(this.STREAKS_COLLECTION).doc(employeeUid));
+                batch.delete(db.collection(this.ERRANDS_COLLECTION).doc(employeeUid));
+                return await batch.commit();
+            }, 2, 1000, projectName);
+        } catch (error) {
+            console.error(`Error resetting location monitoring state for ${employeeUid}:`, error);
+        }
+    }
+
+    private async getErrandState(db: firestore.Firestore, projectName: string, uid: string): Promise<ErrandState | null> {
+        const snap = await retryDatabaseOperation(async () => {
+            return await db.collection(this.ERRANDS_COLLECTION).doc(uid).get();
+        }, 2, 1000, projectName);
+        return snap.exists ? snap.data() as ErrandState : null;
+    }
+
+    private isErrandActive(errand: ErrandState | null): errand is ErrandState & { approvedUntil: string } {
+        return !!errand?.approvedUntil && dayjs.utc().isBefore(dayjs.utc(errand.approvedUntil));
+    }
+
+    private async sendViolationWarning(
+        db: firestore.Firestore,
+        projectName: string,
+        employee: EmployeeModel,
+        streak: ViolationStreak,
+        settings: MonitoringSettings
+    ): Promise<void> {
+        if (!settings.notificationsEnabled || !employee.telegramChatID) {
+            return;
+        }
+
+        const remainingChecks = settings.violationThreshold - streak.count;
+        const minutesLeft = remainingChecks * settings.checkIntervalMinutes;
+        try {
+            await sendMessage(
+                parseInt(employee.telegramChatID),
+                `⚠️ Location check failed: ${streak.lastReason}\n\nYou will be automatically clocked out in about ${minutesLeft} minutes (${remainingChecks} more failed check${remainingChecks === 1 ? '' : 's'}) unless this is resolved.`,
+                {
+                    inline_keyboard: [
+                        [{ text: '📡 Re-share live location', callback_data: 'locwarn:reshare' }],
+                        [{ text: "🧾 I'm on an approved errand", callback_data: 'locwarn:errand' }]
+                    ]
+                }
+            );
+            await this.markWarningSent(db, projectName, employee.uid);
+        } catch (error) {
+            console.error(`Error sending location warning to ${employee.uid}:`, error);
+        }
+    }
+
+    private async markWarningSent(db: firestore.Firestore, projectName: string, uid: string): Promise<void> {
+        await retryDatabaseOperation(async () => {
+            return await db.collection(this.STREAKS_COLLECTION).doc(uid).update({ warningSentAt: dayjs.utc().toISOString() });
+        }, 2, 1000, projectName);
+    }
+
+    /**
+     * Settings applied to an employee and the failed location checks counted against them
+     * @param projectName - Firebase project name of the employee
+     * @param employeeUid - Employee's UID
+     * @returns Promise - Effective settings, the current streak (null when the last check passed) and the end of an approved errand
+     */
+    async getMonitoringStatus(
+        projectName: string,
+        employeeUid: string
+    ): Promise<{ enabled: boolean; settings: MonitoringSettings; streak: Pick<ViolationStreak, 'count'> | null; errandUntil: string | null }> {
+        const settings = await this.getProjectSettings(projectName);
+        const healthyDbs = await getHealthyDbInstances();
+        const db = healthyDbs[projectName];
+
+        let streak: ViolationStreak | null = null;
+        let errand: ErrandState | null = null;
+        if (db) {
+            const snap = await retryDatabaseOperation(async () => {
+                return await db.collection(this.STREAKS_COLLECTION).doc(employeeUid).get();
+            }, 2, 1000, projectName);
+            streak = snap.exists ? snap.data() as ViolationStreak : null;
+            errand = await this.getErrandState(db, projectName, employeeUid);
+        }
+
+        return {
+            enabled: this.FEATURE_ENABLED && settings.autoClockOutMode !== 'off',
+            settings,
+            streak: streak ? { count: streak.count } : null,
+            errandUntil: this.isErrandActive(errand) ? errand.approvedUntil : null
+        };
+    }
+
+    /**
+     * Ask the employee's manager to approve an errand outside the working area
+     * Auto clock-out keeps running until the manager approves; claims are capped per shift.
+     * @param projectName - Firebase project name of the employee
+     * @param employeeUid - Employee's UID
+     * @returns Promise<ErrandRequestResult> - 'requested' once the manager has been asked
+     */
+    async requestErrandApproval(projectName: string, employeeUid: string): Promise<ErrandRequestResult> {
+        const healthyDbs = await getHealthyDbInstances();
         const db = healthyDbs[projectName];
         if (!db) {
-            return { success: false, error: 'Database not available' };
+            throw new Error(`Database for project ${projectName} is not healthy`);
+        }
+
+        const streakSnap = await retryDatabaseOperation(async () => {
+            return await db.collection(this.STREAKS_COLLECTION).doc(employeeUid).get();
+        }, 2, 1000, projectName);
+        if (!streakSnap.exists) {
+            return { status: 'no_violation' };
+        }
+
+        const employee = await this.findEmployee(db, projectName, employeeUid);
+        const managerChatID = employee?.reportingLineManager
+            ? await this.findManagerChatID(employee.reportingLineManager, projectName, healthyDbs)
+            : undefined;
+        if (!employee || !managerChatID) {
+            return { status: 'no_manager' };
+        }
+
+        const settings = await this.getProjectSettings(projectName);
+        const ref = db.collection(this.ERRANDS_COLLECTION).doc(employeeUid);
+        const result = await retryDatabaseOperation(async () => {
+            return await db.runTransaction(async (tx): Promise<ErrandRequestResult> => {
+                const snap = await tx.get(ref);
+                const errand = snap.exists ? snap.data() as ErrandState : null;
+                if (errand?.pendingSince) {
+                    return { status: 'pending' };
+                }
+                const claims = errand?.claims ?? 0;
+                if (claims >= settings.maxErrandClaimsPerShift) {
+                    return { status: 'limit_reached', maxClaims: settings.maxErrandClaimsPerShift };
+                }
+                tx.set(ref, {
+                    uid: employeeUid,
+                    claims: claims + 1,
+                    pendingSince: dayjs.utc().toISOString(),
+                    approvedUntil: errand?.approvedUntil ?? null
+                });
+                return { status: 'requested' };
+            });
+        }, 2, 1000, projectName);
+        if (result.status !== 'requested') {
+            return result;
         }
 
         try {
-            const clockInDate = dayjs.utc(attendance.lastClockInTimestamp);
-            const clockOutTimestamp = dayjs.utc().toISOString();
-            const clockInDayIndex = clockInDate.date() - 1;
- 
-            // Calculate hours worked
-            const hoursWorked = dayjs.utc().diff(dayjs.utc(attendance.lastClockInTimestamp), 'hours', true);
- 
-            // Normalize to an array to avoid converting to a map/object when updating Firestore
-            const baseValues: DailyAttendance[] = Array.isArray(attendance.values)
-                ? [...attendance.values]
-                : this.normalizeAttendanceValues(attendance.values);
- 
-            // Clone existing worked hours for the day (if any)
-            const workedHours: WorkedHoursModel[] = baseValues[clockInDayIndex]?.workedHours
-                ? [...baseValues[clockInDayIndex]!.workedHours]
-                : [];
- 
-            // Add clock-out entry
-            const clockOutEntry: WorkedHoursModel = {
-                id: crypto.randomUUID(),
-                timestamp: clockOutTimestamp,
-                type: 'Clock Out',
-                hour: formatHour(clockOutTimestamp, employeeTimezone || undefined)
-            };
-            workedHours.push(clockOutEntry);
- 
-            // Update daily and monthly worked hours
-            const dailyWorkedHours = (baseValues[clockInDayIndex]?.dailyWorkedHours || 0) + hoursWorked;
-            const monthlyWorkedHours = attendance.monthlyWorkedHours + hoursWorked;
- 
-            // Build updated day entry (initialize when missing)
-            const updatedDay: DailyAttendance = {
-                ...(baseValues[clockInDayIndex] || {
-                    id: crypto.randomUUID(),
-                    day: clockInDayIndex + 1,
-                    value: null,
-                    timestamp: clockOutTimestamp,
-                    from: null,
-                    to: null,
-                    status: 'N/A' as const,
-                    dailyWorkedHours: 0,
-                    workedHours: []
-                }),
-                workedHours,
-                dailyWorkedHours,
-                value: 'A', // Mark as absent due to auto clock-out
-                status: 'Submitted',
-                timestamp: clockOutTimestamp
-            };
- 
-            // Keep values as an array
-            baseValues[clockInDayIndex] = updatedDay;
- 
-            // Update attendance record
-            const updateData = {
-                values: baseValues,
-                monthlyWorkedHours,
-                lastClockInTimestamp: null, // Clear clock-in timestamp
-                lastChanged: dayjs.utc().toISOString()
-            };
- 
+            await sendMessage(
+                parseInt(managerChatID),
+                `🧾 ${escapeHtml(getEmployeeFullName(employee))} reports being on an approved errand outside the working area.\n\nApprove to pause their auto clock-out for ${settings.errandGraceMinutes} minutes.`,
+                {
+                    inline_keyboard: [[
+                        { text: '✅ Approve', callback_data: `errand:approve:${employeeUid}` },
+                        { text: '❌ Refuse', callback_data: `errand:refuse:${employeeUid}` }
+                    ]]
+                }
+            );
+        } catch (error) {
+            // Give the claim back so the employee can try again
             await retryDatabaseOperation(async () => {
-                return await db.collection('attendance').doc(attendance.id).update(updateData);
+                return await ref.update({ claims: firestore.FieldValue.increment(-1), pendingSince: null });
             }, 2, 1000, projectName);
- 
-            return { success: true };
-        } catch (error) {
-            console.error('Error performing auto clock-out:', error);
-            return { success: false, error: 'Failed to update attendance record' };
+            throw error;
         }
+        return result;
     }
 
-    private normalizeAttendanceValues(raw: unknown): DailyAttendance[] {
-        // If it's already an array, return as-is
-        if (Array.isArray(raw)) {
-            return raw as DailyAttendance[];
-        }
-        // Convert map-like object with numeric keys to array, preserving indices
-        const arr: DailyAttendance[] = [];
-        if (raw && typeof raw === 'object') {
-            const entries = Object.entries(raw as Record<string, unknown>);
-            for (const [k, v] of entries) {
-                const idx = parseInt(k, 10);
-                if (!Number.isNaN(idx) && idx >= 0 && idx < 31) {
-                    arr[idx] = v as DailyAttendance;
+    /**
+     * Approve or refuse an errand claim as the employee's reporting line manager
+     * @param projectName - Firebase project name of the manager and the employee
+     * @param managerUid - UID of the manager answering
+     * @param employeeUid - UID of the employee who claimed the errand
+     * @param approved - Whether the errand is approved
+     * @returns Promise<ErrandDecisionResult> - Outcome; the employee is notified of a decision
+     */
+    async decideErrand(projectName: string, managerUid: string, employeeUid: string, approved: boolean): Promise<ErrandDecisionResult> {
+        const db = (await getHealthyDbInstances())[projectName];
+        if (!db) {
+            throw new Error(`Database for project ${projectName} is not healthy`);
+        }
+
+        const employee = await this.findEmployee(db, projectName, employeeUid);
+        if (!employee || employee.uid === managerUid || employee.reportingLineManager !== managerUid) {
+            return { status: 'not_authorized' };
+        }
+
+        const settings = await this.getProjectSettings(projectName);
+        const ref = db.collection(this.ERRANDS_COLLECTION).doc(employeeUid);
+        const errandUntil = dayjs.utc().add(settings.errandGraceMinutes, 'minute').toISOString();
+        const answered = await retryDatabaseOperation(async () => {
+            return await db.runTransaction(async (tx) => {
+                const snap = await tx.get(ref);
+                const errand = snap.exists ? snap.data() as ErrandState : null;
+                if (!errand?.pendingSince) {
+                    return false;
                 }
+                tx.update(ref, { pendingSince: null, approvedUntil: approved ? errandUntil : errand.approvedUntil });
+                return true;
+            });
+        }, 2, 1000, projectName);
+        if (!answered) {
+            return { status: 'not_pending' };
+        }
+
+        const employeeName = getEmployeeFullName(employee);
+        const timezone = employee.timezone ?? null;
+        if (employee.telegramChatID) {
+            try {
+                await sendMessage(parseInt(employee.telegramChatID), approved
+                    ? `✅ Your manager approved your errand. Auto clock-out is paused until ${formatHour(errandUntil, timezone || undefined)}.\n\nPlease share your live location again when you are back.`
+                    : '❌ Your manager did not approve the errand. Please return to your working area or share your live location.');
+            } catch (error) {
+                console.error(`Error sending errand decision to ${employeeUid}:`, error);
             }
         }
-        return arr;
+
+        return approved
+            ? { status: 'approved', employeeName, errandUntil, timezone }
+            : { status: 'refused', employeeName };
+    }
+
+    private async findEmployee(db: firestore.Firestore, projectName: string, uid: string): Promise<EmployeeModel | null> {
+        const query = await retryDatabaseOperation(async () => {
+            return await db.collection('employee').where('uid', '==', uid).limit(1).get();
+        }, 2, 1000, projectName);
+        const doc = query.docs[0];
+        return doc ? { id: doc.id, ...doc.data() } as EmployeeModel : null;
     }
- 
+
     private async findManagerChatID(managerUid: string, projectName: string, healthyDbs: Record<string, firestore.Firestore>): Promise<string | undefined> {
         try {
             const db = healthyDbs[projectName];
@@ -408,10 +692,6 @@ export class LocationMonitoringService {
     }
 
     private async sendNotifications(result: AutoClockOutResult): Promise<void> {
-        if (!this.NOTIFICATION_ENABLED) {
-            return;
-        }
-
         try {
             // Notify employee
             if (result.success) {
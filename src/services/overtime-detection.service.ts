@@ -0,0 +1,431 @@
+import { randomBytes } from 'crypto';
+import dayjs from 'dayjs';
+import { firestore } from 'firebase-admin';
+import { sendMessage } from '../bot';
+import { getHealthyDbInstances, getProjectDb, retryDatabaseOperation } from '../firebase-config';
+import { AttendanceModel, DailyAttendance } from '../models/attendance';
+import { EmployeeModel } from '../models/employee';
+import { OvertimeConfigurationModel } from '../models/hrSettings';
+import { OvertimeClaimModel } from '../models/overtime-claim';
+import { OvertimeRequestModel } from '../models/overtime-request';
+import calculateDailyWorkingHours from '../util/calculateDailyWorkingHours';
+import clampSetting from '../util/clampSetting';
+import { DEFAULT_TZ, dateFormat, formatDuration, parseDate } from '../util/dayjs_format';
+import escapeHtml from '../util/escapeHtml';
+import { getAttendancesByMonth } from '../util/functions/attendance/attendance-service';
+import { claimOnce } from '../util/functions/claim/claim-service';
+import { getEmployeeByUid, getEmployees, getHrEmployees } from '../util/functions/employee/employee-service';
+import { getHrSettingsByType } from '../util/functions/hr-settings/hr-settings-service';
+import { getOvertimeRequestsByDate } from '../util/functions/overtime/overtime-service';
+import getFullName from '../util/getEmployeeFullName';
+
+const CLAIMS_COLLECTION = 'overtimeClaims';
+
+const REASON_LABELS: Record<OvertimeClaimModel['reason'], string> = {
+    'extended-shift': 'beyond your shift',
+    'holiday': 'on a public holiday',
+    'non-working-day': 'on a non-working day'
+};
+
+// Overtime types are matched to the situation by name. A situation matching no type, or several,
+// is not proposed and HR is asked to fix the configuration.
+const OVERTIME_TYPE_PATTERNS: Record<OvertimeClaimModel['reason'], RegExp> = {
+    'extended-shift': /normal|regular|week\s?day|working\s?day|standard|extended/i,
+    'holiday': /holiday/i,
+    'non-working-day': /weekend|rest|day\s?off|non.?working|saturday|sunday/i
+};
+
+// Overtime is stored with the same time format as shift hours
+const TIME_FORMAT = 'hh:mm A';
+
+export class OvertimeDetectionService {
+    private intervalId?: NodeJS.Timeout | null;
+    private isRunning = false;
+
+    private readonly FEATURE_ENABLED = process.env.OVERTIME_DETECTION_ENABLED !== 'false';
+    private readonly CHECK_INTERVAL_MINUTES = 30;
+    // Local hour (DEFAULT_TZ) at which the previous day is analysed
+    private readonly DETECTION_HOUR = clampSetting(process.env.OVERTIME_DETECTION_HOUR, 1, 0, 23);
+    // Extra time on a working day shorter than this is not proposed
+    private readonly MIN_OVERTIME_MINUTES = clampSetting(process.env.OVERTIME_MIN_MINUTES, 30, 1, 600);
+    // One document per project and day, so the job runs once even across restarts
+    private readonly RUNS_COLLECTION = 'overtimeDetections';
+
+    startMonitoring(): void {
+        if (this.isRunning) {
+            console.log('Overtime detection already running');
+            return;
+        }
+
+        if (!this.FEATURE_ENABLED) {
+            console.log('Overtime detection feature is disabled');
+            return;
+        }
+
+        console.log(`Starting overtime detection service (daily at ${this.DETECTION_HOUR}:00 ${DEFAULT_TZ}, minimum ${this.MIN_OVERTIME_MINUTES} minutes)`);
+        this.isRunning = true;
+
+        this.intervalId = setInterval(() => {
+            this.runDetection();
+        }, this.CHECK_INTERVAL_MINUTES * 60 * 1000);
+    }
+
+    stopMonitoring(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        this.isRunning = false;
+        console.log('Overtime detection service stopped');
+    }
+
+    isMonitoring(): boolean {
+        return this.isRunning;
+    }
+
+    private async runDetection(): Promise<void> {
+        const now = dayjs.utc().tz(DEFAULT_TZ);
+        if (now.hour() < this.DETECTION_HOUR) {
+            return;
+        }
+
+        try {
+            const healthyDbs = await getHealthyDbInstances();
+            const yesterday = now.subtract(1, 'day').startOf('day');
+            for (const projectName of Object.keys(healthyDbs)) {
+                try {
+                    if (!await claimOnce(projectName, this.RUNS_COLLECTION, yesterday.format('YYYY-MM-DD'))) {
+                        continue;
+                    }
+                    await this.detectProjectOvertime(projectName, yesterday);
+                } catch (error) {
+                    console.error(`Error detecting overtime for ${projectName}:`, error);
+                }
+            }
+        } catch (error) {
+            console.error('Error in overtime detection:', error);
+        }
+    }
+
+    private async detectProjectOvertime(projectName: string, day: dayjs.Dayjs): Promise<void> {
+        const [employees, shiftTypes, shiftHours, holidays, overtimeTypes, overtimeRequests, attendances] = await Promise.all([
+            getEmployees(projectName),
+            getHrSettingsByType('shiftTypes', projectName),
+            getHrSettingsByType('shiftHours', projectName),
+            getHrSettingsByType('holidays', projectName),
+            getHrSettingsByType('overtimeTypes', projectName),
+            getOvertimeRequestsByDate(day.format(dateFormat), projectName),
+            getAttendancesByMonth(day.year(), day.format('MMMM') as AttendanceModel['month'], projectName)
+        ]);
+        const activeOvertimeTypes = overtimeTypes.filter(type => type.active === 'Yes');
+
+        let proposed = 0;
+        // Situations without a matching overtime type, with the number of employees left without a proposal
+        const unmatched = new Map<OvertimeClaimModel['reason'], number>();
+        for (const attendance of attendances) {
+            const employee = employees.find(candidate => candidate.uid === attendance.uid);
+            const shiftType = shiftTypes.find(type => type.id === employee?.shiftType);
+            if (!employee || !shiftType) {
+                continue;
+            }
+            // Overtime already requested by the manager for this day is not proposed again
+            if (overtimeRequests.some(request => request.status !== 'rejected' && request.employeeUids?.includes(employee.uid))) {
+                continue;
+            }
+
+            const tz = employee.timezone || DEFAULT_TZ;
+            const entry = this.findDayEntry(attendance, day.date());
+            // Hours are only final once the day's last shift is clocked out
+            const openOnDay = attendance.lastClockInTimestamp
+                && dayjs.utc(attendance.lastClockInTimestamp).tz(tz).format('YYYY-MM-DD') === day.format('YYYY-MM-DD');
+            if (!entry?.dailyWorkedHours || openOnDay) {
+                continue;
+            }
+
+            const localDay = dayjs.tz(day.format('YYYY-MM-DD'), tz);
+            const expectedHours = calculateDailyWorkingHours(localDay, shiftType, shiftHours, tz);
+            const isHoliday = holidays.some(holiday => holiday.active === 'Yes' && parseDate(holiday.date, tz).format('YYYY-MM-DD') === day.format('YYYY-MM-DD'));
+            const reason: OvertimeClaimModel['reason'] = isHoliday ? 'holiday' : expectedHours === 0 ? 'non-working-day' : 'extended-shift';
+
+            // Any work on a holiday or a non-working day counts as overtime
+            const overtimeHours = reason === 'extended-shift' ? entry.dailyWorkedHours - expectedHours : entry.dailyWorkedHours;
+            if (overtimeHours * 60 < this.MIN_OVERTIME_MINUTES) {
+                continue;
+            }
+
+            const overtimeType = this.matchOvertimeType(activeOvertimeTypes, reason);
+            if (!overtimeType) {
+                unmatched.set(reason, (unmatched.get(reason) ?? 0) + 1);
+                continue;
+            }
+            const period = this.findOvertimePeriod(entry, reason, overtimeHours, tz);
+            if (!period) {
+                // Hours entered without punches: there is no time of day to propose
+                continue;
+            }
+            const overtimeRate = overtimeType.overtimeRate;
+            const roundedHours = Math.round(overtimeHours * 100) / 100;
+            const claim: Omit<OvertimeClaimModel, 'id'> = {
+                timestamp: dayjs.utc().toISOString(),
+                uid: employee.uid,
+                attendanceID: attendance.id,
+                date: day.format(dateFormat),
+                reason,
+                workedHours: entry.dailyWorkedHours,
+                expectedHours,
+                overtimeHours: roundedHours,
+                overtimeStartTime: period.start,
+                overtimeEndTime: period.end,
+                overtimeType: overtimeType.id,
+                overtimeRate,
+                amount: employee.hourlyWage ? Math.round(roundedHours * overtimeRate * employee.hourlyWage * 100) / 100 : null,
+                status: 'Proposed',
+                claimedAt: null,
+                reviewedBy: null,
+                reviewedDate: null,
+                overtimeRequestID: null
+            };
+
+            const claimId = `${employee.uid}_${day.format('YYYY-MM-DD')}`;
+            // Already proposed, or not saved (logged by claimOnce); the other employees are still checked
+            if (!await claimOnce(projectName, CLAIMS_COLLECTION, claimId, claim).catch(() => false)) {
+                continue;
+            }
+            proposed++;
+            await this.promptEmployee(employee, { ...claim, id: claimId }, overtimeType);
+        }
+
+        console.log(`⏱️ Proposed ${proposed} overtime claims for ${projectName} (${day.format('YYYY-MM-DD')})`);
+        if (unmatched.size > 0) {
+            await this.alertHr(projectName, day, unmatched);
+        }
+    }
+
+    private async alertHr(projectName: string, day: dayjs.Dayjs, unmatched: Map<OvertimeClaimModel['reason'], number>): Promise<void> {
+        console.warn(`⏱️ No single overtime type matches ${[...unmatched.keys()].join(', ')} in ${projectName}; proposals skipped`);
+        const lines = [
+            `⚠️ <b>Overtime not proposed</b> for ${day.format(dateFormat)}`,
+            '',
+            ...[...unmatched.entries()].map(([reason, count]) => `• Work ${REASON_LABELS[reason].replace('your', 'the')}: ${count} employee${count === 1 ? '' : 's'}`),
+            '',
+            'No active overtime type, or more than one, matches these situations. Name exactly one active overtime type after each situation (e.g. "Regular", "Holiday", "Weekend") in the HR settings.'
+        ];
+        const hrEmployees = (await getHrEmployees(projectName)).filter(employee => employee.telegramChatID);
+        for (const hr of hrEmployees) {
+            try {
+                await sendMessage(parseInt(hr.telegramChatID!), lines.join('\n'));
+            } catch (error) {
+                console.error(`Error sending overtime configuration alert to ${hr.uid}:`, error);
+            }
+        }
+    }
+
+    private async promptEmployee(employee: EmployeeModel, claim: OvertimeClaimModel, overtimeType: OvertimeConfigurationModel): Promise<void> {
+        if (!employee.telegramChatID) {
+            return;
+        }
+
+        const lines = [
+            `⏱️ On ${claim.date} you worked <b>${formatDuration(claim.overtimeHours)}</b> ${REASON_LABELS[claim.reason]} (${formatDuration(claim.workedHours)} worked, ${formatDuration(claim.expectedHours)} scheduled).`,
+            '',
+            describeValue(claim, overtimeType.overtimeType, employee.currency),
+            '',
+            'Do you want to claim it as overtime? Your manager will be asked to confirm.'
+        ];
+        try {
+            await sendMessage(parseInt(employee.telegramChatID), lines.join('\n'), {
+                inline_keyboard: [[
+                    { text: '✅ Claim', callback_data: `otclaim:claim:${claim.id}` },
+                    { text: '🚫 Dismiss', callback_data: `otclaim:dismiss:${claim.id}` }
+                ]]
+            });
+        } catch (error) {
+            console.error(`Error sending overtime claim prompt to ${employee.uid}:`, error);
+        }
+    }
+
+    private matchOvertimeType(types: OvertimeConfigurationModel[], reason: OvertimeClaimModel['reason']): OvertimeConfigurationModel | null {
+        const matched = types.filter(type => OVERTIME_TYPE_PATTERNS[reason].test(type.overtimeType ?? ''));
+        return matched.length === 1 ? matched[0] ?? null : null;
+    }
+
+    // Extra hours end at the last clock-out; on a day off they run from the first clock-in
+    private findOvertimePeriod(
+        entry: DailyAttendance,
+        reason: OvertimeClaimModel['reason'],
+        overtimeHours: number,
+        tz: string
+    ): { start: string; end: string } | null {
+        const punches = [...(entry.workedHours ?? [])].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+        const firstIn = punches.find(punch => punch.type === 'Clock In');
+        const lastOut = [...punches].reverse().find(punch => punch.type === 'Clock Out');
+        if (!firstIn || !lastOut) {
+            return null;
+        }
+        const end = dayjs.utc(lastOut.timestamp).tz(tz);
+        const start = reason === 'extended-shift' ? end.subtract(Math.round(overtimeHours * 60), 'minute') : dayjs.utc(firstIn.timestamp).tz(tz);
+        return { start: start.format(TIME_FORMAT), end: end.format(TIME_FORMAT) };
+    }
+
+    // Older sheets store values as a map with numeric keys
+    private findDayEntry(attendance: AttendanceModel, day: number): DailyAttendance | null {
+        const values = Object.values(attendance.values ?? {}) as (DailyAttendance | null)[];
+        return values.find(entry => entry?.day === day) ?? null;
+    }
+}
+
+/**
+ * Handle the claim buttons (callback data starting with "otclaim:")
+ * The employee claims or dismisses the proposed hours; the manager then confirms or refuses the claim.
+ * @param chatId - Telegram chat ID
+ * @param data - Callback data
+ * @param employeeUid - Employee pressing the button
+ * @param projectName - Firebase project name the employee belongs to
+ */
+export async function handleOvertimeClaimCallback(chatId: number, data: string, employeeUid: string, projectName: string): Promise<void> {
+    const [, action, claimId] = data.split(':');
+    if (!claimId) {
+        return;
+    }
+
+    const db = await getProjectDb(projectName);
+    const ref = db.collection(CLAIMS_COLLECTION).doc(claimId);
+    const snap = await retryDatabaseOperation(async () => {
+        return await ref.get();
+    }, 2, 1000, projectName);
+    if (!snap.exists) {
+        await sendMessage(chatId, '❌ This overtime claim no longer exists.');
+        return;
+    }
+    const claim = { ...snap.data(), id: snap.id } as OvertimeClaimModel;
+
+    if (action === 'claim' || action === 'dismiss') {
+        if (claim.uid !== employeeUid) {
+            await sendMessage(chatId, '❌ This overtime claim is not yours.');
+            return;
+        }
+        if (claim.status !== 'Proposed') {
+            await sendMessage(chatId, 'ℹ️ You have already answered this overtime proposal.');
+            return;
+        }
+        if (action === 'dismiss') {
+            await ref.update({ status: 'Dismissed' });
+            await sendMessage(chatId, '🚫 Overtime proposal dismissed.');
+            return;
+        }
+        await ref.update({ status: 'Claimed', claimedAt: dayjs.utc().toISOString() });
+        await sendMessage(chatId, `✅ Overtime for ${claim.date} claimed. Your manager has been asked to confirm it.`);
+        await askManagerConfirmation(claim, projectName);
+        return;
+    }
+
+    if (action === 'confirm' || action === 'refuse') {
+        const employee = await getEmployeeByUid(claim.uid, projectName);
+        if (!employee || employee.reportingLineManager !== employeeUid) {
+            await sendMessage(chatId, '❌ Only the employee\'s manager can confirm this overtime.');
+            return;
+        }
+        await reviewClaim(chatId, db, claim, employee, employeeUid, action === 'confirm', projectName);
+    }
+}
+
+async function askManagerConfirmation(claim: OvertimeClaimModel, projectName: string): Promise<void> {
+    const employee = await getEmployeeByUid(claim.uid, projectName);
+    const manager = employee?.reportingLineManager ? await getEmployeeByUid(employee.reportingLineManager, projectName) : null;
+    if (!employee || !manager?.telegramChatID) {
+        return;
+    }
+
+    const overtimeType = (await getHrSettingsByType('overtimeTypes', projectName)).find(type => type.id === claim.overtimeType) ?? null;
+    const lines = [
+        `⏱️ <b>${escapeHtml(getFullName(employee).trim())}</b> claims <b>${formatDuration(claim.overtimeHours)}</b> of overtime worked ${REASON_LABELS[claim.reason].replace('your', 'their')} on ${claim.date}.`,
+        `Worked ${formatDuration(claim.workedHours)}, scheduled ${formatDuration(claim.expectedHours)}.`,
+        '',
+        describeValue(claim, overtimeType?.overtimeType ?? null, employee.currency)
+    ];
+    await sendMessage(parseInt(manager.telegramChatID), lines.join('\n'), {
+        inline_keyboard: [[
+            { text: '✅ Confirm', callback_data: `otclaim:confirm:${claim.id}` },
+            { text: '❌ Refuse', callback_data: `otclaim:refuse:${claim.id}` }
+        ]]
+    });
+}
+
+// A confirmed claim becomes an overtime request for HR and is recorded on the attendance sheet and the employee
+async function reviewClaim(
+    chatId: number,
+    db: firestore.Firestore,
+    claim: OvertimeClaimModel,
+    employee: EmployeeModel,
+    managerUid: string,
+    confirmed: boolean,
+    projectName: string
+): Promise<void> {
+    const claimRef = db.collection(CLAIMS_COLLECTION).doc(claim.id);
+    const overtimeRef = db.collection('overtimeRequest').doc();
+    const now = dayjs.utc().toISOString();
+
+    const decided = await db.runTransaction(async (tx) => {
+        const snap = await tx.get(claimRef);
+        if ((snap.data() as OvertimeClaimModel | undefined)?.status !== 'Claimed') {
+            return false;
+        }
+        tx.update(claimRef, {
+            status: confirmed ? 'Confirmed' : 'Refused',
+            reviewedBy: managerUid,
+            reviewedDate: now,
+            overtimeRequestID: confirmed ? overtimeRef.id : null
+        });
+        if (confirmed) {
+            const overtime: Omit<OvertimeRequestModel, 'id'> = {
+                timestamp: now,
+                overtimeId: `OT-${parseDate(claim.date, DEFAULT_TZ).format('YYYYMMDD')}-${randomBytes(2).toString('hex').toUpperCase()}`,
+                overtimeDate: claim.date,
+                overtimeStartTime: claim.overtimeStartTime,
+                overtimeEndTime: claim.overtimeEndTime,
+                duration: claim.overtimeHours,
+                overtimeType: claim.overtimeType,
+                employeeUids: [claim.uid],
+                overtimeGoal: `Hours worked ${REASON_LABELS[claim.reason].replace('your', 'the')}`,
+                overtimeJustification: `Detected from attendance: ${formatDuration(claim.workedHours)} worked, ${formatDuration(claim.expectedHours)} scheduled. Claimed by the employee and confirmed by the manager.`,
+                status: 'pending',
+                requestedBy: managerUid,
+                reviewedDate: null,
+                reviewedBy: null,
+                hrComments: null,
+                acknowledgedBy: [claim.uid]
+            };
+            tx.create(overtimeRef, overtime);
+            tx.update(db.collection('attendance').doc(claim.attendanceID), { claimedOvertimes: firestore.FieldValue.arrayUnion(overtimeRef.id) });
+            tx.update(db.collection('employee').doc(employee.id), { claimedOvertimes: firestore.FieldValue.arrayUnion(overtimeRef.id) });
+        }
+        return true;
+    });
+
+    if (!decided) {
+        await sendMessage(chatId, 'ℹ️ This overtime claim has already been reviewed.');
+        return;
+    }
+
+    await sendMessage(chatId, confirmed
+        ? `✅ Overtime confirmed. It has been sent to HR for approval.`
+        : `❌ Overtime claim refused.`);
+    if (employee.telegramChatID) {
+        await sendMessage(
+            parseInt(employee.telegramChatID),
+            confirmed
+                ? `✅ Your manager confirmed your overtime claim for ${claim.date} (${formatDuration(claim.overtimeHours)}). It now waits for HR approval.`
+                : `❌ Your manager refused your overtime claim for ${claim.date}.`
+        ).catch((error) => console.error(`Error notifying overtime claim review to ${employee.uid}:`, error));
+    }
+    console.log(`⏱️ Overtime claim ${claim.id} in ${projectName} ${confirmed ? 'confirmed' : 'refused'} by ${managerUid}`);
+}
+
+function describeValue(claim: OvertimeClaimModel, overtimeTypeName: string | null, currency: string | undefined): string {
+    const type = overtimeTypeName ? `${escapeHtml(overtimeTypeName)}, ` : '';
+    const amount = claim.amount !== null ? ` ≈ ${claim.amount.toLocaleString('en-US')} ${escapeHtml(currency ?? '')}`.trimEnd() : '';
+    return `💰 ${type}rate ×${claim.overtimeRate}: ${Math.round(claim.overtimeHours * claim.overtimeRate * 100) / 100} paid hours${amount}`;
+}
+
+// Export singleton instance
+export const overtimeDetectionService = new OvertimeDetectionService();
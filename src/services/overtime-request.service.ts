@@ -0,0 +1,496 @@
+import { randomBytes } from 'crypto';
+import dayjs from 'dayjs';
+import { firestore } from 'firebase-admin';
+import { bot, sendMessage } from '../bot';
+import { getHealthyDbInstances, getProjectDb, retryDatabaseOperation } from '../firebase-config';
+import { EmployeeModel } from '../models/employee';
+import { OvertimeRequestModel } from '../models/overtime-request';
+import { InlineKeyboardMarkup } from '../types/telegram';
+import { DEFAULT_TZ, dateFormat, parseLocalTime } from '../util/dayjs_format';
+import escapeHtml from '../util/escapeHtml';
+import { getEmployeeById, getEmployeeByUid, getEmployees } from '../util/functions/employee/employee-service';
+import { getHrSettingById, getHrSettingsByType } from '../util/functions/hr-settings/hr-settings-service';
+import getFullName from '../util/getEmployeeFullName';
+import { buildCalendarKeyboard } from '../util/inlineCalendar';
+import { conversations } from './conversation.service';
+
+const FLOW = 'overtime';
+const OVERTIME_COLLECTION = 'overtimeRequest';
+// Overtime can be recorded after the fact, up to this many days back
+const MAX_DAYS_BACK = 30;
+const MAX_MONTHS_AHEAD = 3;
+// Overtime is stored with the same time format as shift hours
+const TIME_FORMAT = 'hh:mm A';
+
+interface OvertimeRequestData extends Record<string, unknown> {
+    managerUid: string;
+    projectName: string;
+    timezone: string;
+    reportees: { uid: string; name: string }[];
+    date?: string; // YYYY-MM-DD
+    startTime?: string; // ISO
+    endTime?: string; // ISO
+    overtimeTypeId?: string;
+    overtimeTypeName?: string;
+    employeeUids?: string[];
+    goal?: string;
+    justification?: string;
+}
+
+/**
+ * Start the /overtime conversation for a manager by asking for the date
+ * @param chatId - Telegram chat ID
+ * @param employeeId - Manager's employee document ID
+ * @param projectName - Firebase project name the manager belongs to
+ */
+export async function startOvertimeRequest(chatId: number, employeeId: string, projectName: string): Promise<void> {
+    const manager = await getEmployeeById(employeeId, projectName);
+    if (!manager) {
+        await sendMessage(chatId, '❌ Employee record not found.');
+        return;
+    }
+
+    const reportees = await findReportees(manager, projectName);
+    if (reportees.length === 0) {
+        await sendMessage(chatId, '❌ Only managers with team members can request overtime.');
+        return;
+    }
+
+    const timezone = manager.timezone || DEFAULT_TZ;
+    await conversations.start<OvertimeRequestData>(chatId, FLOW, 'date', {
+        managerUid: manager.uid,
+        projectName,
+        timezone,
+        reportees: reportees.map(reportee => ({ uid: reportee.uid, name: getFullName(reportee).trim() }))
+    });
+    await sendMessage(chatId, '⏱️ <b>Overtime request</b>\n\nOn which day is the overtime?', buildCalendar(timezone, today(timezone)));
+}
+
+/**
+ * Handle the inline buttons of the /overtime conversation (callback data starting with "overtime:")
+ * @param chatId - Telegram chat ID
+ * @param data - Callback data
+ * @param messageId - Message holding the pressed button, edited in place for the calendar and team selection
+ */
+export async function handleOvertimeCallback(chatId: number, data: string, messageId?: number): Promise<void> {
+    const [, action, argument] = data.split(':');
+    if (action === 'noop') {
+        return;
+    }
+
+    const conversation = await conversations.get<OvertimeRequestData>(chatId, FLOW);
+    if (!conversation) {
+        await sendMessage(chatId, '⌛ This overtime request has expired. Please start again with /overtime.');
+        return;
+    }
+    const { data: request, step } = conversation;
+
+    switch (action) {
+        case 'cancel':
+            await conversations.end(chatId);
+            await sendMessage(chatId, '✖️ Overtime request cancelled.');
+            return;
+        case 'nav':
+            if (messageId && step === 'date') {
+                await bot.editMessageReplyMarkup(buildCalendar(request.timezone, dayjs(`${argument}-01`)), { chat_id: chatId, message_id: messageId })
+                    .catch(() => undefined);
+            }
+            return;
+        case 'day':
+            if (step === 'date' && argument && dayjs(argument).isValid()) {
+                await conversations.advance<OvertimeRequestData>(chatId, 'times', { date: argument });
+                await sendMessage(
+                    chatId,
+                    `📅 ${dayjs(argument).format(dateFormat)}\n\n🕘 Send the start and end time, e.g. <code>18:00-21:00</code>.`,
+                    cancelKeyboard()
+                );
+            }
+            return;
+        case 'type':
+            if (step === 'type') {
+                await selectOvertimeType(chatId, request, argument ?? '');
+            }
+            return;
+        case 'member':
+        case 'all':
+            if (step === 'team') {
+                const selected = new Set(request.employeeUids ?? []);
+                if (action === 'all') {
+                    request.reportees.forEach(reportee => selected.add(reportee.uid));
+                } else if (argument && selected.has(argument)) {
+                    selected.delete(argument);
+                } else if (argument && isReportee(request, argument)) {
+                    selected.add(argument);
+                }
+                await conversations.advance<OvertimeRequestData>(chatId, 'team', { employeeUids: [...selected] });
+                if (messageId) {
+                    await bot.editMessageReplyMarkup(buildTeamKeyboard(request.reportees, selected), { chat_id: chatId, message_id: messageId })
+                        .catch(() => undefined);
+                }
+            }
+            return;
+        case 'done':
+            if (step === 'team') {
+                if ((request.employeeUids ?? []).length === 0) {
+                    await sendMessage(chatId, '👆 Select at least one team member.');
+                    return;
+                }
+                await conversations.advance<OvertimeRequestData>(chatId, 'goal', {});
+                await sendMessage(chatId, '🎯 What is the goal of this overtime?', cancelKeyboard());
+            }
+            return;
+        case 'confirm':
+            if (step === 'confirm') {
+                await createOvertimeRequest(chatId, request);
+            }
+            return;
+    }
+}
+
+/**
+ * Handle free text typed during the /overtime conversation
+ * @param chatId - Telegram chat ID
+ * @param text - Message text
+ * @returns Promise<boolean> - Whether the text belonged to the conversation
+ */
+export async function handleOvertimeText(chatId: number, text: string): Promise<boolean> {
+    const conversation = await conversations.get<OvertimeRequestData>(chatId, FLOW);
+    if (!conversation) {
+        return false;
+    }
+    const { data: request, step } = conversation;
+    const value = text.trim();
+
+    if (step === 'times') {
+        const [from, to, ...rest] = value.split(/\s*(?:-|–|to)\s*/i);
+        const start = parseLocalTime(from ?? '', request.date ?? '', request.timezone);
+        let end = parseLocalTime(to ?? '', request.date ?? '', request.timezone);
+        if (rest.length > 0 || !start || !end) {
+            await sendMessage(chatId, '❌ I could not read those times. Send them like <code>18:00-21:00</code>.', cancelKeyboard());
+            return true;
+        }
+        // Overtime ending before it starts runs past midnight
+        if (!end.isAfter(start)) {
+            end = end.add(1, 'day');
+        }
+        await conversations.advance<OvertimeRequestData>(chatId, 'type', { startTime: start.toISOString(), endTime: end.toISOString() });
+        await askForOvertimeType(chatId, request.projectName);
+    } else if (step === 'goal' && value) {
+        await conversations.advance<OvertimeRequestData>(chatId, 'justification', { goal: value });
+        await sendMessage(chatId, '📝 Why is this overtime needed? Send the justification.', cancelKeyboard());
+    } else if (step === 'justification' && value) {
+        await conversations.advance<OvertimeRequestData>(chatId, 'confirm', { justification: value });
+        await confirmOvertimeRequest(chatId, { ...request, justification: value });
+    } else {
+        await sendMessage(chatId, '👆 Please use the buttons above, or tap Cancel.');
+    }
+    return true;
+}
+
+async function askForOvertimeType(chatId: number, projectName: string): Promise<void> {
+    const overtimeTypes = (await getHrSettingsByType('overtimeTypes', projectName)).filter(type => type.active === 'Yes');
+    if (overtimeTypes.length === 0) {
+        await conversations.end(chatId);
+        await sendMessage(chatId, '❌ No overtime types are configured yet. Please contact HR.');
+        return;
+    }
+    await sendMessage(chatId, '🏷️ Which type of overtime?', {
+        inline_keyboard: [
+            ...overtimeTypes.map(type => [{ text: `${type.overtimeType} (×${type.overtimeRate})`, callback_data: `overtime:type:${type.id}` }]),
+            [{ text: '✖️ Cancel', callback_data: 'overtime:cancel' }]
+        ]
+    });
+}
+
+async function selectOvertimeType(chatId: number, request: OvertimeRequestData, typeId: string): Promise<void> {
+    const overtimeType = await getHrSettingById('overtimeTypes', typeId, request.projectName);
+    if (!overtimeType || overtimeType.active !== 'Yes') {
+        await sendMessage(chatId, '❌ This overtime type is no longer available. Pick another one above.');
+        return;
+    }
+
+    await conversations.advance<OvertimeRequestData>(chatId, 'team', {
+        overtimeTypeId: overtimeType.id,
+        overtimeTypeName: overtimeType.overtimeType,
+        employeeUids: []
+    });
+    await sendMessage(chatId, '👥 Who will work this overtime? Tap team members to select them, then Done.', buildTeamKeyboard(request.reportees, new Set()));
+}
+
+async function confirmOvertimeRequest(chatId: number, request: OvertimeRequestData): Promise<void> {
+    const start = dayjs.utc(request.startTime);
+    const end = dayjs.utc(request.endTime);
+    const members = request.reportees.filter(reportee => request.employeeUids?.includes(reportee.uid)).map(reportee => reportee.name);
+    const lines = [
+        '⏱️ <b>Please confirm the overtime request</b>',
+        '',
+        `Date: ${dayjs(request.date).format(dateFormat)}`,
+        `Time: ${start.tz(request.timezone).format(TIME_FORMAT)} – ${end.tz(request.timezone).format(TIME_FORMAT)} (${formatHours(end.diff(start, 'hours', true))})`,
+        `Type: ${escapeHtml(request.overtimeTypeName ?? '')}`,
+        `Team: ${escapeHtml(members.join(', '))}`,
+        `Goal: ${escapeHtml(request.goal ?? '')}`,
+        `Justification: ${escapeHtml(request.justification ?? '')}`
+    ];
+    await sendMessage(chatId, lines.join('\n'), {
+        inline_keyboard: [[{ text: '📤 Submit', callback_data: 'overtime:confirm' }, { text: '✖️ Cancel', callback_data: 'overtime:cancel' }]]
+    });
+}
+
+async function createOvertimeRequest(chatId: number, request: OvertimeRequestData): Promise<void> {
+    await conversations.end(chatId);
+    // Only the manager's reportees can be assigned overtime
+    const employeeUids = (request.employeeUids ?? []).filter(uid => isReportee(request, uid));
+    if (!request.date || !request.startTime || !request.endTime || !request.overtimeTypeId || employeeUids.length === 0) {
+        await sendMessage(chatId, '⌛ This overtime request has expired. Please start again with /overtime.');
+        return;
+    }
+
+    const start = dayjs.utc(request.startTime);
+    const end = dayjs.utc(request.endTime);
+    const overtime: Omit<OvertimeRequestModel, 'id'> = {
+        timestamp: dayjs.utc().toISOString(),
+        overtimeId: `OT-${dayjs(request.date).format('YYYYMMDD')}-${randomBytes(2).toString('hex').toUpperCase()}`,
+        overtimeDate: dayjs(request.date).format(dateFormat),
+        overtimeStartTime: start.tz(request.timezone).format(TIME_FORMAT),
+        overtimeEndTime: end.tz(request.timezone).format(TIME_FORMAT),
+        duration: Math.round(end.diff(start, 'hours', true) * 100) / 100,
+        overtimeType: request.overtimeTypeId,
+        employeeUids,
+        overtimeGoal: request.goal ?? '',
+        overtimeJustification: request.justification ?? '',
+        status: 'pending',
+        requestedBy: request.managerUid,
+        reviewedDate: null,
+        reviewedBy: null,
+        hrComments: null,
+        acknowledgedBy: []
+    };
+
+    let overtimeDocId: string;
+    try {
+        const db = await getProjectDb(request.projectName);
+        const ref = await retryDatabaseOperation(async () => {
+            return await db.collection(OVERTIME_COLLECTION).add(overtime);
+        }, 2, 1000, request.projectName);
+        overtimeDocId = ref.id;
+    } catch (error) {
+        console.error('Error creating overtime request:', error);
+        await sendMessage(chatId, '❌ Could not submit the overtime request. Please try again later.');
+        return;
+    }
+
+    await sendMessage(chatId, `✅ Overtime request <b>${overtime.overtimeId}</b> (${formatHours(overtime.duration)}) has been sent to HR. Your team has been asked to acknowledge it.`);
+
+    const manager = await getEmployeeByUid(request.managerUid, request.projectName);
+    const managerName = manager ? escapeHtml(getFullName(manager).trim()) : 'Your manager';
+    for (const uid of overtime.employeeUids) {
+        const employee = await getEmployeeByUid(uid, request.projectName);
+        if (!employee?.telegramChatID) {
+            continue;
+        }
+        try {
+            await sendMessage(
+                parseInt(employee.telegramChatID),
+                `⏱️ ${managerName} requested overtime for you.\n\n${describeOvertime(overtime, request.overtimeTypeName ?? overtime.overtimeType)}\n\nPlease acknowledge it.`,
+                { inline_keyboard: [[{ text: '👍 Acknowledge', callback_data: `otack:${overtimeDocId}` }]] }
+            );
+        } catch (error) {
+            console.error(`Error sending overtime request to ${uid}:`, error);
+        }
+    }
+}
+
+/**
+ * Record an employee's acknowledgement of an overtime request and let the requesting manager know
+ * @param chatId - Telegram chat ID
+ * @param overtimeDocId - Overtime request document ID
+ * @param employeeUid - Employee pressing the Acknowledge button
+ * @param projectName - Firebase project name the employee belongs to
+ */
+export async function acknowledgeOvertime(chatId: number, overtimeDocId: string, employeeUid: string, projectName: string): Promise<void> {
+    const db = await getProjectDb(projectName);
+    const ref = db.collection(OVERTIME_COLLECTION).doc(overtimeDocId);
+    const snap = await retryDatabaseOperation(async () => {
+        return await ref.get();
+    }, 2, 1000, projectName);
+    if (!snap.exists) {
+        await sendMessage(chatId, '❌ This overtime request no longer exists.');
+        return;
+    }
+
+    const overtime = snap.data() as OvertimeRequestModel;
+    if (!overtime.employeeUids?.includes(employeeUid)) {
+        await sendMessage(chatId, '❌ This overtime request is not assigned to you.');
+        return;
+    }
+    if (overtime.acknowledgedBy?.includes(employeeUid)) {
+        await sendMessage(chatId, 'ℹ️ You have already acknowledged this overtime.');
+        return;
+    }
+
+    await retryDatabaseOperation(async () => {
+        return await ref.update({ acknowledgedBy: firestore.FieldValue.arrayUnion(employeeUid) });
+    }, 2, 1000, projectName);
+    await sendMessage(chatId, `👍 Overtime <b>${overtime.overtimeId}</b> acknowledged.`);
+
+    const [employee, manager] = await Promise.all([
+        getEmployeeByUid(employeeUid, projectName),
+        getEmployeeByUid(overtime.requestedBy, projectName)
+    ]);
+    if (manager?.telegramChatID) {
+        const name = employee ? escapeHtml(getFullName(employee).trim()) : 'An employee';
+        await sendMessage(parseInt(manager.telegramChatID), `👍 ${name} acknowledged overtime <b>${overtime.overtimeId}</b>.`);
+    }
+}
+
+function describeOvertime(overtime: Omit<OvertimeRequestModel, 'id'>, overtimeTypeName: string): string {
+    return [
+        `📅 ${overtime.overtimeDate}, ${overtime.overtimeStartTime} – ${overtime.overtimeEndTime} (${formatHours(overtime.duration)})`,
+        `🏷️ ${escapeHtml(overtimeTypeName)}`,
+        `🎯 ${escapeHtml(overtime.overtimeGoal)}`
+    ].join('\n');
+}
+
+async function findReportees(manager: EmployeeModel, projectName: string): Promise<EmployeeModel[]> {
+    const employees = await getEmployees(projectName);
+    return employees
+        .filter(employee => employee.uid !== manager.uid && (
+            employee.reportingLineManager === manager.uid || (manager.reportees ?? []).includes(employee.uid)
+        ))
+        .sort((a, b) => getFullName(a).localeCompare(getFullName(b)));
+}
+
+function isReportee(request: OvertimeRequestData, uid: string): boolean {
+    return request.reportees.some(reportee => reportee.uid === uid);
+}
+
+function buildCalendar(timezone: string, month: dayjs.Dayjs): InlineKeyboardMarkup {
+    const keyboard = buildCalendarKeyboard(month, FLOW, {
+        minDate: today(timezone).subtract(MAX_DAYS_BACK, 'day'),
+        maxMonth: today(timezone).add(MAX_MONTHS_AHEAD, 'month')
+    });
+    keyboard.inline_keyboard.push([{ text: '✖️ Cancel', callback_data: 'overtime:cancel' }]);
+    return keyboard;
+}
+
+function buildTeamKeyboard(reportees: OvertimeRequestData['reportees'], selected: Set<string>): InlineKeyboardMarkup {
+    return {
+        inline_keyboard: [
+            ...reportees.map(reportee => [{
+                text: `${selected.has(reportee.uid) ? '✅' : '⬜️'} ${reportee.name}`,
+                callback_data: `overtime:member:${reportee.uid}`
+            }]),
+            [{ text: '☑️ Select all', callback_data: 'overtime:all' }, { text: '➡️ Done', callback_data: 'overtime:done' }],
+            [{ text: '✖️ Cancel', callback_data: 'overtime:cancel' }]
+        ]
+    };
+}
+
+// Calendar dates are handled as plain local dates; only "today" depends on the manager's timezone
+function today(timezone: string): dayjs.Dayjs {
+    return dayjs(dayjs.utc().tz(timezone).format('YYYY-MM-DD'));
+}
+
+function formatHours(hours: number): string {
+    const rounded = Math.round(hours * 100) / 100;
+    return `${rounded}h`;
+}
+
+function cancelKeyboard(): InlineKeyboardMarkup {
+    return { inline_keyboard: [[{ text: '✖️ Cancel', callback_data: 'overtime:cancel' }]] };
+}
+
+// Tells the requesting manager and the employees when HR approves or rejects an overtime request
+export class OvertimeDecisionWatcher {
+    private unsubscribers: (() => void)[] = [];
+    private isRunning = false;
+    // Decisions older than this are not announced (e.g. requests decided before the bot existed)
+    private readonly LOOKBACK_DAYS = 3;
+
+    async start(): Promise<void> {
+        this.isRunning = true;
+        const healthyDbs = await getHealthyDbInstances();
+        for (const [projectName, db] of Object.entries(healthyDbs)) {
+            this.watchProject(projectName, db);
+        }
+        console.log(`👀 Watching overtime requests in ${Object.keys(healthyDbs).length} projects`);
+    }
+
+    stop(): void {
+        this.isRunning = false;
+        for (const unsubscribe of this.unsubscribers) {
+            unsubscribe();
+        }
+        this.unsubscribers = [];
+    }
+
+    private watchProject(projectName: string, db: firestore.Firestore): void {
+        if (!this.isRunning) {
+            return;
+        }
+        const unsubscribe = db.collection(OVERTIME_COLLECTION)
+            .where('status', 'in', ['approved', 'rejected'])
+            .onSnapshot(snapshot => {
+                for (const change of snapshot.docChanges()) {
+                    if (change.type !== 'removed') {
+                        void this.notifyDecision(projectName, db, change.doc.ref);
+                    }
+                }
+            }, error => {
+                console.error(`Overtime request listener failed for ${projectName}, retrying in 60s:`, error);
+                setTimeout(() => this.watchProject(projectName, db), 60000).unref();
+            });
+        this.unsubscribers.push(unsubscribe);
+    }
+
+    private async notifyDecision(projectName: string, db: firestore.Firestore, ref: firestore.DocumentReference): Promise<void> {
+        try {
+            // Claim the notification so it is sent once, even with several server instances
+            const overtime = await db.runTransaction(async (tx) => {
+                const snap = await tx.get(ref);
+                const data = snap.data() as (OvertimeRequestModel & { decisionNotifiedAt?: string }) | undefined;
+                if (!data || data.decisionNotifiedAt || data.status === 'pending') {
+                    return null;
+                }
+                const decidedAt = dayjs.utc(data.reviewedDate || data.timestamp);
+                if (decidedAt.isValid() && dayjs.utc().diff(decidedAt, 'day') > this.LOOKBACK_DAYS) {
+                    return null;
+                }
+                tx.update(ref, { decisionNotifiedAt: dayjs.utc().toISOString() });
+                return data;
+            });
+            if (!overtime) {
+                return;
+            }
+
+            const overtimeType = await getHrSettingById('overtimeTypes', overtime.overtimeType, projectName);
+            const approved = overtime.status === 'approved';
+            const lines = [
+                `${approved ? '✅' : '❌'} Overtime request <b>${overtime.overtimeId}</b> was <b>${approved ? 'approved' : 'rejected'}</b>.`,
+                '',
+                describeOvertime(overtime, overtimeType?.overtimeType ?? overtime.overtimeType)
+            ];
+            if (overtime.hrComments) {
+                lines.push('', `💬 ${escapeHtml(overtime.hrComments)}`);
+            }
+
+            // The reviewer already knows the outcome
+            const recipients = [overtime.requestedBy, ...(overtime.employeeUids ?? [])].filter(uid => uid && uid !== overtime.reviewedBy);
+            for (const uid of new Set(recipients)) {
+                try {
+                    const employee = await getEmployeeByUid(uid, projectName);
+                    if (employee?.telegramChatID) {
+                        await sendMessage(parseInt(employee.telegramChatID), lines.join('\n'));
+                    }
+                } catch (error) {
+                    console.error(`Error sending overtime decision to ${uid}:`, error);
+                }
+            }
+        } catch (error) {
+            console.error(`Error notifying overtime decision in ${projectName}:`, error);
+        }
+    }
+}
+
+// Export singleton instance
+export const overtimeDecisionWatcher = new OvertimeDecisionWatcher();
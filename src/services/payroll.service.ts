@@ -0,0 +1,354 @@
+import dayjs from 'dayjs';
+import PDFDocument from 'pdfkit';
+import { EmployeeModel } from '../models/employee';
+import { PensionModel } from '../models/hrSettings';
+import { DEFAULT_TZ, monthNames, parseDate, parseMonth } from '../util/dayjs_format';
+import escapeHtml from '../util/escapeHtml';
+import { getEmployeeLoans } from '../util/functions/loan/loan-service';
+import { getApprovedOvertimeRequests } from '../util/functions/overtime/overtime-service';
+import { getEmployeeCompensations, getPayrollPDFSettings, getSignatureById } from '../util/functions/payroll/payroll-service';
+import { getActiveHeadersAndFooters, getHeaderAndFooterById, getHrSettingsByType } from '../util/functions/hr-settings/hr-settings-service';
+import getEmployeeFullName from '../util/getEmployeeFullName';
+import { drawCompanyDetails, loadImage, pickCurrentLetterhead } from '../util/letterhead';
+import { AllowanceInput, EarningInput, calculateSalary } from '../util/payrollCalculator';
+import { TimesheetMonth } from './timesheet.service';
+
+export interface PayrollLine {
+    label: string;
+    amount: number;
+}
+
+export interface PayrollBreakdown {
+    year: number;
+    month: TimesheetMonth['month'];
+    currency: string;
+    // The month is not over yet, so the figures may still change
+    provisional: boolean;
+    // Items left out of the amounts that HR has to complete, e.g. overtime without an hourly rate
+    warnings: string[];
+    // Base salary, allowances and approved overtime
+    earnings: PayrollLine[];
+    grossPay: number;
+    // Gross pay less the tax-exempt part of allowances
+    taxableIncome: number;
+    incomeTax: number;
+    employeePension: number;
+    // Paid by the company on top of the salary; shown for information
+    employerPension: number;
+    loanRepayments: PayrollLine[];
+    otherDeductions: PayrollLine[];
+    totalDeductions: number;
+    netPay: number;
+}
+
+// A4 portrait in points
+const PAGE_MARGIN = 40;
+const PRINTABLE_WIDTH = 595.28 - PAGE_MARGIN * 2;
+const HEADER_IMAGE_HEIGHT = 70;
+const FOOTER_IMAGE_HEIGHT = 50;
+const SIGNATURE_IMAGE_HEIGHT = 45;
+const ROW_HEIGHT = 16;
+const WEEKS_PER_MONTH = 52 / 12;
+
+/**
+ * Compute the monthly payroll of an employee
+ * Compensation amounts are read at the month's index, approved overtime is paid at its type's rate
+ * and ongoing loans deduct the instalment scheduled in that month. Gross to net pay comes from `calculateSalary`.
+ * @param employee - Employee record
+ * @param period - Payroll month
+ * @param projectName - Firebase project name the employee belongs to
+ * @returns Promise<PayrollBreakdown> - Monthly breakdown from gross to net pay
+ */
+export async function calculatePayroll(employee: EmployeeModel, period: TimesheetMonth, projectName: string): Promise<PayrollBreakdown> {
+    const tz = employee.timezone || DEFAULT_TZ;
+    const monthIndex = monthNames.indexOf(period.month);
+    const monthKey = `${period.year}-${String(monthIndex + 1).padStart(2, '0')}`;
+
+    const [compensations, loans, overtimeRequests, paymentTypes, deductionTypes, loanTypes, overtimeTypes, taxes, pensions, currencies] = await Promise.all([
+        getEmployeeCompensations(employee.uid, projectName),
+        getEmployeeLoans(employee.uid, projectName),
+        getApprovedOvertimeRequests(projectName),
+        getHrSettingsByType('paymentTypes', projectName),
+        getHrSettingsByType('deductionTypes', projectName),
+        getHrSettingsByType('loanTypes', projectName),
+        getHrSettingsByType('overtimeTypes', projectName),
+        getHrSettingsByType('taxes', projectName),
+        getHrSettingsByType('pension', projectName),
+        getHrSettingsByType('currencies', projectName)
+    ]);
+    const currency = currencies.find(candidate => candidate.id === employee.currency || candidate.name === employee.currency) ?? null;
+    const baseSalary = employee.salary ?? 0;
+    const warnings: string[] = [];
+
+    const allowances: AllowanceInput[] = [];
+    for (const payment of compensations.filter(compensation => compensation.type === 'Payment')) {
+        const amount = payment.paymentAmount?.[monthIndex] ?? 0;
+        if (!amount) {
+            continue;
+        }
+        const paymentType = paymentTypes.find(type => type.id === payment.paymentType) ?? null;
+        allowances.push({ label: paymentType?.paymentName ?? payment.paymentType ?? 'Allowance', amount, paymentType });
+    }
+
+    // Without an hourly wage the rate is derived from the monthly salary and the contractual weekly hours
+    const hourlyRate = employee.hourlyWage || (employee.hoursPerWeek > 0 ? baseSalary / (employee.hoursPerWeek * WEEKS_PER_MONTH) : 0);
+    const overtimeEarnings: EarningInput[] = [];
+    for (const overtime of overtimeRequests) {
+        if (!overtime.employeeUids?.includes(employee.uid) || parseDate(overtime.overtimeDate, tz).format('YYYY-MM') !== monthKey) {
+            continue;
+        }
+        const overtimeDay = parseDate(overtime.overtimeDate, tz).format('MMM D');
+        const overtimeType = overtimeTypes.find(type => type.id === overtime.overtimeType || type.overtimeType === overtime.overtimeType);
+        if (!overtimeType || !hourlyRate) {
+            warnings.push(`Overtime ${overtimeDay} (${round(overtime.duration)} h) is not included: ${overtimeType ? 'no hourly wage or weekly hours are recorded' : 'its overtime type no longer exists'}.`);
+            continue;
+        }
+        overtimeEarnings.push({
+            label: `Overtime ${overtimeDay} (${round(overtime.duration)} h × ${overtimeType.overtimeRate})`,
+            amount: round(overtime.duration * overtimeType.overtimeRate * hourlyRate)
+        });
+    }
+
+    const pension = employee.pensionApplication ? findPensionConfiguration(pensions) : null;
+    if (employee.pensionApplication && !pension) {
+        warnings.push('Pension is not deducted: the employee is enrolled but no pension configuration exists.');
+    }
+
+    const tax = taxes.find(candidate => candidate.id === employee.associatedTax || candidate.taxName === employee.associatedTax)
+        ?? taxes.find(candidate => candidate.active)
+        ?? null;
+    const salary = calculateSalary({
+        baseSalary,
+        allowances,
+        taxableEarnings: overtimeEarnings,
+        tax,
+        pension,
+        currency
+    });
+
+    const loanRepayments: PayrollLine[] = [];
+    for (const loan of loans.filter(candidate => candidate.loanStatus === 'Ongoing')) {
+        const instalment = loan.months?.find(entry => parseMonth(entry.date).format('YYYY-MM') === monthKey);
+        if (instalment?.deductFromSalary) {
+            const loanType = loanTypes.find(type => type.id === loan.loanType);
+            loanRepayments.push({ label: `${loanType?.loanName ?? 'Loan'} repayment`, amount: instalment.deductFromSalary });
+        }
+    }
+
+    const otherDeductions: PayrollLine[] = [];
+    for (const deduction of compensations.filter(compensation => compensation.type === 'Deduction')) {
+        const value = deduction.deductionAmount?.[monthIndex] ?? 0;
+        if (!value) {
+            continue;
+        }
+        const deductionType = deductionTypes.find(type => type.id === deduction.deduction);
+        otherDeductions.push({
+            label: deductionType?.deductionName ?? deduction.deduction ?? 'Deduction',
+            amount: round(deduction.deductionType === 'Percentage' ? baseSalary * value / 100 : value)
+        });
+    }
+
+    const employeePension = salary.pension?.employee.contribution ?? 0;
+    const otherTotal = [...loanRepayments, ...otherDeductions].reduce((total, line) => total + line.amount, 0);
+
+    return {
+        year: period.year,
+        month: period.month,
+        currency: employee.currency ?? '',
+        provisional: monthKey >= dayjs.utc().tz(tz).format('YYYY-MM'),
+        warnings,
+        earnings: [
+            { label: 'Base salary', amount: salary.baseSalary },
+            ...salary.allowances.map(allowance => ({ label: allowance.label, amount: allowance.amount })),
+            ...salary.taxableEarnings
+        ],
+        grossPay: salary.grossPay,
+        taxableIncome: salary.taxableIncome,
+        incomeTax: salary.tax.tax,
+        employeePension,
+        employerPension: salary.pension?.employer.contribution ?? 0,
+        loanRepayments,
+        otherDeductions,
+        totalDeductions: round(salary.tax.tax + employeePension + otherTotal),
+        netPay: round(salary.netPay - otherTotal)
+    };
+}
+
+/**
+ * Short HTML summary sent as the caption of the payslip
+ * @param breakdown - Monthly payroll breakdown
+ * @returns string - HTML caption
+ */
+export function buildPayslipSummary(breakdown: PayrollBreakdown): string {
+    const currency = escapeHtml(breakdown.currency);
+    const lines = [
+        `💵 <b>${breakdown.provisional ? 'Provisional payslip' : 'Payslip'} — ${breakdown.month} ${breakdown.year}</b>`,
+        '',
+        `Gross pay: ${formatAmount(breakdown.grossPay)} ${currency}`,
+        `Deductions: ${formatAmount(breakdown.totalDeductions)} ${currency}`,
+        `Net pay: <b>${formatAmount(breakdown.netPay)} ${currency}</b>`
+    ];
+    if (breakdown.provisional) {
+        lines.push('', '⏳ The month is not over yet, so these amounts may still change.');
+    }
+    for (const warning of breakdown.warnings) {
+        lines.push(`⚠️ ${escapeHtml(warning)}`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Render the payslip as a PDF with the header, footer and signature configured in the payroll PDF settings
+ * The settings reference header/footer and signature entries by ID; without them the current letterhead is used.
+ * @param employee - Employee record
+ * @param breakdown - Monthly payroll breakdown
+ * @param projectName - Firebase project name the employee belongs to
+ * @returns Promise<Buffer> - PDF file contents
+ */
+export async function buildPayslipPdf(employee: EmployeeModel, breakdown: PayrollBreakdown, projectName: string): Promise<Buffer> {
+    const tz = employee.timezone || DEFAULT_TZ;
+    const [companyInfos, settings, headersAndFooters] = await Promise.all([
+        getHrSettingsByType('companyInfo', projectName),
+        getPayrollPDFSettings(projectName),
+        getActiveHeadersAndFooters(projectName)
+    ]);
+    const companyInfo = companyInfos[0] ?? null;
+    const [header, footer, signature] = await Promise.all([
+        settings?.header ? getHeaderAndFooterById(settings.header, projectName) : null,
+        settings?.footer ? getHeaderAndFooterById(settings.footer, projectName) : null,
+        settings?.signature ? getSignatureById(settings.signature, projectName) : null
+    ]);
+    const [headerImage, footerImage, signatureImage] = await Promise.all([
+        loadImage((header ?? pickCurrentLetterhead(headersAndFooters, 'Header', tz))?.image),
+        loadImage((footer ?? pickCurrentLetterhead(headersAndFooters, 'Footer', tz))?.image),
+        loadImage(signature?.image)
+    ]);
+
+    const title = `${breakdown.provisional ? 'Provisional payslip' : 'Payslip'} ${breakdown.month} ${breakdown.year}`;
+    const doc = new PDFDocument({
+        size: 'A4',
+        margins: {
+            top: PAGE_MARGIN + (headerImage ? HEADER_IMAGE_HEIGHT + 10 : 0),
+            bottom: PAGE_MARGIN + (footerImage ? FOOTER_IMAGE_HEIGHT + 10 : 0),
+            left: PAGE_MARGIN,
+            right: PAGE_MARGIN
+        },
+        info: { Title: title, Author: companyInfo?.companyName ?? projectName }
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const done = new Promise<Buffer>((resolve, reject) => {
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+    });
+
+    const drawLetterhead = () => {
+        if (headerImage) {
+            doc.image(headerImage, PAGE_MARGIN, PAGE_MARGIN, { fit: [PRINTABLE_WIDTH, HEADER_IMAGE_HEIGHT], align: 'center' });
+        }
+        if (footerImage) {
+            doc.image(footerImage, PAGE_MARGIN, doc.page.height - PAGE_MARGIN - FOOTER_IMAGE_HEIGHT, { fit: [PRINTABLE_WIDTH, FOOTER_IMAGE_HEIGHT], align: 'center' });
+        }
+        doc.x = PAGE_MARGIN;
+        doc.y = doc.page.margins.top;
+    };
+    drawLetterhead();
+    doc.on('pageAdded', drawLetterhead);
+
+    drawCompanyDetails(doc, companyInfo, projectName);
+
+    doc.font('Helvetica-Bold').fontSize(12).text(title);
+    doc.font('Helvetica').fontSize(9);
+    doc.text(`Employee: ${getEmployeeFullName(employee)}${employee.employeeID ? ` (${employee.employeeID})` : ''}`);
+    if (employee.department) {
+        doc.text(`Department: ${employee.department}`);
+    }
+    if (employee.tinNumber) {
+        doc.text(`TIN: ${employee.tinNumber}`);
+    }
+    if (employee.bankAccount) {
+        doc.text(`Bank account: ${employee.bankAccount}`);
+    }
+    doc.text(`Issued: ${dayjs.utc().tz(tz).format('MMMM DD, YYYY')}`);
+    if (breakdown.provisional) {
+        doc.font('Helvetica-Bold').text('Provisional: the month is not over yet, so these amounts may still change.').font('Helvetica');
+    }
+    doc.moveDown();
+
+    const drawRow = (label: string, amount: string, bold = false) => {
+        if (doc.y + ROW_HEIGHT > doc.page.height - doc.page.margins.bottom) {
+            doc.addPage();
+        }
+        const y = doc.y;
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+        doc.text(label, PAGE_MARGIN + 2, y + 4, { width: PRINTABLE_WIDTH - 124, lineBreak: false, ellipsis: true });
+        doc.text(amount, PAGE_MARGIN + PRINTABLE_WIDTH - 120, y + 4, { width: 118, align: 'right', lineBreak: false });
+        doc.moveTo(PAGE_MARGIN, y + ROW_HEIGHT).lineTo(PAGE_MARGIN + PRINTABLE_WIDTH, y + ROW_HEIGHT).lineWidth(0.5).strokeColor('#cccccc').stroke();
+        doc.x = PAGE_MARGIN;
+        doc.y = y + ROW_HEIGHT;
+    };
+    const money = (amount: number) => `${formatAmount(amount)} ${breakdown.currency}`.trim();
+
+    drawRow('Earnings', '', true);
+    for (const line of breakdown.earnings) {
+        drawRow(line.label, money(line.amount));
+    }
+    drawRow('Gross pay', money(breakdown.grossPay), true);
+    drawRow('Taxable income', money(breakdown.taxableIncome));
+    doc.moveDown();
+
+    drawRow('Deductions', '', true);
+    drawRow('Income tax', money(breakdown.incomeTax));
+    if (breakdown.employeePension) {
+        drawRow('Pension (employee contribution)', money(breakdown.employeePension));
+    }
+    for (const line of [...breakdown.loanRepayments, ...breakdown.otherDeductions]) {
+        drawRow(line.label, money(line.amount));
+    }
+    drawRow('Total deductions', money(breakdown.totalDeductions), true);
+    doc.moveDown();
+
+    drawRow('Net pay', money(breakdown.netPay), true);
+    if (breakdown.employerPension) {
+        doc.moveDown(0.5);
+        doc.font('Helvetica').fontSize(8).text(`Employer pension contribution (not deducted): ${money(breakdown.employerPension)}`);
+    }
+    if (breakdown.warnings.length > 0) {
+        doc.moveDown(0.5);
+        doc.font('Helvetica').fontSize(8);
+        for (const warning of breakdown.warnings) {
+            doc.text(warning, PAGE_MARGIN);
+        }
+    }
+
+    if (signatureImage || signature?.name) {
+        if (doc.y + SIGNATURE_IMAGE_HEIGHT + ROW_HEIGHT * 3 > doc.page.height - doc.page.margins.bottom) {
+            doc.addPage();
+        }
+        doc.moveDown(2);
+        if (signatureImage) {
+            doc.image(signatureImage, PAGE_MARGIN, doc.y, { fit: [160, SIGNATURE_IMAGE_HEIGHT] });
+            doc.y += SIGNATURE_IMAGE_HEIGHT + 4;
+        }
+        if (signature?.name) {
+            doc.font('Helvetica').fontSize(9).text(signature.name, PAGE_MARGIN);
+        }
+    }
+
+    doc.end();
+    return done;
+}
+
+// The most recently updated pension configuration applies
+function findPensionConfiguration(configurations: PensionModel[]): PensionModel | null {
+    return [...configurations]
+        .sort((a, b) => (b.updatedAt ?? b.createdAt ?? '').localeCompare(a.updatedAt ?? a.createdAt ?? ''))[0] ?? null;
+}
+
+function round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+function formatAmount(amount: number): string {
+    return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
@@ -0,0 +1,281 @@
+import type { firestore } from 'firebase-admin';
+import { getHealthyDbInstances, retryDatabaseOperation } from '../firebase-config';
+import { getUTCTimestamp } from '../util/dayjs_format';
+
+// Linked employee context for a Telegram chat
+export interface ChatSession {
+    phoneNumber: string;
+    projectName: string;
+    employeeUid: string;
+    employeeId: string;
+    employeeName: string;
+}
+
+// Active live location share, used to infer when a user stops sharing
+export interface LiveEntry {
+    chatId: number;
+    messageId: number;
+    employeeId: string;
+    projectName: string;
+    liveUntilMs: number | null;
+    lastUpdateMs: number;
+}
+
+export interface SessionStore {
+    // Warm up what can be cached (called once on boot)
+    load(): Promise<void>;
+
+    getChatSession(chatId: number): Promise<ChatSession | undefined>;
+    setChatSession(chatId: number, session: ChatSession): Promise<void>;
+    deleteChatSession(chatId: number): Promise<void>;
+
+    getLiveEntry(key: string, projectName: string): Promise<LiveEntry | undefined>;
+    setLiveEntry(key: string, entry: LiveEntry): Promise<void>;
+    liveEntries(): Promise<[string, LiveEntry][]>;
+    // Remove the entry if `isEnded` still holds for its latest stored state; returns the removed entry
+    finalizeLiveEntry(key: string, projectName: string, isEnded: (entry: LiveEntry) => boolean): Promise<LiveEntry | null>;
+}
+
+const CHAT_SESSIONS_COLLECTION = 'telegramChatSessions';
+const LIVE_SESSIONS_COLLECTION = 'telegramLiveSessions';
+// Cached chat sessions are re-read after this long, so a re-link on another replica is picked up
+const CHAT_SESSION_CACHE_MS = 30 * 1000;
+
+/**
+ * Session store kept entirely in memory.
+ * Used for tests and local development; everything is lost on restart.
+ */
+export class InMemorySessionStore implements SessionStore {
+    private chatSessions = new Map<number, ChatSession>();
+    private liveSessions = new Map<string, LiveEntry>();
+
+    async load(): Promise<void> {
+        // Nothing to load
+    }
+
+    async getChatSession(chatId: number): Promise<ChatSession | undefined> {
+        return this.chatSessions.get(chatId);
+    }
+
+    async setChatSession(chatId: number, session: ChatSession): Promise<void> {
+        this.chatSessions.set(chatId, session);
+    }
+
+    async deleteChatSession(chatId: number): Promise<void> {
+        this.chatSessions.delete(chatId);
+    }
+
+    async getLiveEntry(key: string): Promise<LiveEntry | undefined> {
+        return this.liveSessions.get(key);
+    }
+
+    async setLiveEntry(key: string, entry: LiveEntry): Promise<void> {
+        this.liveSessions.set(key, entry);
+    }
+
+    async liveEntries(): Promise<[string, LiveEntry][]> {
+        return [...this.liveSessions.entries()];
+    }
+
+    async finalizeLiveEntry(key: string, _projectName: string, isEnded: (entry: LiveEntry) => boolean): Promise<LiveEntry | null> {
+        const entry = this.liveSessions.get(key);
+        if (!entry || !isEnded(entry)) {
+            return null;
+        }
+        this.liveSessions.delete(key);
+        return entry;
+    }
+}
+
+/**
+ * Session store persisted in Firestore, shared by every replica.
+ * Records live in the employee's own project so each tenant keeps its data. Chat sessions are
+ * cached briefly and read through to Firestore on a miss; live location trackers are always read
+ * from Firestore so every replica sees the latest `lastUpdateMs`.
+ */
+export class FirestoreSessionStore implements SessionStore {
+    private chatSessionCache = new Map<number, { session: ChatSession; updatedAt: string; fetchedAt: number }>();
+
+    async load(): Promise<void> {
+        const healthyDbs = await getHealthyDbInstances();
+        let loaded = 0;
+        for (const [projectName, db] of Object.entries(healthyDbs)) {
+            try {
+                const sessionsSnap = await retryDatabaseOperation(async () => {
+                    return await db.collection(CHAT_SESSIONS_COLLECTION).get();
+                }, 2, 1000, projectName);
+                for (const doc of sessionsSnap.docs) {
+                    const chatId = Number(doc.id);
+                    if (!Number.isNaN(chatId)) {
+                        this.cacheLatest(chatId, toChatSession(doc.data(), projectName), String(doc.data().updatedAt ?? ''));
+                        loaded++;
+                    }
+                }
+            } catch (error) {
+                console.error(`Failed to load sessions from ${projectName}:`, error);
+            }
+        }
+        console.log(`Cached ${this.chatSessionCache.size} chat sessions (${loaded} records)`);
+    }
+
+    async getChatSession(chatId: number): Promise<ChatSession | undefined> {
+        const cached = this.chatSessionCache.get(chatId);
+        if (cached && Date.now() - cached.fetchedAt < CHAT_SESSION_CACHE_MS) {
+            return cached.session;
+        }
+
+        // A chat may have been re-linked to another tenant; the most recent session wins
+        const healthyDbs = await getHealthyDbInstances();
+        let latest: { session: ChatSession; updatedAt: string } | null = null;
+        for (const [projectName, db] of Object.entries(healthyDbs)) {
+            try {
+                const doc = await retryDatabaseOperation(async () => {
+                    return await db.collection(CHAT_SESSIONS_COLLECTION).doc(String(chatId)).get();
+                }, 2, 1000, projectName);
+                const data = doc.data();
+                const updatedAt = String(data?.updatedAt ?? '');
+                if (data && (!latest || updatedAt > latest.updatedAt)) {
+                    latest = { session: toChatSession(data, projectName), updatedAt };
+                }
+            } catch (error) {
+                console.error(`Failed to read chat session from ${projectName}:`, error);
+            }
+        }
+
+        if (!latest) {
+            this.chatSessionCache.delete(chatId);
+            return undefined;
+        }
+        this.chatSessionCache.set(chatId, { ...latest, fetchedAt: Date.now() });
+        return latest.session;
+    }
+
+    async setChatSession(chatId: number, session: ChatSession): Promise<void> {
+        const previous = await this.getChatSession(chatId);
+        const updatedAt = getUTCTimestamp();
+        this.chatSessionCache.set(chatId, { session, updatedAt, fetchedAt: Date.now() });
+
+        await this.withDb(session.projectName, (db) => db.collection(CHAT_SESSIONS_COLLECTION).doc(String(chatId)).set({
+            ...session,
+            updatedAt
+        }));
+
+        // Remove the stale copy when the chat switched to another tenant
+        if (previous && previous.projectName !== session.projectName) {
+            await this.withDb(previous.projectName, (db) => db.collection(CHAT_SESSIONS_COLLECTION).doc(String(chatId)).delete());
+        }
+    }
+
+    async deleteChatSession(chatId: number): Promise<void> {
+        const previous = await this.getChatSession(chatId);
+        this.chatSessionCache.delete(chatId);
+        if (previous) {
+            await this.withDb(previous.projectName, (db) => db.collection(CHAT_SESSIONS_COLLECTION).doc(String(chatId)).delete());
+        }
+    }
+
+    async getLiveEntry(key: string, projectName: string): Promise<LiveEntry | undefined> {
+        const db = (await getHealthyDbInstances())[projectName];
+        if (!db) {
+            return undefined;
+        }
+        const doc = await retryDatabaseOperation(async () => {
+            return await db.collection(LIVE_SESSIONS_COLLECTION).doc(key).get();
+        }, 2, 1000, projectName);
+        const data = doc.data();
+        return data ? toLiveEntry(data, projectName) : undefined;
+    }
+
+    async setLiveEntry(key: string, entry: LiveEntry): Promise<void> {
+        await this.withDb(entry.projectName, (db) => db.collection(LIVE_SESSIONS_COLLECTION).doc(key).set({ ...entry }));
+    }
+
+    async liveEntries(): Promise<[string, LiveEntry][]> {
+        const healthyDbs = await getHealthyDbInstances();
+        const entries: [string, LiveEntry][] = [];
+        for (const [projectName, db] of Object.entries(healthyDbs)) {
+            try {
+                const liveSnap = await retryDatabaseOperation(async () => {
+                    return await db.collection(LIVE_SESSIONS_COLLECTION).get();
+                }, 2, 1000, projectName);
+                for (const doc of liveSnap.docs) {
+                    entries.push([doc.id, toLiveEntry(doc.data(), projectName)]);
+                }
+            } catch (error) {
+                console.error(`Failed to read live location sessions from ${projectName}:`, error);
+            }
+        }
+        return entries;
+    }
+
+    async finalizeLiveEntry(key: string, projectName: string, isEnded: (entry: LiveEntry) => boolean): Promise<LiveEntry | null> {
+        const db = (await getHealthyDbInstances())[projectName];
+        if (!db) {
+            return null;
+        }
+        const ref = db.collection(LIVE_SESSIONS_COLLECTION).doc(key);
+        // Re-checked in a transaction: another replica may have received an update in the meantime
+        return db.runTransaction(async (tx) => {
+            const snap = await tx.get(ref);
+            const data = snap.data();
+            if (!data) {
+                return null;
+            }
+            const entry = toLiveEntry(data, projectName);
+            if (!isEnded(entry)) {
+                return null;
+            }
+            tx.delete(ref);
+            return entry;
+        });
+    }
+
+    private cacheLatest(chatId: number, session: ChatSession, updatedAt: string): void {
+        const cached = this.chatSessionCache.get(chatId);
+        if (!cached || cached.updatedAt < updatedAt) {
+            this.chatSessionCache.set(chatId, { session, updatedAt, fetchedAt: Date.now() });
+        }
+    }
+
+    // Persistence is best-effort: a failed write is logged and the next update retries it
+    private async withDb(projectName: string, operation: (db: firestore.Firestore) => Promise<unknown>): Promise<void> {
+        try {
+            const db = (await getHealthyDbInstances())[projectName];
+            if (!db) {
+                throw new Error(`Database for project ${projectName} is not healthy`);
+            }
+            await retryDatabaseOperation(async () => operation(db), 2, 1000, projectName);
+        } catch (error) {
+            console.error(`Failed to persist session data in ${projectName}:`, error);
+        }
+    }
+}
+
+function toChatSession(data: firestore.DocumentData, projectName: string): ChatSession {
+    return {
+        phoneNumber: data.phoneNumber,
+        projectName,
+        employeeUid: data.employeeUid,
+        employeeId: data.employeeId,
+        employeeName: data.employeeName
+    };
+}
+
+function toLiveEntry(data: firestore.DocumentData, projectName: string): LiveEntry {
+    return {
+        chatId: data.chatId,
+        messageId: data.messageId,
+        employeeId: data.employeeId,
+        projectName,
+        liveUntilMs: data.liveUntilMs ?? null,
+        lastUpdateMs: data.lastUpdateMs
+    };
+}
+
+/**
+ * Create the session store for this process
+ * @returns SessionStore - In-memory when SESSION_STORE=memory, otherwise Firestore-backed
+ */
+export function createSessionStore(): SessionStore {
+    return process.env.SESSION_STORE === 'memory' ? new InMemorySessionStore() : new FirestoreSessionStore();
+}
@@ -0,0 +1,177 @@
+import dayjs from 'dayjs';
+import { sendMessage } from '../bot';
+import { getHealthyDbInstances } from '../firebase-config';
+import { EmployeeModel } from '../models/employee';
+import clampSetting from '../util/clampSetting';
+import escapeHtml from '../util/escapeHtml';
+import getEmployeeFullName from '../util/getEmployeeFullName';
+import { formatDuration, formatHour } from '../util/dayjs_format';
+import { claimOnce } from '../util/functions/claim/claim-service';
+import { getEmployeeByUid } from '../util/functions/employee/employee-service';
+import { autoClockOut, ClockedInEmployee, findClockedInEmployees, findShiftEnd, loadAttendanceRules } from './attendance-clock.service';
+
+export class ShiftEndService {
+    private intervalId?: NodeJS.Timeout | null;
+    private isRunning = false;
+
+    private readonly FEATURE_ENABLED = process.env.SHIFT_END_AUTO_CLOCK_OUT_ENABLED !== 'false';
+    private readonly CHECK_INTERVAL_MINUTES = clampSetting(process.env.SHIFT_END_CHECK_INTERVAL_MINUTES, 5, 1, 60);
+    // How long before the end of the shift the employee is reminded to clock out
+    private readonly REMINDER_MINUTES = clampSetting(process.env.SHIFT_END_REMINDER_MINUTES, 15, 0, 120);
+    // How long after the end of the shift an open clock-in is tolerated before it is closed
+    private readonly GRACE_MINUTES = clampSetting(process.env.SHIFT_END_GRACE_MINUTES, 60, 0, 480);
+    // Clock-ins outside scheduled hours (after the shift ended, on a day off) have no shift end;
+    // they are closed this long after the clock-in instead
+    private readonly MAX_OPEN_HOURS = clampSetting(process.env.SHIFT_END_MAX_OPEN_HOURS, 12, 1, 24);
+    // One document per reminded clock-in, so the reminder is sent once across restarts and replicas
+    private readonly REMINDERS_COLLECTION = 'shiftEndReminders';
+
+    startMonitoring(): void {
+        if (this.isRunning) {
+            console.log('Shift end monitoring already running');
+            return;
+        }
+
+        if (!this.FEATURE_ENABLED) {
+            console.log('Shift end auto clock-out feature is disabled');
+            return;
+        }
+
+        console.log(`Starting shift end monitoring service (check every ${this.CHECK_INTERVAL_MINUTES} minutes, reminder ${this.REMINDER_MINUTES} minutes before, grace ${this.GRACE_MINUTES} minutes after shift end, unscheduled clock-ins closed after ${this.MAX_OPEN_HOURS} hours)`);
+        this.isRunning = true;
+
+        // Run initial check after a short delay to allow system to stabilize
+        setTimeout(() => {
+            this.runShiftEndCheck();
+        }, 30000); // 30 seconds delay
+
+        this.intervalId = setInterval(() => {
+            this.runShiftEndCheck();
+        }, this.CHECK_INTERVAL_MINUTES * 60 * 1000);
+    }
+
+    stopMonitoring(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        this.isRunning = false;
+        console.log('Shift end monitoring service stopped');
+    }
+
+    isMonitoring(): boolean {
+        return this.isRunning;
+    }
+
+    private async runShiftEndCheck(): Promise<void> {
+        try {
+            const healthyDbs = await getHealthyDbInstances();
+
+            for (const projectName of Object.keys(healthyDbs)) {
+                const clockedInEmployees = await findClockedInEmployees(projectName);
+                let clockedOut = 0;
+
+                for (const clockedIn of clockedInEmployees) {
+                    try {
+                        if (await this.checkShiftEnd(clockedIn)) {
+                            clockedOut++;
+                        }
+                    } catch (error) {
+                        console.error(`Error checking shift end for ${clockedIn.employee.uid}:`, error);
+                    }
+                }
+
+                if (clockedOut > 0) {
+                    console.log(`⏰ Shift end check completed for ${projectName}. Auto clocked out: ${clockedOut} employees`);
+                }
+            }
+        } catch (error) {
+            console.error('Error in shift end check:', error);
+        }
+    }
+
+    /**
+     * Remind or clock out one employee depending on how far past the end of their shift (or the open clock-in limit) they are
+     * @returns Promise<boolean> - Whether the employee was clocked out
+     */
+    private async checkShiftEnd({ employee, attendance, projectName }: ClockedInEmployee): Promise<boolean> {
+        if (!attendance.lastClockInTimestamp) {
+            return false;
+        }
+
+        const loaded = await loadAttendanceRules(employee, projectName);
+        if ('error' in loaded) {
+            return false;
+        }
+
+        const clockIn = dayjs.utc(attendance.lastClockInTimestamp);
+        const shiftEnd = findShiftEnd(clockIn, loaded.rules, employee.timezone);
+        // Without a shift end to cap at, the clock-in is closed once it has been open for MAX_OPEN_HOURS
+        const clockOutAt = shiftEnd ?? clockIn.add(this.MAX_OPEN_HOURS, 'hour');
+        const deadline = shiftEnd ? shiftEnd.add(this.GRACE_MINUTES, 'minute') : clockOutAt;
+
+        const now = dayjs.utc();
+        if (!now.isBefore(deadline)) {
+            const result = await autoClockOut(attendance, employee, projectName, 'auto-shift-end', clockOutAt);
+            if (!result.success) {
+                console.error(`Failed shift end auto clock-out for ${employee.uid}: ${result.error}`);
+                return false;
+            }
+            console.log(`⏰ Auto clocked out ${employee.uid} in ${projectName} at ${shiftEnd ? 'shift end' : 'the open clock-in limit'} ${clockOutAt.toISOString()}`);
+            await this.sendClockOutNotifications(employee, projectName, clockOutAt, clockOutAt.diff(clockIn, 'hours', true), !!shiftEnd);
+            return true;
+        }
+
+        // One reminder per clock-in, even across restarts
+        const reminderKey = `${attendance.id}_${clockIn.valueOf()}`;
+        const reminderData = { attendanceId: attendance.id, clockInTimestamp: attendance.lastClockInTimestamp, sentAt: now.toISOString() };
+        if (!now.isBefore(clockOutAt.subtract(this.REMINDER_MINUTES, 'minute')) && await claimOnce(projectName, this.REMINDERS_COLLECTION, reminderKey, reminderData)) {
+            await this.sendReminder(employee, clockOutAt, deadline, !!shiftEnd);
+        }
+        return false;
+    }
+
+    private async sendReminder(employee: EmployeeModel, clockOutAt: dayjs.Dayjs, deadline: dayjs.Dayjs, scheduled: boolean): Promise<void> {
+        if (!employee.telegramChatID) {
+            return;
+        }
+
+        const tz = employee.timezone || undefined;
+        const text = scheduled
+            ? `⏰ Your shift ends at <b>${formatHour(clockOutAt, tz)}</b>. Don't forget to /clockout when you leave.\n\nIf you are still clocked in at ${formatHour(deadline, tz)}, you will be clocked out automatically as of ${formatHour(clockOutAt, tz)}.`
+            : `⏰ You clocked in outside your scheduled hours. Don't forget to /clockout when you leave.\n\nIf you are still clocked in at <b>${formatHour(clockOutAt, tz)}</b> (${this.MAX_OPEN_HOURS} hours after clocking in), you will be clocked out automatically.`;
+        try {
+            await sendMessage(parseInt(employee.telegramChatID), text);
+        } catch (error) {
+            console.error(`Error sending shift end reminder to ${employee.uid}:`, error);
+        }
+    }
+
+    private async sendClockOutNotifications(employee: EmployeeModel, projectName: string, clockOutAt: dayjs.Dayjs, hoursWorked: number, scheduled: boolean): Promise<void> {
+        const hour = formatHour(clockOutAt, employee.timezone || undefined);
+        const why = scheduled ? 'end of shift' : `${this.MAX_OPEN_HOURS} hours after clocking in outside scheduled hours`;
+        try {
+            if (employee.telegramChatID) {
+                await sendMessage(
+                    parseInt(employee.telegramChatID),
+                    `⚠️ You were still clocked in ${scheduled ? 'after your shift' : 'for too long'}, so you have been automatically clocked out at <b>${hour}</b> (${why}).\n\n⏱️ Recorded: ${formatDuration(Math.max(0, hoursWorked))}\n\nIf you worked ${scheduled ? 'longer' : 'different hours'}, please ask HR to correct your attendance.`
+                );
+            }
+
+            if (employee.reportingLineManager) {
+                const manager = await getEmployeeByUid(employee.reportingLineManager, projectName);
+                if (manager?.telegramChatID) {
+                    await sendMessage(
+                        parseInt(manager.telegramChatID),
+                        `👤 ${escapeHtml(getEmployeeFullName(employee))} forgot to clock out and has been automatically clocked out at ${hour} (${why}).`
+                    );
+                }
+            }
+        } catch (error) {
+            console.error('Error sending shift end notifications:', error);
+        }
+    }
+}
+
+// Export singleton instance
+export const shiftEndService = new ShiftEndService();
@@ -0,0 +1,122 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { AuthTokenData, generateEmployeeAuthToken } from './auth-token.service';
+import { getChatSession } from '../bot';
+import { findEmployeeByChatId, getEmployeeById } from '../util/functions/employee/employee-service';
+
+// Maximum age of initData accepted by the mini app auth endpoint
+const INIT_DATA_MAX_AGE_SECONDS = Math.max(60, parseInt(process.env.TELEGRAM_INIT_DATA_MAX_AGE_SECONDS || '3600', 10) || 3600);
+// Clock drift tolerated between Telegram and this server for auth_date
+const INIT_DATA_CLOCK_SKEW_SECONDS = 60;
+
+export interface TelegramWebAppUser {
+    id: number;
+    first_name?: string;
+    last_name?: string;
+    username?: string;
+    language_code?: string;
+}
+
+export type InitDataError = 'missing_init_data' | 'invalid_signature' | 'expired' | 'invalid_auth_date' | 'missing_user' | 'employee_not_found';
+
+export type InitDataVerification =
+    | { valid: true; user: TelegramWebAppUser; authDate: number }
+    | { valid: false; error: Exclude<InitDataError, 'employee_not_found'> };
+
+export type InitDataAuthResult =
+    | { success: true; authData: AuthTokenData; employeeUid: string; projectName: string }
+    | { success: false; error: InitDataError };
+
+/**
+ * Verify Telegram WebApp initData as described in the Bot API documentation
+ * @param initData - Raw initData query string from Telegram.WebApp.initData
+ * @param botToken - Token of the bot that opened the mini app
+ * @param maxAgeSeconds - Maximum accepted age of auth_date
+ * @returns InitDataVerification - The Telegram user when the signature and freshness checks pass
+ */
+export function verifyTelegramInitData(initData: string, botToken: string, maxAgeSeconds: number = INIT_DATA_MAX_AGE_SECONDS): InitDataVerification {
+    if (!initData) {
+        return { valid: false, error: 'missing_init_data' };
+    }
+
+    const params = new URLSearchParams(initData);
+    const receivedHash = params.get('hash');
+    if (!receivedHash || !/^[0-9a-f]{64}$/i.test(receivedHash)) {
+        return { valid: false, error: 'invalid_signature' };
+    }
+
+    // data_check_string: every field except hash, sorted by key, as key=value joined by \n
+    const dataCheckString = [...params.entries()]
+        .filter(([key]) => key !== 'hash')
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([key, value]) => `${key}=${value}`)
+        .join('\n');
+
+    const secretKey = createHmac('sha256', 'WebAppData').update(botToken).digest();
+    const expectedHash = createHmac('sha256', secretKey).update(dataCheckString).digest();
+    if (!timingSafeEqual(expectedHash, Buffer.from(receivedHash, 'hex'))) {
+        return { valid: false, error: 'invalid_signature' };
+    }
+
+    const authDate = parseInt(params.get('auth_date') || '', 10);
+    const ageSeconds = Math.floor(Date.now() / 1000) - authDate;
+    if (Number.isNaN(authDate) || ageSeconds > maxAgeSeconds) {
+        return { valid: false, error: 'expired' };
+    }
+    // A signed auth_date in the future would stay valid for longer than the maximum age
+    if (ageSeconds < -INIT_DATA_CLOCK_SKEW_SECONDS) {
+        return { valid: false, error: 'invalid_auth_date' };
+    }
+
+    try {
+        const user = JSON.parse(params.get('user') || 'null') as TelegramWebAppUser | null;
+        if (!user || typeof user.id !== 'number') {
+            return { valid: false, error: 'missing_user' };
+        }
+        return { valid: true, user, authDate };
+    } catch {
+        return { valid: false, error: 'missing_user' };
+    }
+}
+
+/**
+ * Authenticate the mini app from verified initData
+ * In a private chat the chat ID equals the user ID. The chat session decides the employee, so a user
+ * linked in several companies signs in to the one they picked; chats without a session fall back to telegramChatID.
+ * @param initData - Raw initData query string
+ * @returns Promise<InitDataAuthResult> - Freshly minted auth data for the linked employee
+ */
+export async function authenticateWithInitData(initData: string): Promise<InitDataAuthResult> {
+    const botToken = process.env.TELEGRAM_BOT_TOKEN;
+    if (!botToken) {
+        throw new Error('TELEGRAM_BOT_TOKEN environment variable is required but not set');
+    }
+
+    const verification = verifyTelegramInitData(initData, botToken);
+    if (!verification.valid) {
+        console.warn(`🚫 Rejected mini app initData: ${verification.error}`);
+        return { success: false, error: verification.error };
+    }
+
+    const found = await findLinkedEmployee(verification.user.id);
+    if (!found) {
+        return { success: false, error: 'employee_not_found' };
+    }
+
+    const { employee, projectName } = found;
+    const authData = await generateEmployeeAuthToken(employee.uid, projectName, String(employee.personalPhoneNumber ?? ''));
+    return { success: true, authData, employeeUid: employee.uid, projectName };
+}
+
+async function findLinkedEmployee(chatId: number): Promise<{ employee: { uid: string; personalPhoneNumber?: unknown }; projectName: string } | null> {
+    const session = await getChatSession(chatId);
+    if (!session) {
+        return await findEmployeeByChatId(chatId);
+    }
+
+    // The employee must still be linked to this chat in the selected company
+    const employee = await getEmployeeById(session.employeeId, session.projectName);
+    if (!employee || employee.telegramChatID !== String(chatId)) {
+        return null;
+    }
+    return { employee, projectName: session.projectName };
+}
@@ -0,0 +1,108 @@
+import dayjs from 'dayjs';
+import { sendMessage } from '../bot';
+import { getHealthyDbInstances } from '../firebase-config';
+import { AttendanceModel } from '../models/attendance';
+import clampSetting from '../util/clampSetting';
+import { DEFAULT_TZ } from '../util/dayjs_format';
+import { getAttendancesByMonth } from '../util/functions/attendance/attendance-service';
+import { claimOnce } from '../util/functions/claim/claim-service';
+import { getEmployees } from '../util/functions/employee/employee-service';
+import { buildTimesheetSummary } from './timesheet.service';
+
+export class TimesheetSummaryService {
+    private intervalId?: NodeJS.Timeout | null;
+    private isRunning = false;
+
+    private readonly FEATURE_ENABLED = process.env.TIMESHEET_SUMMARIES_ENABLED !== 'false';
+    private readonly CHECK_INTERVAL_MINUTES = 30;
+    // Local hour (DEFAULT_TZ) on the last day of the month at which draft summaries are sent
+    private readonly SUMMARY_HOUR = clampSetting(process.env.TIMESHEET_SUMMARY_HOUR, 18, 0, 23);
+    // One document per project and month, so summaries go out once even across restarts
+    private readonly SUMMARIES_COLLECTION = 'timesheetSummaries';
+
+    startMonitoring(): void {
+        if (this.isRunning) {
+            console.log('Timesheet summaries already running');
+            return;
+        }
+
+        if (!this.FEATURE_ENABLED) {
+            console.log('Timesheet summaries feature is disabled');
+            return;
+        }
+
+        console.log(`Starting timesheet summary service (last day of the month at ${this.SUMMARY_HOUR}:00 ${DEFAULT_TZ})`);
+        this.isRunning = true;
+
+        this.intervalId = setInterval(() => {
+            this.runSummaryCheck();
+        }, this.CHECK_INTERVAL_MINUTES * 60 * 1000);
+    }
+
+    stopMonitoring(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        this.isRunning = false;
+        console.log('Timesheet summary service stopped');
+    }
+
+    isMonitoring(): boolean {
+        return this.isRunning;
+    }
+
+    private async runSummaryCheck(): Promise<void> {
+        const now = dayjs.utc().tz(DEFAULT_TZ);
+        if (now.date() !== now.daysInMonth() || now.hour() < this.SUMMARY_HOUR) {
+            return;
+        }
+
+        try {
+            const healthyDbs = await getHealthyDbInstances();
+            for (const projectName of Object.keys(healthyDbs)) {
+                try {
+                    if (!await claimOnce(projectName, this.SUMMARIES_COLLECTION, now.format('YYYY-MM'))) {
+                        continue;
+                    }
+                    await this.sendDraftSummaries(projectName, now.year(), now.format('MMMM') as AttendanceModel['month']);
+                } catch (error) {
+                    console.error(`Error sending timesheet summaries for ${projectName}:`, error);
+                }
+            }
+        } catch (error) {
+            console.error('Error in timesheet summary check:', error);
+        }
+    }
+
+    private async sendDraftSummaries(projectName: string, year: number, month: AttendanceModel['month']): Promise<void> {
+        const [attendances, employees] = await Promise.all([
+            getAttendancesByMonth(year, month, projectName),
+            getEmployees(projectName)
+        ]);
+
+        let sent = 0;
+        for (const attendance of attendances.filter(sheet => sheet.state === 'Draft')) {
+            const employee = employees.find(candidate => candidate.uid === attendance.uid);
+            if (!employee?.telegramChatID) {
+                continue;
+            }
+
+            try {
+                await sendMessage(
+                    parseInt(employee.telegramChatID),
+                    `${buildTimesheetSummary(employee, attendance)}\n\nPlease review your timesheet (/timesheet for the PDF) and submit it for validation.`,
+                    { inline_keyboard: [[{ text: '📤 Submit for validation', callback_data: `timesheet:submit:${attendance.id}` }]] }
+                );
+                sent++;
+            } catch (error) {
+                console.error(`Error sending timesheet summary to ${employee.uid}:`, error);
+            }
+        }
+
+        console.log(`🗓️ Sent ${sent} draft timesheet summaries for ${projectName} (${month} ${year})`);
+    }
+}
+
+// Export singleton instance
+export const timesheetSummaryService = new TimesheetSummaryService();
@@ -0,0 +1,269 @@
+import dayjs from 'dayjs';
+import PDFDocument from 'pdfkit';
+import { getProjectDb, retryDatabaseOperation } from '../firebase-config';
+import { AttendanceModel, DailyAttendance } from '../models/attendance';
+import { EmployeeModel } from '../models/employee';
+import escapeHtml from '../util/escapeHtml';
+import getEmployeeFullName from '../util/getEmployeeFullName';
+import { DEFAULT_TZ, formatDuration, formatHour, monthNames } from '../util/dayjs_format';
+import { getActiveHeadersAndFooters, getHrSettingsByType } from '../util/functions/hr-settings/hr-settings-service';
+import { drawCompanyDetails, loadImage, pickCurrentLetterhead } from '../util/letterhead';
+
+export interface TimesheetMonth {
+    year: number;
+    month: AttendanceModel['month'];
+}
+
+export type TimesheetSubmitResult =
+    | { success: true; attendance: AttendanceModel }
+    | { success: false; error: 'not_found' | 'forbidden' | 'not_draft' };
+
+// A4 portrait in points, with the table spanning the printable width
+const PAGE_MARGIN = 40;
+const PRINTABLE_WIDTH = 595.28 - PAGE_MARGIN * 2;
+const HEADER_IMAGE_HEIGHT = 70;
+const FOOTER_IMAGE_HEIGHT = 50;
+const ROW_HEIGHT = 15;
+const TABLE_COLUMNS: { label: string; width: number }[] = [
+    { label: 'Day', width: 30 },
+    { label: 'Date', width: 75 },
+    { label: 'Weekday', width: 65 },
+    { label: 'Value', width: 40 },
+    { label: 'Worked', width: 60 },
+    { label: 'First in / Last out', width: 150 },
+    { label: 'Status', width: PRINTABLE_WIDTH - 420 }
+];
+
+/**
+ * Resolve the month requested with /timesheet
+ * Accepts a month name ("March", "mar"), a number (3), "2026-03" or "March 2026"; defaults to the current month.
+ * A month without a year refers to its latest occurrence that is not in the future.
+ * @param input - Text after the command, if any
+ * @param tz - Employee's timezone
+ * @returns TimesheetMonth | null - Null when the input is not a month
+ */
+export function parseTimesheetMonth(input: string | undefined, tz?: string | null): TimesheetMonth | null {
+    const now = dayjs.utc().tz(tz || DEFAULT_TZ);
+    const text = (input ?? '').trim().toLowerCase();
+    if (!text) {
+        return { year: now.year(), month: monthNames[now.month()] as AttendanceModel['month'] };
+    }
+
+    let monthIndex = -1;
+    let year: number | null = null;
+
+    const iso = /^(\d{4})-(\d{1,2})$/.exec(text);
+    if (iso) {
+        year = parseInt(iso[1]!, 10);
+        monthIndex = parseInt(iso[2]!, 10) - 1;
+    } else {
+        const [monthPart = '', yearPart] = text.split(/\s+/);
+        monthIndex = /^\d{1,2}$/.test(monthPart)
+            ? parseInt(monthPart, 10) - 1
+            : monthNames.findIndex(name => monthPart.length >= 3 && name.toLowerCase().startsWith(monthPart));
+        if (yearPart !== undefined) {
+            year = /^\d{4}$/.test(yearPart) ? parseInt(yearPart, 10) : NaN;
+        }
+    }
+
+    if (monthIndex < 0 || monthIndex > 11 || Number.isNaN(year)) {
+        return null;
+    }
+
+    const resolvedYear = year ?? (monthIndex > now.month() ? now.year() - 1 : now.year());
+    return { year: resolvedYear, month: monthNames[monthIndex] as AttendanceModel['month'] };
+}
+
+// Day entries indexed by day of the month (older sheets store values as a map with numeric keys)
+function getDayEntries(attendance: AttendanceModel): Map<number, DailyAttendance> {
+    const entries = new Map<number, DailyAttendance>();
+    for (const entry of Object.values(attendance.values ?? {}) as (DailyAttendance | null)[]) {
+        if (entry?.day) {
+            entries.set(entry.day, entry);
+        }
+    }
+    return entries;
+}
+
+/**
+ * Short summary of a monthly attendance sheet for Telegram
+ * @param employee - Owner of the sheet
+ * @param attendance - Attendance sheet
+ * @returns string - HTML message text
+ */
+export function buildTimesheetSummary(employee: EmployeeModel, attendance: AttendanceModel): string {
+    const counts = { P: 0, H: 0, A: 0 };
+    for (const entry of getDayEntries(attendance).values()) {
+        if (entry.value === 'P' || entry.value === 'H' || entry.value === 'A') {
+            counts[entry.value]++;
+        }
+    }
+
+    return [
+        `🗓️ <b>Timesheet ${attendance.month} ${attendance.year}</b>`,
+        `👤 ${escapeHtml(getEmployeeFullName(employee))}`,
+        '',
+        `⏱️ Worked hours: ${formatDuration(attendance.monthlyWorkedHours ?? 0)}`,
+        `✅ Present: ${counts.P}   🌓 Half: ${counts.H}   ❌ Absent: ${counts.A}`,
+        `📆 Worked days: ${attendance.workedDays ?? 0} of ${attendance.periodWorkingDays ?? 0}   Absent days: ${attendance.absentDays ?? 0}`,
+        `📌 State: <b>${attendance.state}</b>`
+    ].join('\n');
+}
+
+/**
+ * Render a monthly attendance sheet as a PDF with the tenant's letterhead
+ * @param employee - Owner of the sheet
+ * @param attendance - Attendance sheet
+ * @param projectName - Firebase project name the employee belongs to
+ * @returns Promise<Buffer> - PDF file contents
+ */
+export async function buildTimesheetPdf(employee: EmployeeModel, attendance: AttendanceModel, projectName: string): Promise<Buffer> {
+    const tz = employee.timezone || DEFAULT_TZ;
+    const [companyInfos, headersAndFooters] = await Promise.all([
+        getHrSettingsByType('companyInfo', projectName),
+        getActiveHeadersAndFooters(projectName)
+    ]);
+    const companyInfo = companyInfos[0] ?? null;
+    const [headerImage, footerImage] = await Promise.all([
+        loadImage(pickCurrentLetterhead(headersAndFooters, 'Header', tz)?.image),
+        loadImage(pickCurrentLetterhead(headersAndFooters, 'Footer', tz)?.image)
+    ]);
+
+    const doc = new PDFDocument({
+        size: 'A4',
+        margins: {
+            top: PAGE_MARGIN + (headerImage ? HEADER_IMAGE_HEIGHT + 10 : 0),
+            bottom: PAGE_MARGIN + (footerImage ? FOOTER_IMAGE_HEIGHT + 10 : 0),
+            left: PAGE_MARGIN,
+            right: PAGE_MARGIN
+        },
+        info: { Title: `Timesheet ${attendance.month} ${attendance.year}`, Author: companyInfo?.companyName ?? projectName }
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const done = new Promise<Buffer>((resolve, reject) => {
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+    });
+
+    // Letterhead on every page
+    const drawLetterhead = () => {
+        if (headerImage) {
+            doc.image(headerImage, PAGE_MARGIN, PAGE_MARGIN, { fit: [PRINTABLE_WIDTH, HEADER_IMAGE_HEIGHT], align: 'center' });
+        }
+        if (footerImage) {
+            doc.image(footerImage, PAGE_MARGIN, doc.page.height - PAGE_MARGIN - FOOTER_IMAGE_HEIGHT, { fit: [PRINTABLE_WIDTH, FOOTER_IMAGE_HEIGHT], align: 'center' });
+        }
+        doc.x = PAGE_MARGIN;
+        doc.y = doc.page.margins.top;
+    };
+    drawLetterhead();
+    doc.on('pageAdded', drawLetterhead);
+
+    drawCompanyDetails(doc, companyInfo, projectName);
+    drawEmployeeDetails(doc, employee, attendance);
+    drawDayTable(doc, attendance, tz);
+    drawTotals(doc, attendance);
+
+    doc.end();
+    return done;
+}
+
+function drawEmployeeDetails(doc: PDFKit.PDFDocument, employee: EmployeeModel, attendance: AttendanceModel): void {
+    doc.font('Helvetica-Bold').fontSize(12).text(`Timesheet — ${attendance.month} ${attendance.year}`);
+    doc.font('Helvetica').fontSize(9);
+    doc.text(`Employee: ${getEmployeeFullName(employee)}${employee.employeeID ? ` (${employee.employeeID})` : ''}`);
+    if (employee.department) {
+        doc.text(`Department: ${employee.department}`);
+    }
+    doc.text(`State: ${attendance.state}`);
+    doc.moveDown();
+}
+
+function drawDayTable(doc: PDFKit.PDFDocument, attendance: AttendanceModel, tz: string): void {
+    const monthIndex = monthNames.indexOf(attendance.month);
+    const firstDay = dayjs.tz(`${attendance.year}-${String(monthIndex + 1).padStart(2, '0')}-01`, tz);
+    const entries = getDayEntries(attendance);
+
+    const drawRow = (cells: string[], bold: boolean) => {
+        if (doc.y + ROW_HEIGHT > doc.page.height - doc.page.margins.bottom) {
+            doc.addPage();
+        }
+        const y = doc.y;
+        let x = PAGE_MARGIN;
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+        cells.forEach((cell, index) => {
+            const width = TABLE_COLUMNS[index]?.width ?? 0;
+            doc.text(cell, x + 2, y + 3, { width: width - 4, height: ROW_HEIGHT, lineBreak: false, ellipsis: true });
+            x += width;
+        });
+        doc.moveTo(PAGE_MARGIN, y + ROW_HEIGHT).lineTo(PAGE_MARGIN + PRINTABLE_WIDTH, y + ROW_HEIGHT).lineWidth(0.5).strokeColor('#cccccc').stroke();
+        doc.x = PAGE_MARGIN;
+        doc.y = y + ROW_HEIGHT;
+    };
+
+    drawRow(TABLE_COLUMNS.map(column => column.label), true);
+    for (let day = 1; day <= firstDay.daysInMonth(); day++) {
+        const date = firstDay.date(day);
+        const entry = entries.get(day);
+        const clockIns = entry?.workedHours?.filter(punch => punch.type === 'Clock In') ?? [];
+        const clockOuts = entry?.workedHours?.filter(punch => punch.type === 'Clock Out') ?? [];
+        const firstIn = clockIns[0] ? formatHour(clockIns[0].timestamp, tz) : '';
+        const lastOut = clockOuts[clockOuts.length - 1] ? formatHour(clockOuts[clockOuts.length - 1]!.timestamp, tz) : '';
+
+        drawRow([
+            String(day),
+            date.format('MMM DD, YYYY'),
+            date.format('dddd'),
+            entry?.value ?? '',
+            entry?.dailyWorkedHours ? formatDuration(entry.dailyWorkedHours) : '',
+            firstIn || lastOut ? `${firstIn || '—'} / ${lastOut || '—'}${entry?.late ? ' (late)' : ''}` : '',
+            entry && entry.status !== 'N/A' ? entry.status : ''
+        ], false);
+    }
+    doc.moveDown();
+}
+
+function drawTotals(doc: PDFKit.PDFDocument, attendance: AttendanceModel): void {
+    if (doc.y + ROW_HEIGHT * 4 > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+    }
+    doc.font('Helvetica-Bold').fontSize(10).text('Totals');
+    doc.font('Helvetica').fontSize(9);
+    doc.text(`Worked hours: ${formatDuration(attendance.monthlyWorkedHours ?? 0)}`);
+    doc.text(`Worked days: ${attendance.workedDays ?? 0} of ${attendance.periodWorkingDays ?? 0}`);
+    doc.text(`Absent days: ${attendance.absentDays ?? 0}`);
+}
+
+/**
+ * Submit a draft attendance sheet for validation
+ * @param attendanceId - Attendance document ID
+ * @param employeeUid - UID of the employee submitting; must own the sheet
+ * @param projectName - Firebase project name the employee belongs to
+ * @returns Promise<TimesheetSubmitResult> - The updated sheet, or why it could not be submitted
+ */
+export async function submitTimesheet(attendanceId: string, employeeUid: string, projectName: string): Promise<TimesheetSubmitResult> {
+    const db = await getProjectDb(projectName);
+    const ref = db.collection('attendance').doc(attendanceId);
+
+    return await retryDatabaseOperation(async () => {
+        return await db.runTransaction(async (tx): Promise<TimesheetSubmitResult> => {
+            const snap = await tx.get(ref);
+            if (!snap.exists) {
+                return { success: false, error: 'not_found' };
+            }
+
+            const attendance = { ...snap.data(), id: snap.id } as AttendanceModel;
+            if (attendance.uid !== employeeUid) {
+                return { success: false, error: 'forbidden' };
+            }
+            if (attendance.state !== 'Draft') {
+                return { success: false, error: 'not_draft' };
+            }
+
+            const lastChanged = new Date().toISOString();
+            tx.update(ref, { state: 'In Progress', lastChanged });
+            return { success: true, attendance: { ...attendance, state: 'In Progress' } };
+        });
+    }, 2, 1000, projectName);
+}
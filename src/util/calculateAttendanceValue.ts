@@ -0,0 +1,27 @@
+import { DailyAttendance } from "../models/attendance";
+import { AttendanceLogicModel } from "../models/attendance-logic";
+
+// Determine attendance value based on daily worked hours and contract hours
+function calculateAttendanceValue(
+    dailyWorkedHours: number,
+    dailyWorkingHour: number,
+    attendanceLogic: AttendanceLogicModel,
+    previousValue: DailyAttendance["value"] = null
+): DailyAttendance["value"] {
+    if (!dailyWorkingHour) {
+        return previousValue;
+    }
+
+    const presentThreshold = attendanceLogic.presentThreshold ? attendanceLogic.presentThreshold / 100 : 0;
+    const halfPresentThreshold = attendanceLogic.halfPresentThreshold ? attendanceLogic.halfPresentThreshold / 100 : 0;
+
+    if (dailyWorkedHours >= dailyWorkingHour * presentThreshold) {
+        return "P";
+    }
+    if (dailyWorkedHours >= dailyWorkingHour * halfPresentThreshold) {
+        return "H";
+    }
+    return "A";
+}
+
+export default calculateAttendanceValue;
@@ -1,8 +1,11 @@
 import dayjs from "dayjs";
 import duration from "dayjs/plugin/duration";
+import customParseFormat from "dayjs/plugin/customParseFormat";
 import { ShiftTypeModel, ShiftHourModel } from "../models/hrSettings";
 
 dayjs.extend(duration);
+// Shift times are stored as "hh:mm A", which dayjs only parses with this plugin
+dayjs.extend(customParseFormat);
 
 export const days: string[] = [
     "Sunday",
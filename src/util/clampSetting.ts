@@ -0,0 +1,7 @@
+// Numeric setting from an environment variable or hrSettings, kept within [min, max]; missing or invalid values use the fallback
+const clampSetting = (value: string | number | undefined | null, fallback: number, min: number, max: number): number => {
+    const parsed = typeof value === 'number' ? value : parseInt(value ?? '', 10);
+    return Number.isFinite(parsed) ? Math.max(min, Math.min(max, parsed)) : fallback;
+}
+
+export default clampSetting;
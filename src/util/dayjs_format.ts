@@ -1,9 +1,11 @@
 import dayjs from "dayjs";
 import utc from "dayjs/plugin/utc";
 import timezone from "dayjs/plugin/timezone";
+import customParseFormat from "dayjs/plugin/customParseFormat";
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
+dayjs.extend(customParseFormat);
 // Removed default timezone setting to use UTC for storage
 export const DEFAULT_TZ: string = process.env.DEFAULT_TZ || 'Africa/Nairobi';
 
@@ -24,3 +26,37 @@ export const getDate = () => dayjs.tz().format(dateFormat);
 export const formatDate = (date: Date | string | dayjs.Dayjs, tz?: string) => dayjs.utc(date).tz(tz || DEFAULT_TZ).format(dateFormat);
 export const formatTimestamp = (timestamp: Date | string | dayjs.Dayjs, tz?: string) => dayjs.utc(timestamp).tz(tz || DEFAULT_TZ).format(timestampFormat);
 export const formatHour = (d: Date | string | dayjs.Dayjs, tz?: string) => dayjs.utc(d).tz(tz || DEFAULT_TZ).format('h:mm A');
+export const formatDuration = (hours: number) => {
+    const totalMinutes = Math.max(0, Math.round(hours * 60));
+    return `${Math.floor(totalMinutes / 60)}h ${String(totalMinutes % 60).padStart(2, '0')}m`;
+};
+// Calendar dates are stored either in dateFormat ("MMMM DD, YYYY") or as ISO strings
+export const parseDate = (date: string, tz?: string) => {
+    const zone = tz || DEFAULT_TZ;
+    const formatted = dayjs.tz(date, dateFormat, zone);
+    return formatted.isValid() ? formatted : dayjs.utc(date).tz(zone).startOf('day');
+};
+// Month stored as "March 2026", "2026-03" or as any date inside it; compare with format('YYYY-MM')
+export const parseMonth = (value: string) => {
+    const month = dayjs(value.trim(), ['MMMM YYYY', 'MMM YYYY', 'YYYY-MM', dateFormat, 'YYYY-MM-DD'], true);
+    return (month.isValid() ? month : dayjs.utc(value)).startOf('month');
+};
+// Time of day typed by a user ("8", "08:30", "5pm", "5.30 pm") on a local YYYY-MM-DD date, returned in UTC
+export const parseLocalTime = (value: string, date: string, tz?: string): dayjs.Dayjs | null => {
+    const match = /^(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?$/i.exec(value.trim());
+    if (!match) {
+        return null;
+    }
+    let hour = parseInt(match[1]!, 10);
+    const minute = parseInt(match[2] ?? '0', 10);
+    const meridiem = match[3]?.toLowerCase();
+    if (meridiem) {
+        if (hour < 1 || hour > 12) return null;
+        hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+    }
+    if (hour > 23 || minute > 59) {
+        return null;
+    }
+    const time = dayjs.tz(`${date} ${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`, 'YYYY-MM-DD HH:mm', tz || DEFAULT_TZ);
+    return time.isValid() ? time.utc() : null;
+};
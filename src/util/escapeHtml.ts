@@ -0,0 +1,4 @@
+// Escape user-provided text before embedding it in messages sent with parse_mode HTML
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+export default escapeHtml;
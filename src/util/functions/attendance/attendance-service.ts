@@ -1,21 +1,113 @@
-import { AttendanceModel } from '../../../models/attendance'
-
-export const updateAttendance = async (data: AttendanceModel, project: string) => {
-    if (!project) throw new Error('Project not found')
-
-    const response = await fetch(`/api/module/project?data=attendance&id=${data.id}&project=${project}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data)
-    })
-    if (!response.ok) throw new Error('Failed to update attendance')
-    return response.json()
+import dayjs from 'dayjs'
+import { getProjectDb, retryDatabaseOperation } from '../../../firebase-config'
+import { AttendanceModel, RequestModificationModel } from '../../../models/attendance'
+
+// Read-modify-write of an attendance sheet in one transaction. Clock-outs can come from several writers at once
+// (the /clockout command, location and shift-end auto clock-outs); Firestore re-runs `modify` on the fresh sheet
+// when another writer got there first, so no punch overwrites another.
+// `modify` must not have side effects: it returns the result and the sheets to write back.
+export const updateAttendance = async <T>(
+    id: string,
+    project: string,
+    modify: (
+        attendance: AttendanceModel,
+        getByMonth: (uid: string, year: number, month: AttendanceModel['month']) => Promise<AttendanceModel | null>
+    ) => Promise<{ result: T, sheets: AttendanceModel[] }>
+): Promise<T> => {
+    const db = await getProjectDb(project)
+    const collection = db.collection('attendance')
+
+    return await retryDatabaseOperation(async () => {
+        return await db.runTransaction(async (tx) => {
+            const doc = await tx.get(collection.doc(id))
+            if (!doc.exists) throw new Error(`Attendance ${id} not found`)
+
+            // Other sheets are read in the same transaction, so they are protected too
+            const getByMonth = async (uid: string, year: number, month: AttendanceModel['month']) => {
+                const query = await tx.get(collection
+                    .where('uid', '==', uid)
+                    .where('year', '==', year)
+                    .where('month', '==', month)
+                    .limit(1))
+                const sheet = query.docs[0]
+                return sheet ? { ...sheet.data(), id: sheet.id } as AttendanceModel : null
+            }
+
+            const { result, sheets } = await modify({ ...doc.data(), id: doc.id } as AttendanceModel, getByMonth)
+            const lastChanged = new Date().toISOString()
+            for (const { id: sheetId, ...rest } of sheets) {
+                tx.update(collection.doc(sheetId), { ...rest, lastChanged })
+            }
+            return result
+        })
+    }, 2, 1000, project)
+}
+
+export const getAttendanceById = async (id: string, project: string): Promise<AttendanceModel | null> => {
+    const db = await getProjectDb(project)
+
+    const doc = await retryDatabaseOperation(async () => {
+        return await db.collection('attendance').doc(id).get()
+    }, 2, 1000, project)
+    if (!doc.exists) return null
+    return { ...doc.data(), id: doc.id } as AttendanceModel
 }
 
-export const getAttendanceById = async (id: string, project: string) => {
-    if (!project) throw new Error('Project not found')
+export const getAttendanceByMonth = async (
+    uid: string,
+    year: number,
+    month: AttendanceModel['month'],
+    project: string
+): Promise<AttendanceModel | null> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('attendance')
+            .where('uid', '==', uid)
+            .where('year', '==', year)
+            .where('month', '==', month)
+            .limit(1)
+            .get()
+    }, 2, 1000, project)
+
+    const doc = query.docs[0]
+    if (!doc) return null
+    return { ...doc.data(), id: doc.id } as AttendanceModel
+}
 
-    const response = await fetch(`/api/module/project?data=attendance&id=${id}&project=${project}`)
-    if (!response.ok) throw new Error('Failed to get attendance')
-    return response.json()
-}
\ No newline at end of file
+// All attendance sheets of a month, one per employee
+export const getAttendancesByMonth = async (year: number, month: AttendanceModel['month'], project: string): Promise<AttendanceModel[]> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('attendance')
+            .where('year', '==', year)
+            .where('month', '==', month)
+            .get()
+    }, 2, 1000, project)
+
+    return query.docs.map(doc => ({ ...doc.data(), id: doc.id }) as AttendanceModel)
+}
+
+// Attendance sheets with an open clock-in; last month's are included for shifts that crossed the month boundary
+export const getOpenClockIns = async (project: string): Promise<AttendanceModel[]> => {
+    const now = dayjs.utc()
+    const months = [now, now.subtract(1, 'month')]
+    const attendances = await Promise.all(
+        months.map(month => getAttendancesByMonth(month.year(), month.format('MMMM') as AttendanceModel['month'], project))
+    )
+    return attendances.flat().filter(attendance => attendance.lastClockInTimestamp !== null && attendance.lastClockInTimestamp !== undefined)
+}
+
+// Attendance corrections waiting for a decision
+export const getRequestedModifications = async (project: string): Promise<RequestModificationModel[]> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('requestModifications')
+            .where('status', '==', 'Requested')
+            .get()
+    }, 2, 1000, project)
+
+    return query.docs.map(doc => ({ ...doc.data(), id: doc.id }) as RequestModificationModel)
+}
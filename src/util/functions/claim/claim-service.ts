@@ -0,0 +1,22 @@
+import dayjs from 'dayjs'
+import { getProjectDb, retryDatabaseOperation } from '../../../firebase-config'
+
+// gRPC status of a create() on an existing document
+const ALREADY_EXISTS = 6
+
+// Create the marker document `collection/key` so a job or message runs once, even across restarts and replicas.
+// Resolves false when the marker already exists; any other error is logged and rethrown.
+export const claimOnce = async (project: string, collection: string, key: string, data?: Record<string, unknown>): Promise<boolean> => {
+    const db = await getProjectDb(project)
+
+    try {
+        await retryDatabaseOperation(async () => {
+            return await db.collection(collection).doc(key).create(data ?? { claimedAt: dayjs.utc().toISOString() })
+        }, 2, 1000, project)
+        return true
+    } catch (error) {
+        if ((error as { code?: unknown }).code === ALREADY_EXISTS) return false
+        console.error(`Error claiming ${collection}/${key} in ${project}:`, error)
+        throw error
+    }
+}
@@ -1,10 +1,12 @@
 import dayjs from "dayjs";
-import { AttendanceModel, WorkedHoursModel } from "../../models/attendance";
+import { AttendanceModel, DailyAttendance, WorkedHoursModel, WorkedHoursOrigin } from "../../models/attendance";
 import { AttendanceLogicModel } from "../../models/attendance-logic";
 import { ShiftTypeModel, ShiftHourModel } from "../../models/hrSettings";
 import calculateDailyWorkingHours from "../calculateDailyWorkingHours";
+import calculateAttendanceValue from "../calculateAttendanceValue";
+import getShiftWindows, { getShiftDay } from "../getShiftWindows";
 import { updateAttendance } from "./attendance/attendance-service";
-import { formatHour } from "../dayjs_format";
+import { formatHour, monthNames } from "../dayjs_format";
 
 export const clockInOrOut = async (
     type: "Clock In" | "Clock Out",
@@ -14,152 +16,278 @@ export const clockInOrOut = async (
     shiftHours: ShiftHourModel[],
     project: string,
     employeeTimezone?: string | null,
-): Promise<{ status: boolean, error?: string }> => {
-    const selected = attendance;
-    const newData: AttendanceModel = { ...selected };
-
-    // Calculate daily working hours for the current day
-    const dailyWorkingHour: number = calculateDailyWorkingHours(
-        dayjs.utc(),
-        shiftType,
-        shiftHours,
-        employeeTimezone
-    );
-
-    if (dailyWorkingHour === 0) {
-        return {
-            status: false,
-            error: "Set up shift type and associate to employee",
-        };
+    origin: WorkedHoursOrigin = "manual",
+    flexibilityMinutes: number = 0,
+    punchAt: dayjs.Dayjs = dayjs.utc(),
+): Promise<ClockResult> => {
+    // The punch is applied to the sheet as stored when the transaction runs, not to the caller's copy,
+    // so a concurrent clock-out is seen (and a second one refused) instead of being overwritten
+    try {
+        return await updateAttendance<ClockResult>(attendance.id, project, (current, getByMonth) => applyPunch(
+            type,
+            current,
+            shiftType,
+            attendanceLogic,
+            shiftHours,
+            getByMonth,
+            employeeTimezone,
+            origin,
+            flexibilityMinutes,
+            punchAt
+        ));
+    } catch (error) {
+        return { status: false, error: "Failed to update attendance record" + " " + error };
     }
+};
+
+type ClockResult = { status: boolean, error?: string, hour?: string, dailyWorkedHours?: number, lateMinutes?: number };
 
-    // Determine the current day's index in the `values` array (zero-based)
-    const currentDayIndex = type === 'Clock In' ? dayjs.utc().date() - 1 : dayjs.utc(newData.lastClockInTimestamp).date() - 1;
+// Compute the sheet(s) to save for a punch; nothing is written here
+async function applyPunch(
+    type: "Clock In" | "Clock Out",
+    attendance: AttendanceModel,
+    shiftType: ShiftTypeModel,
+    attendanceLogic: AttendanceLogicModel,
+    shiftHours: ShiftHourModel[],
+    getAttendanceByMonth: (uid: string, year: number, month: AttendanceModel["month"]) => Promise<AttendanceModel | null>,
+    employeeTimezone: string | null | undefined,
+    origin: WorkedHoursOrigin,
+    flexibilityMinutes: number,
+    punchAt: dayjs.Dayjs,
+): Promise<{ result: ClockResult, sheets: AttendanceModel[] }> {
+    // Normalize to an array to avoid converting to a map/object when updating Firestore
+    const newData: AttendanceModel = { ...attendance, values: normalizeAttendanceValues(attendance.values) };
+    const punchTimestamp = punchAt.toISOString();
 
-    // Get the existing worked hours for the day, or initialize an empty array
-    const workedHours: WorkedHoursModel[] =
-        newData.values[currentDayIndex]?.workedHours ?? [];
+    // Hour recorded for the punch and the running total for its day, reported back to the caller
+    const recordedHour = formatHour(punchTimestamp, employeeTimezone || undefined);
+    let recordedDailyWorkedHours = 0;
+    let recordedLateMinutes: number | undefined;
+    // Attendance sheet of the following month, when an overnight shift crosses the month boundary
+    let nextMonthData: AttendanceModel | null = null;
 
     if (type === "Clock In") {
-        // Save clock-in timestamp
-        const clockInTimestamp = dayjs.utc().toISOString();
+        // Prevent a second clock-in while a previous one is still open
+        if (newData.lastClockInTimestamp) {
+            return { result: { status: false, error: "You are already clocked in. Clock out first." }, sheets: [] };
+        }
 
-        // Initialize daily attendance if it doesn't exist
-        if (!newData.values[currentDayIndex]) {
-            newData.values[currentDayIndex] = {
-                id: crypto.randomUUID(),
-                day: currentDayIndex + 1,
-                value: null,
-                timestamp: clockInTimestamp,
-                from: null,
-                to: null,
-                status: "N/A",
-                dailyWorkedHours: 0,
-                workedHours: [],
+        // Punches belong to the employee's local working day (overnight shifts stay on the day they started)
+        const shiftDay = getShiftDay(punchAt, shiftType, shiftHours, employeeTimezone);
+
+        // Calculate daily working hours for the working day
+        const dailyWorkingHour: number = calculateDailyWorkingHours(
+            shiftDay,
+            shiftType,
+            shiftHours,
+            employeeTimezone
+        );
+
+        if (dailyWorkingHour === 0) {
+            return {
+                result: { status: false, error: "Set up shift type and associate to employee" },
+                sheets: [],
             };
         }
 
+        const dayIndex = shiftDay.date() - 1;
+        const dayEntry = getOrCreateDay(newData, dayIndex, punchTimestamp);
+
+        // Only the first clock-in of the day can be late; returning from a break is not
+        if (dayEntry.workedHours.length === 0) {
+            const shiftStart = getShiftWindows(shiftDay, shiftType, shiftHours, employeeTimezone)[0]?.start;
+            const minutesLate = shiftStart ? Math.floor(punchAt.diff(shiftStart, "minute", true)) : 0;
+            if (minutesLate > flexibilityMinutes) {
+                dayEntry.late = true;
+                dayEntry.lateMinutes = minutesLate;
+                recordedLateMinutes = minutesLate;
+            }
+        }
+
         // Add the clock-in entry to the worked hours array
-        workedHours.push({
+        dayEntry.workedHours = [...dayEntry.workedHours, {
             id: crypto.randomUUID(),
-            timestamp: clockInTimestamp,
+            timestamp: punchTimestamp,
             type: "Clock In",
-            hour: formatHour(clockInTimestamp, employeeTimezone || undefined),
-        });
-
-        // Update the current day's worked hours with the clock-in entry
-        newData.values[currentDayIndex].workedHours = workedHours;
+            hour: recordedHour,
+            origin,
+        }];
+        recordedDailyWorkedHours = dayEntry.dailyWorkedHours ?? 0;
 
         // Save the clock-in timestamp for later reference
-        newData.lastClockInTimestamp = clockInTimestamp;
+        newData.lastClockInTimestamp = punchTimestamp;
     } else if (type === "Clock Out") {
         // Ensure there is a previous clock-in timestamp
         if (!newData.lastClockInTimestamp) {
-            return { status: false, error: "Cannot clock out without a previous clock-in." }
+            return { result: { status: false, error: "Cannot clock out without a previous clock-in." }, sheets: [] };
         }
 
         // Use the clock-in timestamp to determine the working day
         const clockInDate = dayjs.utc(newData.lastClockInTimestamp);
-        const clockOutTimestamp = dayjs.utc().toISOString();
+        const shiftDay = getShiftDay(clockInDate, shiftType, shiftHours, employeeTimezone);
+
+        // Hours past local midnight at the end of the month are recorded on the next month's sheet
+        const nextMonthStart = shiftDay.add(1, "month").startOf("month");
+        if (punchAt.isAfter(nextMonthStart)) {
+            nextMonthData = await getAttendanceByMonth(
+                newData.uid,
+                nextMonthStart.year(),
+                monthNames[nextMonthStart.month()] as AttendanceModel["month"]
+            );
+            if (!nextMonthData) {
+                console.warn(`No ${monthNames[nextMonthStart.month()]} attendance sheet for ${newData.uid}; recording the whole shift on ${newData.month}`);
+            }
+        }
+        const splitAt = nextMonthData ? nextMonthStart : null;
+
+        // The working day is evaluated on the whole shift, including the part recorded next month
+        const spilledHours = splitAt ? Math.max(0, punchAt.diff(splitAt, "hours", true)) : 0;
+        recordedDailyWorkedHours = spilledHours + recordWorkedHours(
+            newData,
+            shiftDay,
+            clockInDate,
+            splitAt ?? punchAt,
+            splitAt ? "auto-month-split" : origin,
+            shiftType,
+            shiftHours,
+            attendanceLogic,
+            employeeTimezone,
+            spilledHours
+        );
 
-        // Determine the day index based on the clock-in date
-        const clockInDayIndex = clockInDate.date() - 1;
+        if (nextMonthData && splitAt) {
+            nextMonthData = { ...nextMonthData, values: normalizeAttendanceValues(nextMonthData.values) };
+            const dayEntry = getOrCreateDay(nextMonthData, 0, punchTimestamp);
 
-        // Initialize daily attendance if it doesn't exist
-        if (!newData.values[clockInDayIndex]) {
-            newData.values[clockInDayIndex] = {
+            // The second half starts with a clock-in at midnight so both sheets hold complete punch pairs
+            dayEntry.workedHours = [...dayEntry.workedHours, {
                 id: crypto.randomUUID(),
-                day: clockInDayIndex + 1,
-                value: null,
-                timestamp: clockOutTimestamp,
-                from: null,
-                to: null,
-                status: "N/A",
-                dailyWorkedHours: 0,
-                workedHours: [],
-            };
+                timestamp: splitAt.toISOString(),
+                type: "Clock In",
+                hour: formatHour(splitAt, employeeTimezone || undefined),
+                origin: "auto-month-split",
+            }];
+            // Spilled-over hours do not decide the first day's attendance value on their own
+            recordWorkedHours(
+                nextMonthData,
+                splitAt,
+                splitAt,
+                punchAt,
+                origin,
+                shiftType,
+                shiftHours,
+                attendanceLogic,
+                employeeTimezone,
+                null
+            );
         }
 
-        // Calculate the hours worked since the last clock-in
-        const hoursWorked = dayjs.utc().diff(
-            dayjs.utc(newData.lastClockInTimestamp),
-            "hours",
-            true
+        // Reset the clock-in timestamp to null after clock-out
+        newData.lastClockInTimestamp = null;
+    }
+
+    // The updated attendance record(s) to save in the database
+    return {
+        result: {
+            status: true,
+            hour: recordedHour,
+            dailyWorkedHours: recordedDailyWorkedHours,
+            ...(recordedLateMinutes !== undefined ? { lateMinutes: recordedLateMinutes } : {}),
+        },
+        sheets: nextMonthData ? [newData, nextMonthData] : [newData],
+    };
+}
+
+// Add a clock-out and the hours since `from` to a working day, returning the day's new total
+// `extraValueHours` are added when evaluating the attendance value; null keeps the existing value
+function recordWorkedHours(
+    data: AttendanceModel,
+    shiftDay: dayjs.Dayjs,
+    from: dayjs.Dayjs,
+    to: dayjs.Dayjs,
+    origin: WorkedHoursOrigin,
+    shiftType: ShiftTypeModel,
+    shiftHours: ShiftHourModel[],
+    attendanceLogic: AttendanceLogicModel,
+    employeeTimezone: string | null | undefined,
+    extraValueHours: number | null = 0
+): number {
+    const clockOutTimestamp = to.toISOString();
+    // shiftDay is already in the employee's timezone, so date() is the local day of the month
+    const dayIndex = shiftDay.date() - 1;
+    const dayEntry = getOrCreateDay(data, dayIndex, clockOutTimestamp);
+
+    // Calculate the hours worked since the clock-in (never negative if a capped clock-out lands before it)
+    const hoursWorked = Math.max(0, to.diff(from, "hours", true));
+
+    // Add the clock-out entry to the worked hours array
+    const workedHours: WorkedHoursModel[] = [...dayEntry.workedHours, {
+        id: crypto.randomUUID(),
+        timestamp: clockOutTimestamp,
+        type: "Clock Out",
+        hour: formatHour(clockOutTimestamp, employeeTimezone || undefined),
+        origin,
+    }];
+
+    // Update daily and monthly worked hours
+    const dailyWorkedHours = (dayEntry.dailyWorkedHours ?? 0) + hoursWorked;
+    data.monthlyWorkedHours = (data.monthlyWorkedHours ?? 0) + hoursWorked;
+
+    // Determine attendance value based on daily worked hours and contract hours
+    const attendanceValue = extraValueHours === null
+        ? dayEntry.value
+        : calculateAttendanceValue(
+            dailyWorkedHours + extraValueHours,
+            calculateDailyWorkingHours(shiftDay, shiftType, shiftHours, employeeTimezone),
+            attendanceLogic,
+            dayEntry.value
         );
 
-        // Add the clock-out entry to the worked hours array
-        workedHours.push({
+    data.values[dayIndex] = {
+        ...dayEntry,
+        workedHours,
+        value: attendanceValue || null,
+        dailyWorkedHours,
+        status: "Submitted",
+        timestamp: clockOutTimestamp,
+    };
+    return dailyWorkedHours;
+}
+
+// Initialize daily attendance if it doesn't exist
+function getOrCreateDay(data: AttendanceModel, dayIndex: number, timestamp: string): DailyAttendance {
+    if (!data.values[dayIndex]) {
+        data.values[dayIndex] = {
             id: crypto.randomUUID(),
-            timestamp: clockOutTimestamp,
-            type: "Clock Out",
-            hour: formatHour(clockOutTimestamp, employeeTimezone || undefined),
-        });
-
-        // Update daily and monthly worked hours
-        let dailyWorkedHours =
-            newData.values[clockInDayIndex]?.dailyWorkedHours ?? 0;
-        dailyWorkedHours += hoursWorked;
-
-        let monthlyWorkedHours = newData?.monthlyWorkedHours ?? 0;
-        monthlyWorkedHours += hoursWorked;
-
-        // Determine attendance value based on daily worked hours and contract hours
-        const attendanceValue = dailyWorkingHour
-            ? dailyWorkedHours >=
-                dailyWorkingHour *
-                (attendanceLogic.presentThreshold
-                    ? attendanceLogic.presentThreshold / 100
-                    : 0)
-                ? "P"
-                : dailyWorkedHours >=
-                    dailyWorkingHour *
-                    (attendanceLogic.halfPresentThreshold
-                        ? attendanceLogic.halfPresentThreshold / 100
-                        : 0)
-                    ? "H"
-                    : "A"
-            : newData.values[clockInDayIndex]?.value;
-
-        // Update attendance data for the clock-in date
-        newData.monthlyWorkedHours = monthlyWorkedHours;
-        newData.values[clockInDayIndex] = {
-            ...newData.values[clockInDayIndex],
-            workedHours,
-            value: attendanceValue || null,
-            dailyWorkedHours,
-            status: "Submitted",
-            timestamp: clockOutTimestamp,
+            day: dayIndex + 1,
+            value: null,
+            timestamp,
+            from: null,
+            to: null,
+            status: "N/A",
+            dailyWorkedHours: 0,
+            workedHours: [],
         };
-
-        // Reset the clock-in timestamp to null after clock-out
-        newData.lastClockInTimestamp = null;
     }
+    return data.values[dayIndex];
+}
 
-    // Save the updated attendance record in the database
-    try {
-        await updateAttendance(newData, project);
-        return { status: true };
-    } catch (error) {
-        return { status: false, error: "Failed to update attendance record" + " " + error };
+// Older attendance documents store values as a map with numeric keys
+export function normalizeAttendanceValues(raw: unknown): DailyAttendance[] {
+    // If it's already an array, return a copy
+    if (Array.isArray(raw)) {
+        return [...raw] as DailyAttendance[];
+    }
+    // Convert map-like object with numeric keys to array, preserving indices
+    const arr: DailyAttendance[] = [];
+    if (raw && typeof raw === "object") {
+        const entries = Object.entries(raw as Record<string, unknown>);
+        for (const [k, v] of entries) {
+            const idx = parseInt(k, 10);
+            if (!Number.isNaN(idx) && idx >= 0 && idx < 31) {
+                arr[idx] = v as DailyAttendance;
+            }
+        }
     }
-};
\ No newline at end of file
+    return arr;
+}
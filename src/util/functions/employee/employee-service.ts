@@ -0,0 +1,81 @@
+import { getHealthyDbInstances, getProjectDb, retryDatabaseOperation } from '../../../firebase-config'
+import { EmployeeModel } from '../../../models/employee'
+
+export const getEmployeeById = async (id: string, project: string): Promise<EmployeeModel | null> => {
+    const db = await getProjectDb(project)
+
+    const doc = await retryDatabaseOperation(async () => {
+        return await db.collection('employee').doc(id).get()
+    }, 2, 1000, project)
+    if (!doc.exists) return null
+    return { ...doc.data(), id: doc.id } as EmployeeModel
+}
+
+export const getEmployeeByUid = async (uid: string, project: string): Promise<EmployeeModel | null> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('employee')
+            .where('uid', '==', uid)
+            .limit(1)
+            .get()
+    }, 2, 1000, project)
+
+    const doc = query.docs[0]
+    if (!doc) return null
+    return { ...doc.data(), id: doc.id } as EmployeeModel
+}
+
+export const getEmployees = async (project: string): Promise<EmployeeModel[]> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('employee').get()
+    }, 2, 1000, project)
+
+    return query.docs.map(doc => ({ ...doc.data(), id: doc.id }) as EmployeeModel)
+}
+
+// Roles whose holders receive HR notifications, comma-separated (e.g. "hr,admin")
+const HR_NOTIFICATION_ROLES = (process.env.HR_NOTIFICATION_ROLES || 'hr').split(',').map(role => role.trim()).filter(Boolean)
+
+// Employees holding one of the HR notification roles
+export const getHrEmployees = async (project: string): Promise<EmployeeModel[]> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('employee')
+            .where('role', 'array-contains-any', HR_NOTIFICATION_ROLES.slice(0, 30))
+            .get()
+    }, 2, 1000, project)
+
+    return query.docs.map(doc => ({ ...doc.data(), id: doc.id }) as EmployeeModel)
+}
+
+// Lookup employee by telegramChatID across projects
+export async function findEmployeeByChatId(chatId: number): Promise<{ employee: { id: string; uid: string;[key: string]: unknown }; projectName: string } | null> {
+    const healthyDbs = await getHealthyDbInstances()
+    for (const [projectName, db] of Object.entries(healthyDbs)) {
+        try {
+            const employeesRef = db.collection('employee')
+            const query = await retryDatabaseOperation(async () => {
+                return await employeesRef
+                    .where('telegramChatID', '==', chatId.toString())
+                    .limit(1)
+                    .get()
+            }, 2, 1000, projectName)
+
+            if (!query.empty) {
+                const doc = query.docs[0]
+                if (doc && doc.exists) {
+                    const employee = { id: doc.id, uid: doc.data().uid, ...doc.data() }
+                    return { employee, projectName }
+                }
+            }
+        } catch (error) {
+            console.error(`Error searching by chatId in ${projectName}:`, error)
+            continue
+        }
+    }
+    return null
+}
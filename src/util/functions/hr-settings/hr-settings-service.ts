@@ -0,0 +1,80 @@
+import { getProjectDb, retryDatabaseOperation } from '../../../firebase-config'
+import { AttendanceLogicModel } from '../../../models/attendance-logic'
+import { FlexibilityParameterModel } from '../../../models/flexibilityParameter'
+import { HeaderAndFooterModel } from '../../../models/headerAndFooter'
+import { HrSettingsMap, HrSettingsType } from '../../../models/hrSettings'
+
+// HR settings are stored in the `hrSettings` collection, one document per entry, keyed by `type`
+export const getHrSettingsByType = async <T extends HrSettingsType>(type: T, project: string): Promise<HrSettingsMap[T][]> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('hrSettings')
+            .where('type', '==', type)
+            .get()
+    }, 2, 1000, project)
+
+    return query.docs.map(doc => ({ ...doc.data(), id: doc.id }) as unknown as HrSettingsMap[T])
+}
+
+export const getHrSettingById = async <T extends HrSettingsType>(type: T, id: string, project: string): Promise<HrSettingsMap[T] | null> => {
+    const settings = await getHrSettingsByType(type, project)
+    return settings.find(setting => (setting as { id?: string }).id === id) ?? null
+}
+
+export const getAttendanceLogic = async (project: string): Promise<AttendanceLogicModel | null> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('attendanceLogic').limit(1).get()
+    }, 2, 1000, project)
+
+    const doc = query.docs[0]
+    if (!doc) return null
+    return { ...doc.data(), id: doc.id } as AttendanceLogicModel
+}
+
+export const getFlexibilityParameter = async (project: string): Promise<FlexibilityParameterModel | null> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('flexibilityParameter').limit(1).get()
+    }, 2, 1000, project)
+
+    const doc = query.docs[0]
+    if (!doc) return null
+    return { ...doc.data(), id: doc.id } as FlexibilityParameterModel
+}
+
+// Active document header and footer images, stored in their own collection like attendanceLogic
+export const getActiveHeadersAndFooters = async (project: string): Promise<HeaderAndFooterModel[]> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('headerAndFooter').where('active', '==', 'Yes').get()
+    }, 2, 1000, project)
+
+    return query.docs.map(doc => ({ ...doc.data(), id: doc.id }) as HeaderAndFooterModel)
+}
+
+export const getHeaderAndFooterById = async (id: string, project: string): Promise<HeaderAndFooterModel | null> => {
+    const db = await getProjectDb(project)
+
+    const doc = await retryDatabaseOperation(async () => {
+        return await db.collection('headerAndFooter').doc(id).get()
+    }, 2, 1000, project)
+
+    if (!doc.exists) return null
+    return { ...doc.data(), id: doc.id } as HeaderAndFooterModel
+}
+
+// Display name of a tenant, falling back to the project name when company info is not set up
+export const getCompanyName = async (project: string): Promise<string> => {
+    try {
+        const [companyInfo] = await getHrSettingsByType('companyInfo', project)
+        if (companyInfo?.companyName?.trim()) return companyInfo.companyName.trim()
+    } catch (error) {
+        console.error(`Failed to load company info for ${project}:`, error)
+    }
+    return project.toUpperCase()
+}
@@ -0,0 +1,41 @@
+import { getProjectDb, retryDatabaseOperation } from '../../../firebase-config'
+import { LeaveModel } from '../../../models/leave'
+
+export const getApprovedLeaves = async (project: string): Promise<LeaveModel[]> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('leave')
+            .where('leaveStage', '==', 'Approved')
+            .get()
+    }, 2, 1000, project)
+
+    return query.docs.map(doc => ({ ...doc.data(), id: doc.id }) as LeaveModel)
+}
+
+// Leave requests waiting for the manager's decision
+export const getOpenLeaves = async (project: string): Promise<LeaveModel[]> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('leave')
+            .where('leaveStage', '==', 'Open')
+            .get()
+    }, 2, 1000, project)
+
+    return query.docs.map(doc => ({ ...doc.data(), id: doc.id }) as LeaveModel)
+}
+
+// Leave requests of one employee at the given stage
+export const getEmployeeLeavesByStage = async (uid: string, stage: LeaveModel['leaveStage'], project: string): Promise<LeaveModel[]> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('leave')
+            .where('employeeID', '==', uid)
+            .where('leaveStage', '==', stage)
+            .get()
+    }, 2, 1000, project)
+
+    return query.docs.map(doc => ({ ...doc.data(), id: doc.id }) as LeaveModel)
+}
@@ -0,0 +1,26 @@
+import { getProjectDb, retryDatabaseOperation } from '../../../firebase-config'
+import { EmployeeLoanModel } from '../../../models/employeeLoan'
+
+export const getEmployeeLoans = async (uid: string, project: string): Promise<EmployeeLoanModel[]> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('employeeLoan')
+            .where('employeeUid', '==', uid)
+            .get()
+    }, 2, 1000, project)
+
+    return query.docs.map(doc => ({ ...doc.data(), id: doc.id }) as EmployeeLoanModel)
+}
+
+export const getOngoingLoans = async (project: string): Promise<EmployeeLoanModel[]> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('employeeLoan')
+            .where('loanStatus', '==', 'Ongoing')
+            .get()
+    }, 2, 1000, project)
+
+    return query.docs.map(doc => ({ ...doc.data(), id: doc.id }) as EmployeeLoanModel)
+}
@@ -0,0 +1,15 @@
+import { getProjectDb, retryDatabaseOperation } from '../../../firebase-config'
+import { ObjectiveModel } from '../../../models/objective-model'
+
+// Objectives in the "Created" status: employee-created ones wait for approval, manager-created ones for acknowledgement
+export const getCreatedObjectives = async (project: string): Promise<ObjectiveModel[]> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('objective')
+            .where('status', '==', 'Created')
+            .get()
+    }, 2, 1000, project)
+
+    return query.docs.map(doc => ({ ...doc.data(), id: doc.id }) as ObjectiveModel)
+}
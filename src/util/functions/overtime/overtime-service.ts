@@ -0,0 +1,40 @@
+import { getProjectDb, retryDatabaseOperation } from '../../../firebase-config'
+import { OvertimeRequestModel } from '../../../models/overtime-request'
+
+export const getPendingOvertimeRequests = async (project: string): Promise<OvertimeRequestModel[]> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('overtimeRequest')
+            .where('status', '==', 'pending')
+            .get()
+    }, 2, 1000, project)
+
+    return query.docs.map(doc => ({ ...doc.data(), id: doc.id }) as OvertimeRequestModel)
+}
+
+// Overtime requests of one day, `date` in dateFormat like `overtimeDate`
+export const getOvertimeRequestsByDate = async (date: string, project: string): Promise<OvertimeRequestModel[]> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('overtimeRequest')
+            .where('overtimeDate', '==', date)
+            .get()
+    }, 2, 1000, project)
+
+    return query.docs.map(doc => ({ ...doc.data(), id: doc.id }) as OvertimeRequestModel)
+}
+
+// Overtime approved by HR, to be paid with the payroll of its month
+export const getApprovedOvertimeRequests = async (project: string): Promise<OvertimeRequestModel[]> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('overtimeRequest')
+            .where('status', '==', 'approved')
+            .get()
+    }, 2, 1000, project)
+
+    return query.docs.map(doc => ({ ...doc.data(), id: doc.id }) as OvertimeRequestModel)
+}
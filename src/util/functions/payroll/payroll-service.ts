@@ -0,0 +1,40 @@
+import { getProjectDb, retryDatabaseOperation } from '../../../firebase-config'
+import { EmployeeCompensationModel } from '../../../models/employeeCompensation'
+import PayrollPDFSettingsModel from '../../../models/payrollPDFSettings'
+import { SignatureModel } from '../../../models/signature'
+
+// Payments and deductions listing the employee among their `employees`
+export const getEmployeeCompensations = async (uid: string, project: string): Promise<EmployeeCompensationModel[]> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('employeeCompensation')
+            .where('employees', 'array-contains', uid)
+            .get()
+    }, 2, 1000, project)
+
+    return query.docs.map(doc => ({ ...doc.data(), id: doc.id }) as EmployeeCompensationModel)
+}
+
+export const getPayrollPDFSettings = async (project: string): Promise<PayrollPDFSettingsModel | null> => {
+    const db = await getProjectDb(project)
+
+    const query = await retryDatabaseOperation(async () => {
+        return await db.collection('payrollPDFSettings').limit(1).get()
+    }, 2, 1000, project)
+
+    const doc = query.docs[0]
+    if (!doc) return null
+    return { ...doc.data(), id: doc.id } as PayrollPDFSettingsModel
+}
+
+export const getSignatureById = async (id: string, project: string): Promise<SignatureModel | null> => {
+    const db = await getProjectDb(project)
+
+    const doc = await retryDatabaseOperation(async () => {
+        return await db.collection('signature').doc(id).get()
+    }, 2, 1000, project)
+
+    if (!doc.exists) return null
+    return { ...doc.data(), id: doc.id } as SignatureModel
+}
@@ -0,0 +1,69 @@
+import dayjs from "dayjs";
+import customParseFormat from "dayjs/plugin/customParseFormat";
+import { ShiftTypeModel, ShiftHourModel } from "../models/hrSettings";
+import { days } from "./calculateDailyWorkingHours";
+import { DEFAULT_TZ } from "./dayjs_format";
+
+dayjs.extend(customParseFormat);
+
+export interface ShiftWindow {
+    start: dayjs.Dayjs;
+    end: dayjs.Dayjs;
+}
+
+// Concrete (UTC) start and end of every shift division scheduled on the employee's local day
+function getShiftWindows(
+    day: dayjs.Dayjs,
+    shiftType: ShiftTypeModel,
+    shiftHours: ShiftHourModel[],
+    employeeTimezone?: string | null
+): ShiftWindow[] {
+    const tz = employeeTimezone || DEFAULT_TZ;
+    const localDay = day.tz(tz);
+    const dayOfTheWeek = days[localDay.day()];
+    const workingDay = shiftType?.workingDays?.find(
+        (d) => d.dayOfTheWeek === dayOfTheWeek
+    );
+    const shiftHour = workingDay
+        ? shiftHours.find((sh) => sh.id === workingDay.associatedShiftHour)
+        : undefined;
+
+    if (!shiftHour) {
+        return [];
+    }
+
+    const date = localDay.format("YYYY-MM-DD");
+    return shiftHour.shiftHours
+        .map((shift) => {
+            const start = dayjs.tz(`${date} ${shift.startTime}`, "YYYY-MM-DD hh:mm A", tz);
+            let end = dayjs.tz(`${date} ${shift.endTime}`, "YYYY-MM-DD hh:mm A", tz);
+
+            // If end time is before start time, the shift ends the next day
+            if (end.isBefore(start)) {
+                end = end.add(1, "day");
+            }
+
+            return { start: start.utc(), end: end.utc() };
+        })
+        .filter((window) => window.start.isValid() && window.end.isValid())
+        .sort((a, b) => a.start.valueOf() - b.start.valueOf());
+}
+
+export default getShiftWindows;
+
+// Local working day a punch belongs to: the previous day while an overnight shift that started then is still running
+export function getShiftDay(
+    punch: dayjs.Dayjs,
+    shiftType: ShiftTypeModel,
+    shiftHours: ShiftHourModel[],
+    employeeTimezone?: string | null
+): dayjs.Dayjs {
+    const tz = employeeTimezone || DEFAULT_TZ;
+    const localPunch = punch.tz(tz);
+    const previousDay = localPunch.subtract(1, "day");
+    const inOvernightShift = getShiftWindows(previousDay, shiftType, shiftHours, tz).some(
+        (window) => !punch.isBefore(window.start) && punch.isBefore(window.end)
+    );
+
+    return (inOvernightShift ? previousDay : localPunch).startOf("day");
+}
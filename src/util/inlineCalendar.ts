@@ -0,0 +1,64 @@
+import dayjs from "dayjs";
+import { InlineKeyboardButton, InlineKeyboardMarkup } from "../types/telegram";
+
+export interface CalendarOptions {
+    // Days before this one are left blank
+    minDate?: dayjs.Dayjs | null;
+    // Last month that can be navigated to
+    maxMonth?: dayjs.Dayjs | null;
+    // Days shown in brackets (e.g. weekends and holidays); they stay selectable
+    isMarked?: (day: dayjs.Dayjs) => boolean;
+}
+
+const WEEKDAYS = ["Mo", "Tu", "We", "Th", "Fr", "Sa", "Su"];
+
+/**
+ * Month grid (weeks start on Monday) for picking a day with inline buttons
+ * Days send `<prefix>:day:YYYY-MM-DD`, the arrows `<prefix>:nav:YYYY-MM` and blank cells `<prefix>:noop`
+ * @param month - Any day of the month to show
+ * @param prefix - Callback data prefix of the conversation
+ * @param options - Selectable range and marked days
+ * @returns InlineKeyboardMarkup - Keyboard to send or edit in place
+ */
+export function buildCalendarKeyboard(month: dayjs.Dayjs, prefix: string, options: CalendarOptions = {}): InlineKeyboardMarkup {
+    const first = month.startOf("month");
+    const noop = `${prefix}:noop`;
+    const blank: InlineKeyboardButton = { text: " ", callback_data: noop };
+
+    const canGoBack = !options.minDate || first.isAfter(options.minDate.startOf("month"));
+    const canGoForward = !options.maxMonth || first.isBefore(options.maxMonth.startOf("month"));
+    const rows: InlineKeyboardButton[][] = [
+        [
+            canGoBack ? { text: "◀️", callback_data: `${prefix}:nav:${first.subtract(1, "month").format("YYYY-MM")}` } : blank,
+            { text: first.format("MMMM YYYY"), callback_data: noop },
+            canGoForward ? { text: "▶️", callback_data: `${prefix}:nav:${first.add(1, "month").format("YYYY-MM")}` } : blank,
+        ],
+        WEEKDAYS.map(weekday => ({ text: weekday, callback_data: noop })),
+    ];
+
+    // Monday-based offset of the first day
+    let week: InlineKeyboardButton[] = Array.from({ length: (first.day() + 6) % 7 }, () => blank);
+    for (let date = 1; date <= first.daysInMonth(); date++) {
+        const day = first.date(date);
+        if (options.minDate && day.isBefore(options.minDate, "day")) {
+            week.push(blank);
+        } else {
+            week.push({
+                text: options.isMarked?.(day) ? `(${date})` : String(date),
+                callback_data: `${prefix}:day:${day.format("YYYY-MM-DD")}`,
+            });
+        }
+        if (week.length === 7) {
+            // Weeks entirely before the first selectable day are dropped
+            if (week.some(button => button !== blank)) {
+                rows.push(week);
+            }
+            week = [];
+        }
+    }
+    if (week.length > 0) {
+        rows.push([...week, ...Array.from({ length: 7 - week.length }, () => blank)]);
+    }
+
+    return { inline_keyboard: rows };
+}
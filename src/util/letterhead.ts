@@ -0,0 +1,50 @@
+import dayjs from "dayjs";
+import { CompanyInfoModel } from "../models/companyInfo";
+import { HeaderAndFooterModel } from "../models/headerAndFooter";
+import { parseDate } from "./dayjs_format";
+
+// Latest active entry of a type whose validity period covers today
+export function pickCurrentLetterhead(entries: HeaderAndFooterModel[], type: HeaderAndFooterModel["headerAndFooterType"], tz: string): HeaderAndFooterModel | null {
+    const today = dayjs.utc().tz(tz).format("YYYY-MM-DD");
+    return entries
+        .filter(entry => entry.headerAndFooterType === type && entry.active === "Yes")
+        .filter(entry => !entry.startDate || parseDate(entry.startDate, tz).format("YYYY-MM-DD") <= today)
+        .filter(entry => !entry.endDate || parseDate(entry.endDate, tz).format("YYYY-MM-DD") >= today)
+        .sort((a, b) => (b.timestamp ?? "").localeCompare(a.timestamp ?? ""))[0] ?? null;
+}
+
+// Images are stored as data URLs or as download URLs; a missing image just leaves the space empty
+export async function loadImage(source: string | null | undefined): Promise<Buffer | null> {
+    if (!source) {
+        return null;
+    }
+    try {
+        const dataUrl = /^data:image\/(?:png|jpe?g);base64,(.+)$/i.exec(source);
+        if (dataUrl) {
+            return Buffer.from(dataUrl[1]!, "base64");
+        }
+        const response = await fetch(source);
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+        }
+        return Buffer.from(await response.arrayBuffer());
+    } catch (error) {
+        console.error("Failed to load letterhead image:", error);
+        return null;
+    }
+}
+
+// Company name, address and contact lines at the top of generated documents
+export function drawCompanyDetails(doc: PDFKit.PDFDocument, companyInfo: CompanyInfoModel | null, projectName: string): void {
+    doc.font("Helvetica-Bold").fontSize(14).text(companyInfo?.companyName?.trim() || projectName.toUpperCase());
+    const details = [
+        companyInfo?.postalAddress,
+        [companyInfo?.telNo && `Tel: ${companyInfo.telNo}`, companyInfo?.emailAddress].filter(Boolean).join("   "),
+        companyInfo?.tinNumber && `TIN: ${companyInfo.tinNumber}`
+    ].filter((line): line is string => !!line && line.trim() !== "");
+    doc.font("Helvetica").fontSize(9);
+    for (const line of details) {
+        doc.text(line);
+    }
+    doc.moveDown();
+}
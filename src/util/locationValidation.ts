@@ -323,6 +323,37 @@ export function validateEmployeeLocationAndArea(
     }
 }
 
+/**
+ * Summarize a location validation result in plain language
+ * @param result - Result of validateEmployeeLocationAndArea
+ * @returns string - e.g. "live, inside area, updated 2 min ago"
+ */
+export function describeLocationValidation(result: LocationValidationResult): string {
+    const error = result.error ?? '';
+    if (error.startsWith('No location data')) {
+        return 'not shared yet';
+    }
+    if (error.startsWith('Location sharing has ended')) {
+        return 'live sharing has ended';
+    }
+    if (error.startsWith('Invalid working area')) {
+        return 'your working area is misconfigured, please contact HR';
+    }
+
+    const parts: string[] = [result.isLive ? 'live' : 'not live'];
+    if (result.isValid) {
+        parts.push('inside area');
+    } else if (error.startsWith('You are outside')) {
+        parts.push('outside area');
+    } else if (error.startsWith('Location data is too old')) {
+        parts.push('too old');
+    }
+    if (result.locationAge !== null && result.locationAge !== undefined) {
+        parts.push(result.locationAge < 1 ? 'updated just now' : `updated ${result.locationAge} min ago`);
+    }
+    return parts.join(', ');
+}
+
 /**
  * Check if employee has valid location data for clock in/out
  * @param employeeLocation - Employee's current location from database
@@ -0,0 +1,228 @@
+import { CurrencyModel, PaymentTypeModel, PensionModel, TaxModel } from "../models/hrSettings";
+
+// Tax brackets, taxability thresholds and fixed pension amounts are configured in the payroll base currency.
+// Amounts passed in and returned are in the employee's currency; `CurrencyModel.exchangeRate` is the number
+// of base currency units one unit of that currency is worth. Without a currency the rate is 1.
+
+export interface TaxBracketItem {
+    lowerBound: number;
+    // Null for the part above the last bracket, taxed at `upperTaxRate`
+    upperBound: number | null;
+    percentage: number;
+    taxedAmount: number;
+    tax: number;
+}
+
+export interface TaxResult {
+    taxableIncome: number;
+    tax: number;
+    // Share of the taxable income paid as tax, in percent
+    effectiveRate: number;
+    brackets: TaxBracketItem[];
+}
+
+export interface AllowanceInput {
+    label: string;
+    amount: number;
+    paymentType: PaymentTypeModel | null;
+}
+
+export interface AllowanceItem {
+    label: string;
+    amount: number;
+    exempt: number;
+    taxable: number;
+}
+
+export interface PensionContribution {
+    type: PensionModel["employeePensionType"];
+    // Percentage of the base salary, or the fixed amount in base currency
+    configured: number;
+    contribution: number;
+}
+
+export interface PensionResult {
+    employee: PensionContribution;
+    employer: PensionContribution;
+}
+
+export interface EarningInput {
+    label: string;
+    amount: number;
+}
+
+export interface SalaryInput {
+    baseSalary: number;
+    allowances?: AllowanceInput[];
+    // Fully taxable earnings such as overtime pay
+    taxableEarnings?: EarningInput[];
+    tax: Pick<TaxModel, "taxRates" | "upperTaxRate"> | null;
+    pension: PensionModel | null;
+    currency?: Pick<CurrencyModel, "exchangeRate"> | null;
+}
+
+export interface SalaryResult {
+    baseSalary: number;
+    allowances: AllowanceItem[];
+    taxableEarnings: EarningInput[];
+    grossPay: number;
+    taxableIncome: number;
+    tax: TaxResult;
+    pension: PensionResult | null;
+    // Gross pay less income tax and the employee's pension contribution
+    netPay: number;
+}
+
+/**
+ * Progressive income tax: each bracket's percentage applies to the part of the income between
+ * the previous upper bound and its own; income above the last bracket is taxed at `upperTaxRate`.
+ * E.g. brackets 600 @ 0%, 1650 @ 10%, 3200 @ 15% and an upper rate of 35% tax 10,000 as
+ * 0 + 105 + 232.50 + 2,380 = 2,717.50.
+ * @param taxableIncome - Monthly taxable income in the employee's currency
+ * @param tax - Tax configuration
+ * @param currency - Employee's currency, when it differs from the base currency
+ * @returns TaxResult - Tax with the amount taxed in each bracket
+ */
+export function calculateIncomeTax(
+    taxableIncome: number,
+    tax: Pick<TaxModel, "taxRates" | "upperTaxRate"> | null,
+    currency?: Pick<CurrencyModel, "exchangeRate"> | null
+): TaxResult {
+    const income = toAmount(taxableIncome);
+    const rate = exchangeRate(currency);
+    const brackets: TaxBracketItem[] = [];
+    if (!tax || income === 0) {
+        return { taxableIncome: income, tax: 0, effectiveRate: 0, brackets };
+    }
+
+    // Bounds are converted to the employee's currency so every returned amount shares one unit
+    const sorted = [...(tax.taxRates ?? [])]
+        .filter(bracket => Number.isFinite(bracket.upperBound) && bracket.upperBound > 0)
+        .sort((a, b) => a.upperBound - b.upperBound);
+    let lowerBound = 0;
+    for (const bracket of sorted) {
+        const upperBound = bracket.upperBound / rate;
+        if (upperBound <= lowerBound) {
+            continue;
+        }
+        if (income > lowerBound) {
+            brackets.push(bracketItem(income, lowerBound, upperBound, bracket.percentage));
+        }
+        lowerBound = upperBound;
+    }
+    if (income > lowerBound) {
+        brackets.push(bracketItem(income, lowerBound, null, tax.upperTaxRate));
+    }
+
+    const total = round(brackets.reduce((sum, bracket) => sum + bracket.tax, 0));
+    return {
+        taxableIncome: income,
+        tax: total,
+        effectiveRate: round(total / income * 100),
+        brackets
+    };
+}
+
+/**
+ * Split an allowance into its tax-exempt and taxable parts
+ * The threshold is a percentage of the base salary or a value in base currency; the part above it is taxable.
+ * E.g. a 2,000 allowance with a 25% threshold on a 6,000 salary is 1,500 exempt and 500 taxable.
+ * @param allowance - Allowance amount and its payment type; without a type it is fully taxable
+ * @param baseSalary - Monthly base salary in the employee's currency
+ * @param currency - Employee's currency, when it differs from the base currency
+ * @returns AllowanceItem - Exempt and taxable amounts
+ */
+export function calculateAllowanceTaxability(
+    allowance: AllowanceInput,
+    baseSalary: number,
+    currency?: Pick<CurrencyModel, "exchangeRate"> | null
+): AllowanceItem {
+    const amount = toAmount(allowance.amount);
+    const paymentType = allowance.paymentType;
+    const threshold = !paymentType
+        ? 0
+        : paymentType.taxabilityThresholdType === "Percentage"
+            ? toAmount(baseSalary) * toAmount(paymentType.taxabilityThresholdAmount) / 100
+            : toAmount(paymentType.taxabilityThresholdAmount) / exchangeRate(currency);
+    const exempt = round(Math.min(amount, threshold));
+    return { label: allowance.label, amount, exempt, taxable: round(amount - exempt) };
+}
+
+/**
+ * Employee and employer pension contributions on the base salary
+ * E.g. 7% employee and 11% employer contributions on 6,000 are 420 and 660.
+ * @param baseSalary - Monthly base salary in the employee's currency
+ * @param pension - Pension configuration
+ * @param currency - Employee's currency, when it differs from the base currency
+ * @returns PensionResult - Both contributions
+ */
+export function calculatePension(
+    baseSalary: number,
+    pension: PensionModel,
+    currency?: Pick<CurrencyModel, "exchangeRate"> | null
+): PensionResult {
+    const contribution = (type: PensionModel["employeePensionType"], configured: number): PensionContribution => ({
+        type,
+        configured: toAmount(configured),
+        contribution: round(type === "Percentage"
+            ? toAmount(baseSalary) * toAmount(configured) / 100
+            : toAmount(configured) / exchangeRate(currency))
+    });
+    return {
+        employee: contribution(pension.employeePensionType, pension.employeePension),
+        employer: contribution(pension.employerPensionType, pension.employerPension)
+    };
+}
+
+/**
+ * Gross to net salary from the tax and pension configuration
+ * Other deductions (loans, compensation deductions) are left to the caller.
+ * @param input - Base salary, allowances, tax and pension configuration and currency
+ * @returns SalaryResult - Itemised gross pay, taxable income, tax, pension and net pay
+ */
+export function calculateSalary(input: SalaryInput): SalaryResult {
+    const baseSalary = toAmount(input.baseSalary);
+    const allowances = (input.allowances ?? []).map(allowance => calculateAllowanceTaxability(allowance, baseSalary, input.currency));
+    const taxableEarnings = (input.taxableEarnings ?? []).map(earning => ({ label: earning.label, amount: toAmount(earning.amount) }));
+    const otherEarnings = taxableEarnings.reduce((sum, earning) => sum + earning.amount, 0);
+    const grossPay = round(baseSalary + otherEarnings + allowances.reduce((sum, allowance) => sum + allowance.amount, 0));
+    const taxableIncome = round(baseSalary + otherEarnings + allowances.reduce((sum, allowance) => sum + allowance.taxable, 0));
+    const tax = calculateIncomeTax(taxableIncome, input.tax, input.currency);
+    const pension = input.pension ? calculatePension(baseSalary, input.pension, input.currency) : null;
+
+    return {
+        baseSalary,
+        allowances,
+        taxableEarnings,
+        grossPay,
+        taxableIncome,
+        tax,
+        pension,
+        netPay: round(grossPay - tax.tax - (pension?.employee.contribution ?? 0))
+    };
+}
+
+function bracketItem(income: number, lowerBound: number, upperBound: number | null, percentage: number): TaxBracketItem {
+    const taxedAmount = round((upperBound === null ? income : Math.min(income, upperBound)) - lowerBound);
+    return {
+        lowerBound: round(lowerBound),
+        upperBound: upperBound === null ? null : round(upperBound),
+        percentage: toAmount(percentage),
+        taxedAmount,
+        tax: round(taxedAmount * toAmount(percentage) / 100)
+    };
+}
+
+function exchangeRate(currency?: Pick<CurrencyModel, "exchangeRate"> | null): number {
+    const rate = currency?.exchangeRate;
+    return rate && Number.isFinite(rate) && rate > 0 ? rate : 1;
+}
+
+// Missing, negative or non-numeric values count as zero
+function toAmount(value: number | null | undefined): number {
+    return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+function round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
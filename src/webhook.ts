@@ -1,11 +1,14 @@
-// Webhook handlers for Telegram Bot (separate from polling)
+// Transport handlers for Telegram Bot (webhook delivery and long polling)
+import type TelegramBot from 'node-telegram-bot-api';
+import { bot } from './bot';
+import { getTransportMode, getWebhookConfig } from './config/telegram.config';
 
 // Webhook message handler
-export function handleWebhookUpdate(): void {
+export function handleWebhookUpdate(update: TelegramBot.Update): void {
     try {
-        // For webhook updates, we need to emit the update to trigger handlers
-        // The bot handlers are already set up in bot.ts
-        console.log('Webhook update received');
+        // Feed the update into the same handlers that polling uses (registered in bot.ts)
+        console.log(`Webhook update received: ${update.update_id}`);
+        bot.processUpdate(update);
     } catch (error) {
         console.error('Webhook update handling error:', error);
         throw error;
@@ -28,35 +31,41 @@ export function validateWebhookSecret(receivedSecret: string | undefined): boole
     return receivedSecret === expectedSecret;
 }
 
-// Manual polling implementation for telegram-bot-kit
+// Register the webhook with Telegram so updates are pushed to this server
+export async function registerWebhook(): Promise<void> {
+    const { url, secret } = getWebhookConfig();
+    await bot.setWebHook(url, { secret_token: secret });
+    console.log(`🔗 Webhook registered at ${url}`);
+}
+
+// Remove the webhook registration from Telegram
+export async function deregisterWebhook(): Promise<void> {
+    await bot.deleteWebHook();
+    console.log('🔗 Webhook deregistered');
+}
+
+// Long polling lifecycle for node-telegram-bot-api
 export class PollingManager {
-    private intervalId?: NodeJS.Timeout | undefined;
     private isPolling = false;
 
-    start(intervalMs: number = 30000): void {
+    async start(): Promise<void> {
         if (this.isPolling) {
             console.log('Polling already active');
             return;
         }
 
-        console.log(`Starting manual polling with ${intervalMs}ms interval`);
+        // Telegram rejects getUpdates while a webhook is set, e.g. after switching modes
+        await bot.deleteWebHook();
+        await bot.startPolling();
         this.isPolling = true;
-
-        // Note: telegram-bot-kit doesn't have built-in polling
-        // This is a placeholder for manual polling implementation
-        // For production polling, consider switching to node-telegram-bot-api
-
-        this.intervalId = setInterval(() => {
-            // Manual polling would go here if implemented
-            console.log('Polling interval tick (manual polling not implemented in telegram-bot-kit)');
-        }, intervalMs);
+        console.log('✅ Polling started successfully');
     }
 
-    stop(): void {
-        if (this.intervalId) {
-            clearInterval(this.intervalId);
-            this.intervalId = undefined;
+    async stop(): Promise<void> {
+        if (!this.isPolling) {
+            return;
         }
+        await bot.stopPolling({ cancel: true, reason: 'Server shutdown' });
         this.isPolling = false;
         console.log('Polling stopped');
     }
@@ -66,4 +75,24 @@ export class PollingManager {
     }
 }
 
-export const pollingManager = new PollingManager();
\ No newline at end of file
+export const pollingManager = new PollingManager();
+
+// Start receiving updates using the configured transport
+export async function startTransport(): Promise<void> {
+    if (getTransportMode() === 'webhook') {
+        await registerWebhook();
+    } else {
+        await pollingManager.start();
+    }
+}
+
+// Stop receiving updates using the configured transport
+export async function stopTransport(): Promise<void> {
+    if (getTransportMode() === 'webhook') {
+        if (getWebhookConfig().deleteOnShutdown) {
+            await deregisterWebhook();
+        }
+    } else {
+        await pollingManager.stop();
+    }
+}
@@ -0,0 +1,206 @@
+import { describe, expect, it } from "vitest";
+import { PaymentTypeModel, PensionModel } from "../src/models/hrSettings";
+import {
+    calculateAllowanceTaxability,
+    calculateIncomeTax,
+    calculatePension,
+    calculateSalary
+} from "../src/util/payrollCalculator";
+
+// Brackets deliberately out of order: the calculator sorts them
+const tax = {
+    taxRates: [
+        { upperBound: 1650, percentage: 10 },
+        { upperBound: 600, percentage: 0 },
+        { upperBound: 3200, percentage: 15 }
+    ],
+    upperTaxRate: 35
+};
+
+const paymentType = (taxabilityThresholdType: PaymentTypeModel["taxabilityThresholdType"], taxabilityThresholdAmount: number): PaymentTypeModel => ({
+    id: "transport",
+    paymentName: "Transport allowance",
+    paymentType: "Allowance",
+    taxabilityThresholdType,
+    taxabilityThresholdAmount,
+    active: true
+});
+
+const percentagePension: PensionModel = {
+    id: "pension",
+    employeePensionType: "Percentage",
+    employeePension: 7,
+    employerPensionType: "Percentage",
+    employerPension: 11
+};
+
+describe("calculateIncomeTax", () => {
+    it.each([
+        // [taxable income, tax]
+        [0, 0],
+        [500, 0],
+        [600, 0],
+        [601, 0.1],
+        [1650, 105],
+        [1651, 105.15],
+        [3200, 337.5],
+        [3201, 337.85],
+        [10000, 2717.5]
+    ])("taxes %d as %d", (income, expected) => {
+        expect(calculateIncomeTax(income, tax).tax).toBe(expected);
+    });
+
+    it("itemises every bracket the income reaches", () => {
+        const result = calculateIncomeTax(10000, tax);
+        expect(result.brackets).toEqual([
+            { lowerBound: 0, upperBound: 600, percentage: 0, taxedAmount: 600, tax: 0 },
+            { lowerBound: 600, upperBound: 1650, percentage: 10, taxedAmount: 1050, tax: 105 },
+            { lowerBound: 1650, upperBound: 3200, percentage: 15, taxedAmount: 1550, tax: 232.5 },
+            { lowerBound: 3200, upperBound: null, percentage: 35, taxedAmount: 6800, tax: 2380 }
+        ]);
+        expect(result.effectiveRate).toBe(27.18);
+    });
+
+    it("stops at the bracket containing the income", () => {
+        const result = calculateIncomeTax(2000, tax);
+        expect(result.brackets.map(bracket => bracket.upperBound)).toEqual([600, 1650, 3200]);
+        expect(result.brackets[2]?.taxedAmount).toBe(350);
+        expect(result.tax).toBe(157.5);
+    });
+
+    it("taxes everything above the last bracket at upperTaxRate", () => {
+        expect(calculateIncomeTax(5000, { taxRates: [], upperTaxRate: 20 }).tax).toBe(1000);
+        expect(calculateIncomeTax(5000, { ...tax, upperTaxRate: 0 }).tax).toBe(337.5);
+    });
+
+    it("ignores brackets without a positive upper bound", () => {
+        const withInvalid = { ...tax, taxRates: [...tax.taxRates, { upperBound: 0, percentage: 50 }, { upperBound: Number.NaN, percentage: 50 }] };
+        expect(calculateIncomeTax(10000, withInvalid).tax).toBe(2717.5);
+    });
+
+    it("returns no tax without a tax configuration or for invalid income", () => {
+        expect(calculateIncomeTax(10000, null)).toEqual({ taxableIncome: 10000, tax: 0, effectiveRate: 0, brackets: [] });
+        expect(calculateIncomeTax(-100, tax).tax).toBe(0);
+        expect(calculateIncomeTax(Number.NaN, tax).tax).toBe(0);
+    });
+
+    it("converts the base currency brackets with the exchange rate", () => {
+        // One unit is worth 2 base units, so the bounds become 300, 825 and 1600
+        const result = calculateIncomeTax(1000, tax, { exchangeRate: 2 });
+        expect(result.brackets.map(bracket => bracket.upperBound)).toEqual([300, 825, 1600]);
+        expect(result.tax).toBe(78.75);
+        // Same as taxing the converted income in base currency and converting back
+        expect(result.tax).toBe(calculateIncomeTax(2000, tax).tax / 2);
+    });
+
+    it("treats a missing or invalid exchange rate as 1", () => {
+        expect(calculateIncomeTax(10000, tax, { exchangeRate: 0 }).tax).toBe(2717.5);
+        expect(calculateIncomeTax(10000, tax, null).tax).toBe(2717.5);
+    });
+});
+
+describe("calculateAllowanceTaxability", () => {
+    it("exempts a percentage of the base salary", () => {
+        expect(calculateAllowanceTaxability({ label: "Transport", amount: 2000, paymentType: paymentType("Percentage", 25) }, 6000))
+            .toEqual({ label: "Transport", amount: 2000, exempt: 1500, taxable: 500 });
+    });
+
+    it("exempts a fixed value", () => {
+        expect(calculateAllowanceTaxability({ label: "Transport", amount: 2000, paymentType: paymentType("Value", 600) }, 6000))
+            .toEqual({ label: "Transport", amount: 2000, exempt: 600, taxable: 1400 });
+    });
+
+    it("never exempts more than the allowance", () => {
+        expect(calculateAllowanceTaxability({ label: "Transport", amount: 400, paymentType: paymentType("Value", 600) }, 6000))
+            .toEqual({ label: "Transport", amount: 400, exempt: 400, taxable: 0 });
+        expect(calculateAllowanceTaxability({ label: "Transport", amount: 1000, paymentType: paymentType("Percentage", 25) }, 6000).taxable).toBe(0);
+    });
+
+    it("makes an allowance without payment type fully taxable", () => {
+        expect(calculateAllowanceTaxability({ label: "Bonus", amount: 1000, paymentType: null }, 6000))
+            .toEqual({ label: "Bonus", amount: 1000, exempt: 0, taxable: 1000 });
+    });
+
+    it("converts a fixed threshold from the base currency", () => {
+        expect(calculateAllowanceTaxability({ label: "Transport", amount: 500, paymentType: paymentType("Value", 600) }, 3000, { exchangeRate: 2 }))
+            .toEqual({ label: "Transport", amount: 500, exempt: 300, taxable: 200 });
+    });
+
+    it("does not convert a percentage threshold", () => {
+        expect(calculateAllowanceTaxability({ label: "Transport", amount: 1000, paymentType: paymentType("Percentage", 25) }, 3000, { exchangeRate: 2 }).exempt)
+            .toBe(750);
+    });
+});
+
+describe("calculatePension", () => {
+    it("applies percentages to the base salary", () => {
+        expect(calculatePension(6000, percentagePension)).toEqual({
+            employee: { type: "Percentage", configured: 7, contribution: 420 },
+            employer: { type: "Percentage", configured: 11, contribution: 660 }
+        });
+    });
+
+    it("uses fixed amounts as they are", () => {
+        const fixed: PensionModel = { ...percentagePension, employeePensionType: "Fixed Amount", employeePension: 300, employerPensionType: "Fixed Amount", employerPension: 500 };
+        expect(calculatePension(6000, fixed)).toEqual({
+            employee: { type: "Fixed Amount", configured: 300, contribution: 300 },
+            employer: { type: "Fixed Amount", configured: 500, contribution: 500 }
+        });
+    });
+
+    it("mixes a percentage and a fixed amount", () => {
+        const mixed: PensionModel = { ...percentagePension, employerPensionType: "Fixed Amount", employerPension: 500 };
+        const result = calculatePension(6000, mixed);
+        expect(result.employee.contribution).toBe(420);
+        expect(result.employer.contribution).toBe(500);
+    });
+
+    it("converts fixed amounts from the base currency but not percentages", () => {
+        const mixed: PensionModel = { ...percentagePension, employerPensionType: "Fixed Amount", employerPension: 500 };
+        const result = calculatePension(3000, mixed, { exchangeRate: 2 });
+        expect(result.employee.contribution).toBe(210);
+        expect(result.employer.contribution).toBe(250);
+    });
+});
+
+describe("calculateSalary", () => {
+    it("goes from gross to net pay", () => {
+        const result = calculateSalary({
+            baseSalary: 6000,
+            allowances: [{ label: "Transport", amount: 2000, paymentType: paymentType("Percentage", 25) }],
+            tax,
+            pension: percentagePension
+        });
+        expect(result.grossPay).toBe(8000);
+        expect(result.taxableIncome).toBe(6500);
+        expect(result.tax.tax).toBe(1492.5);
+        expect(result.pension?.employee.contribution).toBe(420);
+        expect(result.netPay).toBe(6087.5);
+    });
+
+    it("taxes extra taxable earnings in full", () => {
+        const result = calculateSalary({
+            baseSalary: 6000,
+            taxableEarnings: [{ label: "Overtime", amount: 500 }],
+            tax,
+            pension: null
+        });
+        expect(result.grossPay).toBe(6500);
+        expect(result.taxableIncome).toBe(6500);
+        expect(result.pension).toBeNull();
+        expect(result.netPay).toBe(6500 - 1492.5);
+    });
+
+    it("pays the base salary untaxed without a tax configuration", () => {
+        expect(calculateSalary({ baseSalary: 6000, tax: null, pension: null }).netPay).toBe(6000);
+    });
+
+    it("applies the exchange rate to tax and pension", () => {
+        const fixedPension: PensionModel = { ...percentagePension, employeePensionType: "Fixed Amount", employeePension: 200 };
+        const result = calculateSalary({ baseSalary: 5000, tax, pension: fixedPension, currency: { exchangeRate: 2 } });
+        // Taxed as 10,000 base units: 2,717.50 base = 1,358.75
+        expect(result.tax.tax).toBe(1358.75);
+        expect(result.pension?.employee.contribution).toBe(100);
+        expect(result.netPay).toBe(5000 - 1358.75 - 100);
+    });
+});
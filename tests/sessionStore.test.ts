@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { ChatSession, InMemorySessionStore, LiveEntry, SessionStore } from "../src/services/session-store.service";
+
+const session: ChatSession = {
+    phoneNumber: "+251911000000",
+    projectName: "dev",
+    employeeUid: "uid-1",
+    employeeId: "employee-1",
+    employeeName: "Abebe Kebede"
+};
+
+const liveEntry = (lastUpdateMs: number, liveUntilMs: number | null = null): LiveEntry => ({
+    chatId: 42,
+    messageId: 7,
+    employeeId: "employee-1",
+    projectName: "dev",
+    liveUntilMs,
+    lastUpdateMs
+});
+
+describe("InMemorySessionStore", () => {
+    let store: SessionStore;
+
+    beforeEach(async () => {
+        store = new InMemorySessionStore();
+        await store.load();
+    });
+
+    it("stores, replaces and deletes chat sessions", async () => {
+        expect(await store.getChatSession(42)).toBeUndefined();
+
+        await store.setChatSession(42, session);
+        expect(await store.getChatSession(42)).toEqual(session);
+
+        await store.setChatSession(42, { ...session, projectName: "int" });
+        expect((await store.getChatSession(42))?.projectName).toBe("int");
+
+        await store.deleteChatSession(42);
+        expect(await store.getChatSession(42)).toBeUndefined();
+    });
+
+    it("keeps live entries by key", async () => {
+        await store.setLiveEntry("42:7", liveEntry(1000));
+        expect(await store.getLiveEntry("42:7", "dev")).toEqual(liveEntry(1000));
+        expect(await store.liveEntries()).toEqual([["42:7", liveEntry(1000)]]);
+    });
+
+    it("finalizes a live entry only while it is still ended", async () => {
+        await store.setLiveEntry("42:7", liveEntry(1000));
+        const isStale = (entry: LiveEntry) => entry.lastUpdateMs < 5000;
+
+        // An update arrived after the entry was listed: it must survive
+        await store.setLiveEntry("42:7", liveEntry(6000));
+        expect(await store.finalizeLiveEntry("42:7", "dev", isStale)).toBeNull();
+        expect(await store.getLiveEntry("42:7", "dev")).toBeDefined();
+
+        await store.setLiveEntry("42:7", liveEntry(1000));
+        expect(await store.finalizeLiveEntry("42:7", "dev", isStale)).toEqual(liveEntry(1000));
+        expect(await store.getLiveEntry("42:7", "dev")).toBeUndefined();
+        expect(await store.finalizeLiveEntry("42:7", "dev", isStale)).toBeNull();
+    });
+});